@@ -7,13 +7,17 @@ import { AuthProvider } from "@/hooks/use-auth";
 import AuthPage from "@/pages/auth-page";
 import DashboardPage from "@/pages/dashboard-page";
 import ContactsPage from "@/pages/contacts-page";
+import SegmentsPage from "@/pages/segments-page";
 import CampaignsPage from "@/pages/campaigns-page";
+import TemplatesPage from "@/pages/templates-page";
 import AnalyticsPage from "@/pages/analytics-page";
 import AccountPage from "@/pages/account-page";
 import SettingsPage from "@/pages/settings-page";
 import HelpPage from "@/pages/help-page";
+import TrashPage from "@/pages/trash-page";
 import ForgotPasswordPage from "@/pages/forgot-password-page";
 import ResetPasswordPage from "@/pages/reset-password-page";
+import AcceptInvitePage from "@/pages/accept-invite-page";
 import EmailTestPage from "@/pages/email-test-page";
 import { ProtectedRoute } from "./lib/protected-route";
 
@@ -23,13 +27,17 @@ function Router() {
       <Route path="/auth" component={AuthPage} />
       <Route path="/forgot-password" component={ForgotPasswordPage} />
       <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/accept-invite" component={AcceptInvitePage} />
       <Route path="/email-test" component={EmailTestPage} />
       <ProtectedRoute path="/" component={DashboardPage} />
-      <ProtectedRoute path="/contacts" component={ContactsPage} />
-      <ProtectedRoute path="/campaigns" component={CampaignsPage} />
-      <ProtectedRoute path="/analytics" component={AnalyticsPage} />
+      <ProtectedRoute path="/contacts" component={ContactsPage} permission="contacts:view" />
+      <ProtectedRoute path="/segments" component={SegmentsPage} permission="contacts:view" />
+      <ProtectedRoute path="/campaigns" component={CampaignsPage} permission="campaigns:view" />
+      <ProtectedRoute path="/templates" component={TemplatesPage} permission="templates:view" />
+      <ProtectedRoute path="/analytics" component={AnalyticsPage} permission="analytics:view" />
+      <ProtectedRoute path="/trash" component={TrashPage} />
       <ProtectedRoute path="/account" component={AccountPage} />
-      <ProtectedRoute path="/settings" component={SettingsPage} />
+      <ProtectedRoute path="/settings" component={SettingsPage} permission="settings:view" />
       <ProtectedRoute path="/help" component={HelpPage} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,195 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CAMPAIGN_MESSAGE_STATUSES, type CampaignMessage } from "@shared/schema";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+type CampaignMessageRow = CampaignMessage & { contactName: string | null };
+
+interface CampaignMessagesResponse {
+  messages: CampaignMessageRow[];
+  total: number;
+}
+
+interface CampaignRecipientsDialogProps {
+  campaign: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PAGE_SIZE = 25;
+
+export function CampaignRecipientsDialog({ campaign, onOpenChange }: CampaignRecipientsDialogProps) {
+  const [status, setStatus] = React.useState("all");
+  const [page, setPage] = React.useState(1);
+
+  // Start from the first page whenever the campaign or status changes
+  React.useEffect(() => {
+    setPage(1);
+  }, [campaign?.id, status]);
+
+  React.useEffect(() => {
+    if (!campaign) {
+      setStatus("all");
+    }
+  }, [campaign]);
+
+  const queryParams = React.useMemo(() => {
+    const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+    if (status !== "all") params.append("status", status);
+    return params.toString();
+  }, [page, status]);
+
+  const { data, isLoading } = useQuery<CampaignMessagesResponse>({
+    queryKey: [`/api/analytics/campaigns/${campaign?.id}/messages?${queryParams}`],
+    enabled: !!campaign,
+  });
+
+  const messages = data?.messages ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>{campaign?.name} Recipients</DialogTitle>
+          <DialogDescription>
+            Delivery status of each message sent in this campaign
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={status} onValueChange={setStatus}>
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="all">All</TabsTrigger>
+            {CAMPAIGN_MESSAGE_STATUSES.map((value) => (
+              <TabsTrigger key={value} value={value}>
+                {formatStatus(value)}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="overflow-x-auto max-h-[420px] overflow-y-auto border rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mobile</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Update</th>
+                <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Error</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isLoading ? (
+                Array(3).fill(0).map((_, i) => (
+                  <tr key={i}>
+                    <td className="px-4 py-3"><Skeleton className="h-4 w-28" /></td>
+                    <td className="px-4 py-3"><Skeleton className="h-4 w-24" /></td>
+                    <td className="px-4 py-3"><Skeleton className="h-4 w-16" /></td>
+                    <td className="px-4 py-3"><Skeleton className="h-4 w-24" /></td>
+                    <td className="px-4 py-3"><Skeleton className="h-4 w-32" /></td>
+                  </tr>
+                ))
+              ) : messages.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                    No recipients with this status
+                  </td>
+                </tr>
+              ) : (
+                messages.map((message) => (
+                  <tr key={message.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap font-medium text-gray-900">
+                      {message.contactName || "Deleted contact"}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500">{message.mobile}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <Badge variant={statusVariant(message.status)}>{formatStatus(message.status)}</Badge>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-gray-500">
+                      {formatDateTime(lastTransition(message))}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500 text-sm">
+                      {message.errorMessage
+                        ? `${message.errorCode ? `${message.errorCode}: ` : ""}${message.errorMessage}`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-500">
+          <span>{total} recipient{total === 1 ? "" : "s"}</span>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              Previous
+            </Button>
+            <span>Page {page} of {pageCount}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={page >= pageCount}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function formatStatus(status: string) {
+  return status === "optout" ? "Opt-out" : status.charAt(0).toUpperCase() + status.slice(1);
+}
+
+function statusVariant(status: string): "success" | "info" | "warning" | "destructive" | "neutral" {
+  switch (status) {
+    case "delivered":
+    case "read":
+      return "success";
+    case "sent":
+      return "info";
+    case "hold":
+    case "optout":
+      return "warning";
+    case "failed":
+      return "destructive";
+    default:
+      return "neutral";
+  }
+}
+
+// Most recent status transition recorded for a message
+function lastTransition(message: CampaignMessageRow) {
+  return message.readAt || message.deliveredAt || message.failedAt || message.sentAt || message.updatedAt;
+}
+
+function formatDateTime(value: Date | string) {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(value));
+}
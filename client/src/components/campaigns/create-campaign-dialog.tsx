@@ -5,7 +5,7 @@ import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { campaignValidationSchema } from "@shared/schema";
+import { campaignValidationSchema, type Contact, type CustomField, type Tag } from "@shared/schema";
 import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { 
@@ -27,6 +27,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -37,17 +38,32 @@ import { Button } from "@/components/ui/button";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Loader2 } from "lucide-react";
+import {
+  TemplateVariablesFields,
+  defaultTemplateVariables,
+  type TemplatePlaceholder,
+  type TemplateVariablesFieldsProps,
+} from "./template-variables-fields";
+import { TemplatePreview } from "./template-preview";
+import { TagPicker } from "@/components/tags/tag-picker";
+import { Badge } from "@/components/ui/badge";
+
+// Contacts fetched to find one to preview the template with
+const SAMPLE_CONTACT_PAGE_SIZE = 50;
 
 const formSchema = campaignValidationSchema.extend({
   template: z.string().min(1, "Please select a template"),
-  contactLabel: z.string().optional(),
+  // "all", "segment:<id>" or "label:<label>"; turned into segmentId/contactLabel on submit
+  audience: z.string().default("all"),
   scheduleForLater: z.boolean().default(false),
   scheduledDate: z.date().optional(),
   scheduledTime: z.string().optional(),
@@ -66,45 +82,70 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
     id: string;
     name: string;
     description?: string;
+    language: string | null;
+    status: string;
+    components: any[];
+    placeholders: TemplatePlaceholder[];
+    parameterCounts: { header: number; body: number; buttons: number };
   }
   
-  // Fetch templates
-  const { data: templates = [], isLoading: templatesLoading } = useQuery<Template[]>({
+  // Fetch templates from the account's template cache
+  const { data: templateData, isLoading: templatesLoading } = useQuery<{ templates: Template[] }>({
     queryKey: ["/api/templates"],
     queryFn: getQueryFn({ on401: "throw" }),
     enabled: open,
   });
+  const templates = templateData?.templates ?? [];
 
-  // Fetch contacts (for contact labels)
-  const { data: contacts = [] } = useQuery({
-    queryKey: ["/api/contacts"],
-    queryFn: getQueryFn({ on401: "returnNull" }),
+  // Labels in use across the account, for targeting a label
+  const { data: filterOptions } = useQuery<{ labels: string[]; locations: string[] }>({
+    queryKey: ["/api/contacts/filter-options"],
     enabled: open,
   });
+  const uniqueLabels = filterOptions?.labels ?? [];
   
-  // Extract unique labels from contacts
-  const uniqueLabels = React.useMemo(() => {
-    if (!Array.isArray(contacts)) return [];
-    const labels = contacts.map((contact: any) => contact.label);
-    return Array.from(new Set(labels.filter(Boolean)));
-  }, [contacts]);
+  // Saved segments, with their current contact counts
+  const { data: segments = [] } = useQuery<{ id: number; name: string; contactCount: number }[]>({
+    queryKey: ["/api/segments"],
+    enabled: open,
+  });
+  
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+  
+  const { data: customFields = [] } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
   
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
       template: "",
-      contactLabel: "",
+      audience: "all",
       scheduleForLater: false,
       scheduledDate: undefined,
       scheduledTime: "",
+      templateVariables: [],
+      includeTagIds: [],
+      excludeTagIds: [],
     },
   });
 
   const campaignMutation = useMutation({
     mutationFn: async (values: z.infer<typeof formSchema>) => {
       // Handle scheduled date and time
-      const { scheduleForLater, scheduledDate, scheduledTime, ...campaignData } = values;
+      const { scheduleForLater, scheduledDate, scheduledTime, audience, ...campaignData } = values;
+      
+      // Target either a segment, a single label, or everyone
+      if (audience.startsWith("segment:")) {
+        campaignData.segmentId = parseInt(audience.slice("segment:".length));
+      } else if (audience.startsWith("label:")) {
+        campaignData.contactLabel = audience.slice("label:".length);
+      }
       
       // If scheduling for later and both date and time are provided, add them to the campaignData
       if (scheduleForLater && scheduledDate && scheduledTime) {
@@ -138,6 +179,34 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
     },
   });
 
+  const selectedTemplate = templates.find(t => t.id === form.watch("template"));
+  const audience = form.watch("audience");
+  const includeTagIds = form.watch("includeTagIds");
+  const excludeTagIds = form.watch("excludeTagIds");
+  const audienceLabel = audience?.startsWith("label:") ? audience.slice("label:".length) : null;
+
+  // A page of the audience's contacts to pick a preview contact from
+  const sampleParams = new URLSearchParams({ pageSize: String(SAMPLE_CONTACT_PAGE_SIZE) });
+  if (audienceLabel) sampleParams.set("label", audienceLabel);
+  if (includeTagIds?.length === 1) sampleParams.set("tagId", String(includeTagIds[0]));
+  const { data: samplePage } = useQuery<{ contacts: (Contact & { tagIds: number[] })[] }>({
+    queryKey: [`/api/contacts?${sampleParams.toString()}`],
+    enabled: open,
+  });
+
+  // Preview with the first contact the campaign would reach; segment rules are
+  // only evaluated on the server, so any subscribed contact stands in for them
+  const sampleContact = React.useMemo(() => {
+    if (!samplePage?.contacts) return null;
+    return samplePage.contacts.find((contact) => {
+      const contactTagIds: number[] = contact.tagIds || [];
+      return !contact.optedOut &&
+        (!audienceLabel || contact.label === audienceLabel) &&
+        (!includeTagIds?.length || contactTagIds.some((id) => includeTagIds.includes(id))) &&
+        !contactTagIds.some((id) => excludeTagIds?.includes(id));
+    }) ?? null;
+  }, [samplePage, audienceLabel, includeTagIds, excludeTagIds]);
+
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     campaignMutation.mutate(values);
   };
@@ -151,7 +220,7 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Campaign</DialogTitle>
           <DialogDescription>
@@ -182,7 +251,12 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
                 <FormItem>
                   <FormLabel>Template</FormLabel>
                   <Select
-                    onValueChange={field.onChange}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      // Start the variable mapping over for the new template's placeholders
+                      const placeholders = templates.find(t => t.id === value)?.placeholders ?? [];
+                      form.setValue("templateVariables", defaultTemplateVariables(placeholders));
+                    }}
                     defaultValue={field.value}
                   >
                     <FormControl>
@@ -206,12 +280,22 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
                         </div>
                       ) : (
                         templates.map((template) => (
-                          <SelectItem key={template.id} value={template.id}>
+                          // Only templates Meta has approved can be sent
+                          <SelectItem key={template.id} value={template.id} disabled={template.status !== "APPROVED"}>
                             <div className="flex flex-col">
-                              <span>{template.name}</span>
-                              {template.description && (
-                                <span className="text-xs text-gray-500">{template.description}</span>
-                              )}
+                              <div className="flex items-center gap-2">
+                                <span>{template.name}</span>
+                                {template.status !== "APPROVED" && (
+                                  <Badge variant={template.status === "REJECTED" ? "destructive" : "warning"}>
+                                    {template.status.charAt(0) + template.status.slice(1).toLowerCase()}
+                                  </Badge>
+                                )}
+                              </div>
+                              <span className="text-xs text-gray-500">
+                                {[template.description, template.language, formatParameterCount(template.parameterCounts)]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </span>
                             </div>
                           </SelectItem>
                         ))
@@ -225,10 +309,31 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
             
             <FormField
               control={form.control}
-              name="contactLabel"
+              name="templateVariables"
+              render={({ field }) => (
+                <TemplateVariablesFields
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  errors={form.formState.errors.templateVariables as TemplateVariablesFieldsProps["errors"]}
+                  customFields={customFields}
+                />
+              )}
+            />
+            
+            {selectedTemplate && (
+              <TemplatePreview
+                components={selectedTemplate.components}
+                variables={form.watch("templateVariables") ?? []}
+                contact={sampleContact}
+              />
+            )}
+            
+            <FormField
+              control={form.control}
+              name="audience"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Contact Label</FormLabel>
+                  <FormLabel>Audience</FormLabel>
                   <Select
                     onValueChange={field.onChange}
                     defaultValue={field.value}
@@ -240,13 +345,28 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
                     </FormControl>
                     <SelectContent>
                       <SelectItem key="all" value="all">All Contacts</SelectItem>
-                      {uniqueLabels.map((label: string) => 
-                        // Make sure we never have an empty string value
-                        label && label.trim() !== "" ? (
-                          <SelectItem key={label} value={label}>
-                            {label}
-                          </SelectItem>
-                        ) : null
+                      {segments.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Segments</SelectLabel>
+                          {segments.map((segment) => (
+                            <SelectItem key={segment.id} value={`segment:${segment.id}`}>
+                              {segment.name} ({segment.contactCount})
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                      {uniqueLabels.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Labels</SelectLabel>
+                          {uniqueLabels.map((label: string) => 
+                            // Make sure we never have an empty string value
+                            label && label.trim() !== "" ? (
+                              <SelectItem key={label} value={`label:${label}`}>
+                                {label}
+                              </SelectItem>
+                            ) : null
+                          )}
+                        </SelectGroup>
                       )}
                     </SelectContent>
                   </Select>
@@ -255,6 +375,39 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
               )}
             />
             
+            {tags.length > 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="includeTagIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Only contacts tagged</FormLabel>
+                      <FormControl>
+                        <TagPicker tags={tags} value={field.value ?? []} onChange={field.onChange} placeholder="Any tag" />
+                      </FormControl>
+                      <FormDescription>Contacts need at least one of these tags</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="excludeTagIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Skip contacts tagged</FormLabel>
+                      <FormControl>
+                        <TagPicker tags={tags} value={field.value ?? []} onChange={field.onChange} placeholder="No tag" />
+                      </FormControl>
+                      <FormDescription>Contacts with any of these tags are left out</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            
             <FormField
               control={form.control}
               name="scheduleForLater"
@@ -365,5 +518,11 @@ export function CreateCampaignDialog({ open, onOpenChange }: CreateCampaignDialo
   );
 }
 
+function formatParameterCount(counts: { header: number; body: number; buttons: number }) {
+  const total = counts.header + counts.body + counts.buttons;
+  if (total === 0) return null;
+  return `${total} variable${total === 1 ? "" : "s"}`;
+}
+
 // Helper to prevent code duplication
 import { getQueryFn } from "@/lib/queryClient";
@@ -0,0 +1,81 @@
+import * as React from "react";
+import { contactFieldValue, type TemplateVariable } from "@shared/schema";
+import { ExternalLink, Reply } from "lucide-react";
+
+interface TemplatePreviewProps {
+  components: any[];
+  variables: TemplateVariable[];
+  // Contact whose data fills the variables; leave out to preview with the variables' own values
+  contact?: Record<string, any> | null;
+}
+
+// Fill the {{n}} placeholders of one template component the way the launch will for this contact
+function fillPlaceholders(
+  text: string,
+  variables: TemplateVariable[],
+  contact: Record<string, any> | null | undefined,
+  match: (variable: TemplateVariable) => boolean
+) {
+  return text.replace(/\{\{\s*(\d+)\s*\}\}/g, (placeholder, index) => {
+    const variable = variables.find((v) => match(v) && v.index === parseInt(index, 10));
+    if (!variable) return placeholder;
+    if (variable.source === "static") return variable.value || placeholder;
+
+    const fieldValue = contact ? contactFieldValue(contact, variable.field) : undefined;
+    const value = fieldValue === null || fieldValue === undefined ? "" : String(fieldValue).trim();
+    return value || variable.value || `[${variable.field}]`;
+  });
+}
+
+/**
+ * A WhatsApp-style chat bubble showing how a template will look to one recipient.
+ */
+export function TemplatePreview({ components, variables, contact }: TemplatePreviewProps) {
+  const header = components.find((c) => c.type === "HEADER");
+  const body = components.find((c) => c.type === "BODY");
+  const footer = components.find((c) => c.type === "FOOTER");
+  const buttons: any[] = components.find((c) => c.type === "BUTTONS")?.buttons ?? [];
+
+  return (
+    <div className="rounded-md bg-[#e5ddd5] p-4">
+      <div className="max-w-[85%] rounded-lg rounded-tl-none bg-white shadow-sm">
+        <div className="px-3 pt-2 pb-1 space-y-1">
+          {header && header.format === "TEXT" && (
+            <p className="font-semibold text-sm text-gray-900">
+              {fillPlaceholders(header.text || "", variables, contact, (v) => v.component === "header")}
+            </p>
+          )}
+          {header && header.format && header.format !== "TEXT" && (
+            <div className="flex h-24 items-center justify-center rounded bg-gray-100 text-xs uppercase text-gray-400">
+              {header.format.toLowerCase()}
+            </div>
+          )}
+          {body && (
+            <p className="whitespace-pre-wrap text-sm text-gray-800">
+              {fillPlaceholders(body.text || "", variables, contact, (v) => v.component === "body")}
+            </p>
+          )}
+          {footer && <p className="text-xs text-gray-500">{footer.text}</p>}
+          <p className="text-right text-[10px] text-gray-400">
+            {new Intl.DateTimeFormat("en-US", { hour: "numeric", minute: "2-digit" }).format(new Date())}
+          </p>
+        </div>
+        {buttons.length > 0 && (
+          <div className="divide-y border-t">
+            {buttons.map((button, i) => (
+              <div key={i} className="flex items-center justify-center gap-1 py-2 text-sm text-[#00a5f4]">
+                {button.type === "URL" ? <ExternalLink className="h-3 w-3" /> : <Reply className="h-3 w-3" />}
+                {button.text}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      {contact !== undefined && (
+        <p className="mt-2 text-xs text-gray-600">
+          {contact ? `Preview for ${contact.name}` : "Add contacts to preview with real data"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import * as React from "react";
+import {
+  TEMPLATE_VARIABLE_FIELDS,
+  TEMPLATE_VARIABLE_FIELD_LABELS,
+  CUSTOM_FIELD_VARIABLE_PREFIX,
+  type CustomField,
+  type TemplateVariable,
+} from "@shared/schema";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// A {{n}} placeholder as listed by /api/templates
+export interface TemplatePlaceholder {
+  component: TemplateVariable["component"];
+  buttonIndex?: number;
+  index: number;
+  example?: string;
+}
+
+export interface TemplateVariablesFieldsProps {
+  value: TemplateVariable[];
+  onChange: (value: TemplateVariable[]) => void;
+  errors?: ({ field?: { message?: string }; value?: { message?: string } } | undefined)[];
+  // The account's custom fields, offered as sources after the built-in fields
+  customFields?: CustomField[];
+}
+
+const STATIC_SOURCE = "static";
+
+// Default mapping for a template's placeholders: every variable starts out as the contact's name
+export function defaultTemplateVariables(placeholders: TemplatePlaceholder[]): TemplateVariable[] {
+  return placeholders.map((placeholder) => ({
+    component: placeholder.component,
+    buttonIndex: placeholder.buttonIndex,
+    index: placeholder.index,
+    source: "field",
+    field: "name",
+    value: "",
+  }));
+}
+
+function placeholderLabel(variable: TemplateVariable) {
+  const component = variable.component === "button"
+    ? `Button ${(variable.buttonIndex ?? 0) + 1}`
+    : variable.component.charAt(0).toUpperCase() + variable.component.slice(1);
+  return `${component} {{${variable.index}}}`;
+}
+
+export function TemplateVariablesFields({ value, onChange, errors, customFields = [] }: TemplateVariablesFieldsProps) {
+  const update = (position: number, change: Partial<TemplateVariable>) => {
+    onChange(value.map((variable, i) => (i === position ? { ...variable, ...change } : variable)));
+  };
+
+  if (value.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div>
+        <Label>Template Variables</Label>
+        <p className="text-xs text-gray-500 mt-1">
+          Choose what each placeholder is replaced with for every recipient
+        </p>
+      </div>
+
+      {value.map((variable, i) => {
+        const selected = variable.source === STATIC_SOURCE ? STATIC_SOURCE : variable.field || "";
+        const error = errors?.[i]?.field?.message || errors?.[i]?.value?.message;
+
+        return (
+          <div key={`${variable.component}-${variable.buttonIndex ?? ""}-${variable.index}`} className="space-y-1">
+            <div className="grid grid-cols-[100px_1fr_1fr] items-center gap-2">
+              <span className="text-sm font-mono text-gray-700">{placeholderLabel(variable)}</span>
+              <Select
+                value={selected}
+                onValueChange={(source) =>
+                  source === STATIC_SOURCE
+                    ? update(i, { source: "static", field: undefined })
+                    : update(i, { source: "field", field: source })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a source" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_VARIABLE_FIELDS.map((field) => (
+                    <SelectItem key={field} value={field}>
+                      {TEMPLATE_VARIABLE_FIELD_LABELS[field]}
+                    </SelectItem>
+                  ))}
+                  {customFields.map((field) => (
+                    <SelectItem key={field.key} value={`${CUSTOM_FIELD_VARIABLE_PREFIX}${field.key}`}>
+                      {field.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={STATIC_SOURCE}>Static value</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                value={variable.value || ""}
+                placeholder={variable.source === STATIC_SOURCE ? "Value" : "Fallback if empty"}
+                onChange={(e) => update(i, { value: e.target.value })}
+              />
+            </div>
+            {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,8 +4,10 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
-import { contactValidationSchema } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { contactValidationSchema, type CustomField, type Tag } from "@shared/schema";
+import { TagPicker } from "@/components/tags/tag-picker";
+import { CustomFieldInput } from "@/components/custom-fields/custom-field-input";
 
 import {
   Dialog,
@@ -54,9 +56,21 @@ export function AddContactDialog({ open, onOpenChange }: AddContactDialogProps)
       mobile: "",
       location: "",
       label: "",
+      tagIds: [],
+      customFields: {},
     },
   });
 
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const { data: customFields = [] } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
+
   const contactMutation = useMutation({
     mutationFn: async (values: z.infer<typeof formSchema>) => {
       const res = await apiRequest("POST", "/api/contacts", values);
@@ -64,6 +78,7 @@ export function AddContactDialog({ open, onOpenChange }: AddContactDialogProps)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       toast({
         title: "Contact created",
         description: "The contact was created successfully",
@@ -104,7 +119,7 @@ export function AddContactDialog({ open, onOpenChange }: AddContactDialogProps)
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add New Contact</DialogTitle>
         </DialogHeader>
@@ -238,6 +253,45 @@ export function AddContactDialog({ open, onOpenChange }: AddContactDialogProps)
               </div>
             </div>
             
+            <FormField
+              control={form.control}
+              name="tagIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags (optional)</FormLabel>
+                  <FormControl>
+                    <TagPicker tags={tags} value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            {customFields.length > 0 && (
+              <FormField
+                control={form.control}
+                name="customFields"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Additional fields</FormLabel>
+                    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                      {customFields.map((customField) => (
+                        <div key={customField.key} className="space-y-1">
+                          <span className="text-xs text-gray-500">{customField.name}</span>
+                          <CustomFieldInput
+                            field={customField}
+                            value={field.value?.[customField.key]}
+                            onChange={(value) => field.onChange({ ...field.value, [customField.key]: value })}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <DialogFooter>
               <Button
                 type="button"
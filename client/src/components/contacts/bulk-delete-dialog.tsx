@@ -1,8 +1,9 @@
 import * as React from "react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Contact } from "@shared/schema";
+import type { ContactBulkTarget } from "@shared/schema";
+import { bulkTargetDescription, runBulkOperation } from "./bulk-edit-dialog";
 
 import {
   AlertDialog,
@@ -19,29 +20,32 @@ import { Loader2 } from "lucide-react";
 interface BulkDeleteDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  contacts: Contact[];
+  target: ContactBulkTarget;
+  count: number;
   onComplete?: () => void;
 }
 
 export function BulkDeleteDialog({
   open,
   onOpenChange,
-  contacts,
+  target,
+  count,
   onComplete,
 }: BulkDeleteDialogProps) {
   const { toast } = useToast();
   const [isDeleting, setIsDeleting] = React.useState(false);
 
   const deleteMutation = useMutation({
-    mutationFn: async (ids: number[]) => {
-      // Using the batch endpoint for better performance
-      return await apiRequest("POST", "/api/contacts/batch-delete", { ids });
+    mutationFn: async () => {
+      // Deleted in one transaction, so either all of them go or none do
+      return await runBulkOperation(target, { action: "delete" });
     },
-    onSuccess: () => {
+    onSuccess: (results) => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Contacts deleted",
-        description: `Successfully deleted ${contacts.length} contact${contacts.length !== 1 ? 's' : ''}`,
+        description: `Moved ${results.changed} contact${results.changed !== 1 ? 's' : ''} to the Trash`,
       });
       onOpenChange(false);
       setIsDeleting(false);
@@ -58,9 +62,9 @@ export function BulkDeleteDialog({
   });
 
   const handleDelete = () => {
-    if (contacts.length > 0) {
+    if (count > 0) {
       setIsDeleting(true);
-      deleteMutation.mutate(contacts.map(contact => contact.id));
+      deleteMutation.mutate();
     }
   };
 
@@ -70,10 +74,10 @@ export function BulkDeleteDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Multiple Contacts</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete {contacts.length} selected contact{contacts.length !== 1 ? 's' : ''}?
+            Are you sure you want to delete {bulkTargetDescription(target, count)}?
             <br />
             <br />
-            This action cannot be undone and will permanently remove the selected contacts from your account.
+            They will be moved to the Trash, where they can be restored until they are permanently deleted.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -87,7 +91,7 @@ export function BulkDeleteDialog({
             className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
           >
             {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Delete {contacts.length} Contact{contacts.length !== 1 ? 's' : ''}
+            Delete {count} Contact{count !== 1 ? 's' : ''}
           </AlertDialogAction>
         </AlertDialogFooter>
       </AlertDialogContent>
@@ -0,0 +1,162 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ContactBulkOperation, ContactBulkResult, ContactBulkTarget } from "@shared/schema";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2 } from "lucide-react";
+
+// "3 selected contacts", or "all 1204 contacts matching the filters"
+export function bulkTargetDescription(target: ContactBulkTarget, count: number): string {
+  const plural = count !== 1 ? "s" : "";
+  return "ids" in target ? `${count} selected contact${plural}` : `all ${count} contact${plural} matching the filters`;
+}
+
+// Apply one operation to many contacts in a single transaction on the server
+export async function runBulkOperation(
+  target: ContactBulkTarget,
+  operation: ContactBulkOperation
+): Promise<ContactBulkResult> {
+  const res = await apiRequest("POST", "/api/contacts/bulk", { target, operation });
+  return (await res.json()).results;
+}
+
+export type BulkEditField = "label" | "location" | "optOut";
+
+const FIELD_TITLES: Record<BulkEditField, string> = {
+  label: "Set Label",
+  location: "Set Location",
+  optOut: "Change Opt-out Status",
+};
+
+interface BulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  field: BulkEditField;
+  target: ContactBulkTarget;
+  count: number;
+  onComplete?: () => void;
+}
+
+/**
+ * Give many contacts the same label or location, or opt them all out of
+ * (or back into) campaigns. A blank label or location clears it.
+ */
+export function BulkEditDialog({
+  open,
+  onOpenChange,
+  field,
+  target,
+  count,
+  onComplete,
+}: BulkEditDialogProps) {
+  const { toast } = useToast();
+  const [value, setValue] = React.useState("");
+  const [optedOut, setOptedOut] = React.useState(true);
+
+  const operation = (): ContactBulkOperation => {
+    switch (field) {
+      case "label":
+        return { action: "setLabel", label: value };
+      case "location":
+        return { action: "setLocation", location: value };
+      case "optOut":
+        return { action: "setOptOut", optedOut };
+    }
+  };
+
+  const editMutation = useMutation({
+    mutationFn: async () => await runBulkOperation(target, operation()),
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/filter-options"] });
+      const unchanged = results.matched - results.changed;
+      toast({
+        title: "Contacts updated",
+        description: `Updated ${results.changed} contact${results.changed !== 1 ? "s" : ""}` +
+          (unchanged > 0 ? `; ${unchanged} already had that value` : ""),
+      });
+      onOpenChange(false);
+      if (onComplete) onComplete();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update contacts",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset state when dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      setValue("");
+      setOptedOut(true);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>{FIELD_TITLES[field]}</DialogTitle>
+          <DialogDescription>
+            {field === "optOut"
+              ? `Opt ${bulkTargetDescription(target, count)} out of campaigns, or back in. Each change is recorded in the contact's opt-out history.`
+              : `Set the ${field} of ${bulkTargetDescription(target, count)}. Leave it blank to clear it.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {field === "optOut" ? (
+          <RadioGroup
+            value={optedOut ? "out" : "in"}
+            onValueChange={(choice) => setOptedOut(choice === "out")}
+            className="flex space-x-4"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="out" id="bulk-opt-out" />
+              <Label htmlFor="bulk-opt-out">Opt out</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="in" id="bulk-opt-in" />
+              <Label htmlFor="bulk-opt-in">Opt in</Label>
+            </div>
+          </RadioGroup>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-edit-value">{field === "label" ? "Label" : "Location"}</Label>
+            <Input
+              id="bulk-edit-value"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={field === "label" ? "e.g. Customer" : "e.g. Chennai"}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => editMutation.mutate()} disabled={editMutation.isPending}>
+            {editMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Update {count} Contact{count !== 1 ? "s" : ""}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ContactBulkTarget, Tag } from "@shared/schema";
+import { TagPicker } from "@/components/tags/tag-picker";
+import { bulkTargetDescription, runBulkOperation } from "./bulk-edit-dialog";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2 } from "lucide-react";
+
+interface BulkTagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: ContactBulkTarget;
+  count: number;
+  onComplete?: () => void;
+}
+
+export function BulkTagsDialog({
+  open,
+  onOpenChange,
+  target,
+  count,
+  onComplete,
+}: BulkTagsDialogProps) {
+  const { toast } = useToast();
+  const [action, setAction] = React.useState<"add" | "remove">("add");
+  const [tagIds, setTagIds] = React.useState<number[]>([]);
+
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const tagMutation = useMutation({
+    mutationFn: async () => {
+      return await runBulkOperation(target, { action: action === "add" ? "addTags" : "removeTags", tagIds });
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      toast({
+        title: action === "add" ? "Tags added" : "Tags removed",
+        description: `Updated ${results.matched} contact${results.matched !== 1 ? 's' : ''}`,
+      });
+      onOpenChange(false);
+      if (onComplete) onComplete();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update tags",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset state when dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      setAction("add");
+      setTagIds([]);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Tag Contacts</DialogTitle>
+          <DialogDescription>
+            Change the tags of {bulkTargetDescription(target, count)}. Other tags are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={action}
+            onValueChange={(value) => setAction(value as "add" | "remove")}
+            className="flex space-x-4"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="add" id="bulk-tags-add" />
+              <Label htmlFor="bulk-tags-add">Add tags</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="remove" id="bulk-tags-remove" />
+              <Label htmlFor="bulk-tags-remove">Remove tags</Label>
+            </div>
+          </RadioGroup>
+
+          <TagPicker tags={tags} value={tagIds} onChange={setTagIds} placeholder="Choose tag" />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => tagMutation.mutate()}
+            disabled={tagIds.length === 0 || tagMutation.isPending}
+          >
+            {tagMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {action === "add" ? "Add" : "Remove"} {tagIds.length > 0 ? tagIds.length : ""} Tag{tagIds.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -37,9 +37,10 @@ export function DeleteContactDialog({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Contact deleted",
-        description: "The contact was deleted successfully",
+        description: "The contact was moved to the Trash",
       });
       onOpenChange(false);
       setIsDeleting(false);
@@ -75,7 +76,7 @@ export function DeleteContactDialog({
             )}
             <br />
             <br />
-            This action cannot be undone.
+            It will be moved to the Trash, where it can be restored until it is permanently deleted.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
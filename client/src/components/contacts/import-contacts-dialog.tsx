@@ -1,7 +1,19 @@
 import * as React from "react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import {
+  CUSTOM_FIELD_VARIABLE_PREFIX,
+  IMPORT_CONTACT_FIELDS,
+  IMPORT_CONTACT_FIELD_LABELS,
+  contactImportMappingSchema,
+  mapImportRow,
+  type Account,
+  type ContactImportMapping,
+  type CustomField,
+  type ImportFieldMapping,
+  type ImportJob,
+} from "@shared/schema";
 
 import {
   Dialog,
@@ -13,50 +25,141 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Upload, Download } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Upload, Download, AlertCircle, CheckCircle2, XCircle } from "lucide-react";
 
 interface ImportContactsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Open on the progress of an import that is already running
+  jobId?: number | null;
+}
+
+// An import job as /api/contacts/import/jobs returns it
+export type ImportJobSummary = Omit<ImportJob, "filePath" | "errorReportPath"> & { hasErrorReport: boolean };
+
+export function isImportJobActive(job: ImportJobSummary) {
+  return job.status === "queued" || job.status === "running";
+}
+
+// Share of the file processed so far, 0 to 100
+export function importJobProgress(job: ImportJobSummary) {
+  if (job.status === "completed") return 100;
+  return job.totalRows ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+}
+
+// How often a running import is checked on
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// What /api/contacts/import/preview returns for an uploaded file
+interface ImportPreview {
+  columns: string[];
+  sheets?: string[];
+  sheet?: string;
+  rows: Record<string, string>[];
+  totalRows: number;
+  mapping: ContactImportMapping;
+}
+
+// Select items can't have an empty value, so "no column" gets its own
+const NO_COLUMN = "__none__";
+
+// File types the importer reads
+const IMPORT_FILE_EXTENSIONS = [".csv", ".xlsx", ".vcf"];
+
+// Fields that must come from the file rather than a default
+const REQUIRED_COLUMN_FIELDS = ["mobile"];
+
+async function postImportFile(url: string, fields: Record<string, string | Blob>) {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
+
+  const response = await fetch(url, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || response.statusText);
+  }
+
+  return await response.json();
 }
 
-export function ImportContactsDialog({ open, onOpenChange }: ImportContactsDialogProps) {
+export function ImportContactsDialog({ open, onOpenChange, jobId: initialJobId }: ImportContactsDialogProps) {
   const { toast } = useToast();
   const [file, setFile] = React.useState<File | null>(null);
   const [deduplicateByMobile, setDeduplicateByMobile] = React.useState(true);
   const fileInputRef = React.useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = React.useState(false);
-  
-  const importMutation = useMutation({
-    mutationFn: async () => {
+  const [step, setStep] = React.useState<"upload" | "map" | "progress">("upload");
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = React.useState<ContactImportMapping>({});
+  const [jobId, setJobId] = React.useState<number | null>(null);
+
+  const { data: customFields = [] } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
+
+  // Mobiles without a country code are read as numbers of the account's country
+  const { data: account } = useQuery<Account>({
+    queryKey: ["/api/account"],
+    enabled: open,
+  });
+
+  // Every contact field a column can fill, built-in fields first
+  const targets = React.useMemo(() => [
+    ...IMPORT_CONTACT_FIELDS.map((field) => ({ target: field as string, label: IMPORT_CONTACT_FIELD_LABELS[field] })),
+    ...customFields.map((field) => ({ target: `${CUSTOM_FIELD_VARIABLE_PREFIX}${field.key}`, label: field.name })),
+  ], [customFields]);
+
+  // Reading another sheet of a workbook starts the mapping over
+  const previewMutation = useMutation({
+    mutationFn: async (sheet?: string): Promise<ImportPreview> => {
       if (!file) throw new Error("No file selected");
-      
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("deduplicate", deduplicateByMobile ? "true" : "false");
-      
-      const response = await fetch("/api/contacts/import", {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(errorText || response.statusText);
-      }
-      
-      return await response.json();
+      return await postImportFile("/api/contacts/import/preview", { file, ...(sheet && { sheet }) });
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      setPreview(data);
+      setMapping(data.mapping);
+      setStep("map");
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Import successful",
-        description: `${data.imported} contacts imported, ${data.duplicates} duplicates skipped, ${data.skipped || 0} rows skipped (missing required fields)`,
+        title: "Could not read file",
+        description: error.message,
+        variant: "destructive",
       });
-      setFile(null);
-      onOpenChange(false);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<ImportJobSummary> => {
+      if (!file) throw new Error("No file selected");
+      return await postImportFile("/api/contacts/import", {
+        file,
+        deduplicate: deduplicateByMobile ? "true" : "false",
+        mapping: JSON.stringify(mapping),
+        ...(preview?.sheet && { sheet: preview.sheet }),
+      });
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/import/jobs"] });
+      setJobId(job.id);
+      setStep("progress");
     },
     onError: (error: Error) => {
       toast({
@@ -67,181 +170,404 @@ export function ImportContactsDialog({ open, onOpenChange }: ImportContactsDialo
     },
   });
 
+  const selectFile = (selectedFile: File) => {
+    if (!IMPORT_FILE_EXTENSIONS.some((extension) => selectedFile.name.toLowerCase().endsWith(extension))) {
+      toast({
+        title: "Invalid file type",
+        description: "Please select a CSV, Excel (.xlsx) or vCard (.vcf) file",
+        variant: "destructive",
+      });
+      return;
+    }
+    setFile(selectedFile);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const selectedFile = e.target.files[0];
-      if (selectedFile.type !== "text/csv") {
-        toast({
-          title: "Invalid file type",
-          description: "Please select a CSV file",
-          variant: "destructive",
-        });
-        return;
-      }
-      setFile(selectedFile);
+      selectFile(e.target.files[0]);
     }
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
+
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const droppedFile = e.dataTransfer.files[0];
-      if (droppedFile.type !== "text/csv") {
-        toast({
-          title: "Invalid file type",
-          description: "Please select a CSV file",
-          variant: "destructive",
-        });
-        return;
-      }
-      setFile(droppedFile);
+      selectFile(e.dataTransfer.files[0]);
     }
   };
 
-  const handleSubmit = () => {
-    if (!file) {
-      toast({
-        title: "No file selected",
-        description: "Please select a CSV file to import",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    importMutation.mutate();
+  const updateMapping = (target: string, change: Partial<ImportFieldMapping>) => {
+    const next = { ...mapping[target], ...change };
+    const { [target]: _, ...rest } = mapping;
+    setMapping(next.column || next.default ? { ...rest, [target]: next } : rest);
   };
 
-  // Reset state when dialog closes
+  // Validate the preview rows exactly as the server will
+  const mappingCheck = contactImportMappingSchema.safeParse(mapping);
+  const mappingErrors = mappingCheck.success ? [] : mappingCheck.error.issues.map((issue) => issue.message);
+  const previewRows = React.useMemo(
+    () => (preview?.rows ?? []).map((row) => mapImportRow(row, mapping, customFields, account?.defaultCountry)),
+    [preview, mapping, customFields, account]
+  );
+  const mappedCustomFields = customFields.filter((field) => mapping[`${CUSTOM_FIELD_VARIABLE_PREFIX}${field.key}`]);
+
+  // Imports keep running when the dialog is closed; reopening shows their progress
+  const { data: job } = useQuery<ImportJobSummary>({
+    queryKey: [`/api/contacts/import/jobs/${jobId}`],
+    enabled: open && jobId !== null,
+    refetchInterval: (query) => {
+      const data = query.state.data as ImportJobSummary | undefined;
+      return !data || isImportJobActive(data) ? JOB_POLL_INTERVAL_MS : false;
+    },
+  });
+
+  // New contacts and tags appear once the import is done
+  const jobFinished = !!job && !isImportJobActive(job);
   React.useEffect(() => {
-    if (!open) {
+    if (jobFinished) {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/import/jobs"] });
+    }
+  }, [jobFinished]);
+
+  // Start from the upload step, or from a running import's progress
+  React.useEffect(() => {
+    if (open) {
+      setJobId(initialJobId ?? null);
+      setStep(initialJobId ? "progress" : "upload");
+    } else {
       setFile(null);
+      setStep("upload");
+      setPreview(null);
+      setMapping({});
+      setJobId(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
     }
-  }, [open]);
+  }, [open, initialJobId]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className={step === "map" ? "sm:max-w-[860px] max-h-[90vh] overflow-y-auto" : "sm:max-w-[500px]"}>
         <DialogHeader>
           <DialogTitle>Import Contacts</DialogTitle>
-          <DialogDescription>
-            Upload a CSV file with contact information. The file should have headers for name, mobile, location, and label.
-            <p className="mt-2 text-amber-600 font-medium">Note: Rows with empty name, mobile, or location will be ignored during import.</p>
-          </DialogDescription>
-          <div className="mt-2">
-            <button 
-              onClick={() => {
-                fetch('/api/templates/contact-csv')
-                  .then(response => response.blob())
-                  .then(blob => {
-                    // Create a temporary link element
-                    const url = window.URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.style.display = 'none';
-                    a.href = url;
-                    a.download = 'sample_contacts_template.csv';
-                    document.body.appendChild(a);
-                    a.click();
-                    window.URL.revokeObjectURL(url);
-                    document.body.removeChild(a);
-                    
-                    toast({
-                      title: "Template downloaded",
-                      description: "Sample CSV template has been downloaded.",
-                    });
-                  })
-                  .catch(error => {
-                    toast({
-                      title: "Download failed",
-                      description: "Failed to download template file.",
-                      variant: "destructive",
-                    });
-                  });
-              }}
-              className="inline-flex items-center text-primary hover:text-blue-700 font-medium text-sm"
-              type="button"
-            >
-              <Download className="h-4 w-4 mr-1" />
-              Download sample template
-            </button>
-          </div>
+          {step === "upload" && (
+            <>
+              <DialogDescription>
+                Upload a CSV or Excel file with a header row, or a vCard file exported from a phone. Next you choose which column fills each contact field, including your
+                custom fields, and check the first rows before importing. Tags can be separated by semicolons (e.g. "VIP;Chennai-event").
+              </DialogDescription>
+              <div className="mt-2">
+                <button
+                  onClick={() => {
+                    fetch('/api/templates/contact-csv')
+                      .then(response => response.blob())
+                      .then(blob => {
+                        // Create a temporary link element
+                        const url = window.URL.createObjectURL(blob);
+                        const a = document.createElement('a');
+                        a.style.display = 'none';
+                        a.href = url;
+                        a.download = 'sample_contacts_template.csv';
+                        document.body.appendChild(a);
+                        a.click();
+                        window.URL.revokeObjectURL(url);
+                        document.body.removeChild(a);
+
+                        toast({
+                          title: "Template downloaded",
+                          description: "Sample CSV template has been downloaded.",
+                        });
+                      })
+                      .catch(error => {
+                        toast({
+                          title: "Download failed",
+                          description: "Failed to download template file.",
+                          variant: "destructive",
+                        });
+                      });
+                  }}
+                  className="inline-flex items-center text-primary hover:text-blue-700 font-medium text-sm"
+                  type="button"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download sample template
+                </button>
+              </div>
+            </>
+          )}
+          {step === "map" && preview && (
+            <DialogDescription>
+              {preview.totalRows} {file?.name.toLowerCase().endsWith(".vcf") ? "contact card" : "row"}{preview.totalRows === 1 ? "" : "s"} in {file?.name}. Choose the column for each field;
+              the default is used when a row's column is empty.
+            </DialogDescription>
+          )}
         </DialogHeader>
-        
-        <div className="mt-4">
-          <div
-            className={`flex justify-center px-6 pt-5 pb-6 border-2 ${
-              isDragging ? "border-primary" : "border-gray-300"
-            } border-dashed rounded-md`}
-            onDragOver={(e) => {
-              e.preventDefault();
-              setIsDragging(true);
-            }}
-            onDragLeave={() => setIsDragging(false)}
-            onDrop={handleDrop}
-          >
-            <div className="space-y-1 text-center">
-              <Upload className="mx-auto h-12 w-12 text-gray-400" />
-              <div className="flex text-sm text-gray-600">
-                <label
-                  htmlFor="file-upload"
-                  className="relative cursor-pointer bg-white rounded-md font-medium text-primary hover:text-blue-600 focus-within:outline-none"
+
+        {step === "upload" && (
+          <>
+            <div className="mt-4">
+              <div
+                className={`flex justify-center px-6 pt-5 pb-6 border-2 ${
+                  isDragging ? "border-primary" : "border-gray-300"
+                } border-dashed rounded-md`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+              >
+                <div className="space-y-1 text-center">
+                  <Upload className="mx-auto h-12 w-12 text-gray-400" />
+                  <div className="flex text-sm text-gray-600">
+                    <label
+                      htmlFor="file-upload"
+                      className="relative cursor-pointer bg-white rounded-md font-medium text-primary hover:text-blue-600 focus-within:outline-none"
+                    >
+                      <span>Upload a file</span>
+                      <input
+                        id="file-upload"
+                        name="file-upload"
+                        type="file"
+                        className="sr-only"
+                        accept={IMPORT_FILE_EXTENSIONS.join(",")}
+                        onChange={handleFileChange}
+                        ref={fileInputRef}
+                      />
+                    </label>
+                    <p className="pl-1">or drag and drop</p>
+                  </div>
+                  <p className="text-xs text-gray-500">CSV, XLSX or VCF up to 10MB</p>
+
+                  {file && (
+                    <div className="mt-2 text-sm text-green-600 font-medium">
+                      {file.name} ({(file.size / 1024).toFixed(2)} KB)
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2 mt-4">
+              <Checkbox
+                id="deduplicate"
+                checked={deduplicateByMobile}
+                onCheckedChange={(checked) => setDeduplicateByMobile(!!checked)}
+              />
+              <Label htmlFor="deduplicate">
+                Deduplicate contacts based on mobile number
+              </Label>
+            </div>
+          </>
+        )}
+
+        {step === "map" && preview && (
+          <div className="space-y-4">
+            {preview.sheets && preview.sheets.length > 1 && (
+              <div className="flex items-center gap-2">
+                <Label>Sheet</Label>
+                <Select
+                  value={preview.sheet}
+                  onValueChange={(sheet) => previewMutation.mutate(sheet)}
+                  disabled={previewMutation.isPending}
                 >
-                  <span>Upload a file</span>
-                  <input
-                    id="file-upload"
-                    name="file-upload"
-                    type="file"
-                    className="sr-only"
-                    accept=".csv"
-                    onChange={handleFileChange}
-                    ref={fileInputRef}
-                  />
-                </label>
-                <p className="pl-1">or drag and drop</p>
+                  <SelectTrigger className="h-8 w-[220px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {preview.sheets.map((sheet) => (
+                      <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {previewMutation.isPending && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+              </div>
+            )}
+
+            <div className="rounded-md border">
+              <div className="grid grid-cols-[160px_1fr_1fr] gap-2 border-b bg-gray-50 px-3 py-2 text-xs font-medium text-gray-500">
+                <span>Contact field</span>
+                <span>File column</span>
+                <span>Default value</span>
               </div>
-              <p className="text-xs text-gray-500">CSV up to 10MB</p>
-              
-              {file && (
-                <div className="mt-2 text-sm text-green-600 font-medium">
-                  {file.name} ({(file.size / 1024).toFixed(2)} KB)
+              {targets.map(({ target, label }) => (
+                <div key={target} className="grid grid-cols-[160px_1fr_1fr] items-center gap-2 px-3 py-1.5">
+                  <span className="text-sm">
+                    {label}
+                    {(target === "name" || target === "mobile") && <span className="text-destructive"> *</span>}
+                  </span>
+                  <Select
+                    value={mapping[target]?.column ?? NO_COLUMN}
+                    onValueChange={(column) => updateMapping(target, { column: column === NO_COLUMN ? undefined : column })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Don't import</SelectItem>
+                      {preview.columns.map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {REQUIRED_COLUMN_FIELDS.includes(target) ? (
+                    <span className="text-xs text-gray-500 px-3">Required in every row</span>
+                  ) : (
+                    <Input
+                      className="h-8"
+                      placeholder="None"
+                      value={mapping[target]?.default ?? ""}
+                      onChange={(e) => updateMapping(target, { default: e.target.value || undefined })}
+                    />
+                  )}
                 </div>
-              )}
+              ))}
+            </div>
+
+            {mappingErrors.length > 0 && (
+              <div className="flex items-start gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>{mappingErrors.join(". ")}</span>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Preview of the first {previewRows.length} rows</Label>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Mobile</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Tags</TableHead>
+                      {mappedCustomFields.map((field) => (
+                        <TableHead key={field.key}>{field.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewRows.map(({ contact, errors }, index) =>
+                      contact ? (
+                        <TableRow key={index}>
+                          <TableCell className="text-gray-500">{index + 2}</TableCell>
+                          <TableCell>{contact.name}</TableCell>
+                          <TableCell>{contact.mobile}</TableCell>
+                          <TableCell>{contact.location}</TableCell>
+                          <TableCell>{contact.label}</TableCell>
+                          <TableCell>{contact.tags.join(", ")}</TableCell>
+                          {mappedCustomFields.map((field) => (
+                            <TableCell key={field.key}>{String(contact.customFields[field.key] ?? "")}</TableCell>
+                          ))}
+                        </TableRow>
+                      ) : (
+                        <TableRow key={index} className="bg-red-50 hover:bg-red-50">
+                          <TableCell className="text-gray-500">{index + 2}</TableCell>
+                          <TableCell colSpan={5 + mappedCustomFields.length} className="text-destructive">
+                            {errors.join("; ")}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-gray-500">Rows with errors are skipped; you can download them after the import.</p>
             </div>
           </div>
-        </div>
-        
-        <div className="flex items-center space-x-2 mt-4">
-          <Checkbox
-            id="deduplicate"
-            checked={deduplicateByMobile}
-            onCheckedChange={(checked) => setDeduplicateByMobile(!!checked)}
-          />
-          <Label htmlFor="deduplicate">
-            Deduplicate contacts based on mobile number
-          </Label>
-        </div>
-        
+        )}
+
+        {step === "progress" && (
+          !job ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm">
+                {job.status === "completed" ? (
+                  <CheckCircle2 className="h-5 w-5 text-green-600" />
+                ) : job.status === "failed" ? (
+                  <XCircle className="h-5 w-5 text-destructive" />
+                ) : (
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                )}
+                <span className="font-medium">
+                  {job.status === "queued" && `Waiting to import ${job.fileName}`}
+                  {job.status === "running" && `Importing ${job.fileName}`}
+                  {job.status === "completed" && `Imported ${job.fileName}`}
+                  {job.status === "failed" && `Import of ${job.fileName} failed`}
+                </span>
+              </div>
+
+              <Progress value={importJobProgress(job)} />
+              <p className="text-sm text-gray-600">
+                {job.processedRows}{job.totalRows !== null && ` of ${job.totalRows}`} rows processed:{" "}
+                {job.imported} imported, {job.duplicates} duplicate{job.duplicates === 1 ? "" : "s"} skipped,{" "}
+                {job.skipped} row{job.skipped === 1 ? "" : "s"} with errors skipped.
+              </p>
+
+              {job.status === "failed" && job.error && (
+                <p className="text-sm text-destructive">{job.error}</p>
+              )}
+
+              {job.hasErrorReport && (
+                <a
+                  href={`/api/contacts/import/jobs/${job.id}/errors`}
+                  className="inline-flex items-center text-primary hover:text-blue-700 font-medium text-sm"
+                  download
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Download rejected rows (CSV)
+                </a>
+              )}
+
+              {isImportJobActive(job) && (
+                <p className="text-xs text-gray-500">
+                  You can close this window; the import continues in the background.
+                </p>
+              )}
+            </div>
+          )
+        )}
+
         <DialogFooter>
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => onOpenChange(false)}
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSubmit}
-            disabled={!file || importMutation.isPending}
-          >
-            {importMutation.isPending && (
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-            )}
-            Import Contacts
-          </Button>
+          {step === "upload" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => previewMutation.mutate(undefined)} disabled={!file || previewMutation.isPending}>
+                {previewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Next: Map Columns
+              </Button>
+            </>
+          )}
+          {step === "map" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={mappingErrors.length > 0 || importMutation.isPending}
+              >
+                {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {preview?.totalRows} Row{preview?.totalRows === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {step === "progress" && (
+            <Button onClick={() => onOpenChange(false)}>
+              {job && isImportJobActive(job) ? "Close" : "Done"}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,327 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CUSTOM_FIELD_VARIABLE_PREFIX,
+  DUPLICATE_REASON_LABELS,
+  type CustomField,
+  type DuplicateContactGroup,
+  type Tag,
+} from "@shared/schema";
+import { formatCustomFieldValue } from "@/components/custom-fields/custom-field-input";
+import { TagBadge } from "@/components/tags/tag-badge";
+import { cn } from "@/lib/utils";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CheckIcon, Loader2 } from "lucide-react";
+
+interface MergeDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type DuplicateContact = DuplicateContactGroup["contacts"][number];
+
+const BUILT_IN_FIELDS = [
+  { field: "name", label: "Name" },
+  { field: "mobile", label: "Mobile" },
+  { field: "location", label: "Location" },
+  { field: "label", label: "Label" },
+] as const;
+
+// A contact's value for a built-in field or a "custom:<key>" field, as stored
+function rawValue(contact: DuplicateContact, field: string) {
+  if (field.startsWith(CUSTOM_FIELD_VARIABLE_PREFIX)) {
+    return contact.customFields?.[field.slice(CUSTOM_FIELD_VARIABLE_PREFIX.length)] ?? null;
+  }
+  return contact[field as typeof BUILT_IN_FIELDS[number]["field"]] ?? null;
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+
+/**
+ * Review likely duplicate contacts one group at a time. For each group the
+ * user picks the contact that survives and, field by field, whose value it
+ * keeps; the others are merged into it with their tags and history.
+ */
+export function MergeDuplicatesDialog({ open, onOpenChange }: MergeDuplicatesDialogProps) {
+  const { toast } = useToast();
+  const [groupIndex, setGroupIndex] = React.useState(0);
+  const [survivorId, setSurvivorId] = React.useState<number | null>(null);
+  const [excludedIds, setExcludedIds] = React.useState<number[]>([]);
+  const [choices, setChoices] = React.useState<Record<string, number>>({});
+
+  const { data: groups = [], isLoading } = useQuery<DuplicateContactGroup[]>({
+    queryKey: ["/api/contacts/duplicates"],
+    enabled: open,
+  });
+
+  const { data: customFields = [] } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
+
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const group = groups[groupIndex] as DuplicateContactGroup | undefined;
+  const included = (group?.contacts ?? []).filter((contact) => !excludedIds.includes(contact.id));
+  const survivor = included.find((contact) => contact.id === survivorId) ?? included[0];
+
+  // Start every group with its oldest contact surviving and every contact included
+  React.useEffect(() => {
+    setSurvivorId(group?.contacts[0].id ?? null);
+    setExcludedIds([]);
+    setChoices({});
+  }, [group]);
+
+  // Start each visit at the first group
+  React.useEffect(() => {
+    if (!open) setGroupIndex(0);
+  }, [open]);
+
+  // Fields any included contact has a value for; built-in fields first
+  const fields = [
+    ...BUILT_IN_FIELDS,
+    ...customFields.map((field) => ({ field: `${CUSTOM_FIELD_VARIABLE_PREFIX}${field.key}`, label: field.name })),
+  ].filter(({ field }) => included.some((contact) => !isEmpty(rawValue(contact, field))));
+
+  // Whose value a field keeps: the one chosen, else the survivor's, else the first one set
+  const sourceOf = (field: string): DuplicateContact | undefined => {
+    const chosen = included.find((contact) => contact.id === choices[field]);
+    if (chosen) return chosen;
+    if (survivor && !isEmpty(rawValue(survivor, field))) return survivor;
+    return included.find((contact) => !isEmpty(rawValue(contact, field)));
+  };
+
+  const displayValue = (contact: DuplicateContact, field: string) => {
+    const value = rawValue(contact, field);
+    if (!field.startsWith(CUSTOM_FIELD_VARIABLE_PREFIX)) return value === null ? "" : String(value);
+    const customField = customFields.find((f) => `${CUSTOM_FIELD_VARIABLE_PREFIX}${f.key}` === field);
+    return customField ? formatCustomFieldValue(customField, value) : String(value ?? "");
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const value = (field: string) => {
+        const source = sourceOf(field);
+        return source ? rawValue(source, field) : null;
+      };
+      const res = await apiRequest("POST", "/api/contacts/merge", {
+        survivorId: survivor!.id,
+        mergedIds: included.filter((contact) => contact.id !== survivor!.id).map((contact) => contact.id),
+        values: {
+          name: value("name") ?? "",
+          mobile: value("mobile") ?? "",
+          location: value("location") ?? "",
+          label: value("label") ?? "",
+          customFields: Object.fromEntries(
+            customFields.map((field) => [field.key, value(`${CUSTOM_FIELD_VARIABLE_PREFIX}${field.key}`)])
+          ),
+        },
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts/duplicates"] });
+      toast({
+        title: "Contacts merged",
+        description: `${included.length} contacts were merged into ${survivor?.name}`,
+      });
+      // The merged group drops out of the refreshed list, so the same index shows the next one
+      setGroupIndex((index) => Math.min(index, Math.max(groups.length - 2, 0)));
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to merge contacts",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleIncluded = (id: number, include: boolean) =>
+    setExcludedIds((current) => (include ? current.filter((excluded) => excluded !== id) : [...current, id]));
+
+  const mergedTagIds = Array.from(new Set(included.flatMap((contact) => contact.tagIds)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicate Contacts</DialogTitle>
+          <DialogDescription>
+            Contacts that share a mobile number or have nearly the same name. Choose the contact to keep and which
+            values it takes; the others are merged into it along with their tags, opt-out history and campaign
+            messages.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : !group ? (
+          <p className="p-8 text-center text-sm text-gray-500">No duplicate contacts found</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">
+                Group {groupIndex + 1} of {groups.length}
+              </span>
+              <div className="flex gap-1">
+                {group.reasons.map((reason) => (
+                  <Badge key={reason} variant="outline">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[120px]" />
+                    {group.contacts.map((contact) => (
+                      <TableHead key={contact.id} className="py-2 align-top">
+                        <label className="flex items-center gap-2 font-normal">
+                          <Checkbox
+                            checked={!excludedIds.includes(contact.id)}
+                            onCheckedChange={(checked) => toggleIncluded(contact.id, checked === true)}
+                          />
+                          Include
+                        </label>
+                        <Button
+                          type="button"
+                          variant={survivor?.id === contact.id ? "default" : "outline"}
+                          size="sm"
+                          className="mt-1 h-7"
+                          disabled={excludedIds.includes(contact.id)}
+                          onClick={() => {
+                            setSurvivorId(contact.id);
+                            setChoices({});
+                          }}
+                        >
+                          {survivor?.id === contact.id ? "Keeping" : "Keep this one"}
+                        </Button>
+                        <div className="mt-1 text-xs text-gray-500">
+                          Added {new Date(contact.createdAt).toLocaleDateString()}
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fields.map(({ field, label }) => (
+                    <TableRow key={field}>
+                      <TableCell className="font-medium text-gray-700">{label}</TableCell>
+                      {group.contacts.map((contact) => {
+                        const excluded = excludedIds.includes(contact.id);
+                        const value = displayValue(contact, field);
+                        const selected = !excluded && sourceOf(field)?.id === contact.id;
+                        return (
+                          <TableCell key={contact.id} className="p-1">
+                            <button
+                              type="button"
+                              disabled={excluded || !value}
+                              onClick={() => setChoices((current) => ({ ...current, [field]: contact.id }))}
+                              className={cn(
+                                "flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm",
+                                selected ? "bg-primary/10 text-gray-900" : "text-gray-600 hover:bg-gray-50",
+                                (excluded || !value) && "cursor-default opacity-50 hover:bg-transparent"
+                              )}
+                            >
+                              <span>{value || "—"}</span>
+                              {selected && <CheckIcon className="h-4 w-4 shrink-0 text-primary" />}
+                            </button>
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium text-gray-700">Opted out</TableCell>
+                    {group.contacts.map((contact) => (
+                      <TableCell key={contact.id} className="text-sm text-gray-600">
+                        {contact.optedOut ? "Yes" : "No"}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-1 text-sm text-gray-600">
+              <div className="flex flex-wrap items-center gap-1">
+                <span>The merged contact will have the tags</span>
+                {mergedTagIds.length === 0 ? (
+                  <span className="text-gray-400">(none)</span>
+                ) : (
+                  mergedTagIds.map((id) => {
+                    const tag = tags.find((t) => t.id === id);
+                    return tag ? <TagBadge key={id} tag={tag} /> : null;
+                  })
+                )}
+              </div>
+              {included.some((contact) => contact.optedOut) && (
+                <p>One of these contacts opted out, so the merged contact stays opted out.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {group && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={groupIndex === 0}
+                onClick={() => setGroupIndex(groupIndex - 1)}
+              >
+                Previous
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={groupIndex >= groups.length - 1}
+                onClick={() => setGroupIndex(groupIndex + 1)}
+              >
+                Skip
+              </Button>
+              <Button
+                type="button"
+                disabled={included.length < 2 || mergeMutation.isPending}
+                onClick={() => mergeMutation.mutate()}
+              >
+                {mergeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Merge {included.length} Contacts
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { OptOutEvent } from "@shared/schema";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface OptOutHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contact: any | null;
+}
+
+export function OptOutHistoryDialog({ open, onOpenChange, contact }: OptOutHistoryDialogProps) {
+  const { data: events = [], isLoading } = useQuery<OptOutEvent[]>({
+    queryKey: [`/api/contacts/${contact?.id}/opt-out-events`],
+    enabled: open && !!contact,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Opt-out History</DialogTitle>
+          <DialogDescription>
+            When and how {contact?.name || "this contact"} opted out of or back into campaigns
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="divide-y divide-gray-100 max-h-[360px] overflow-y-auto">
+          {isLoading ? (
+            Array(2).fill(0).map((_, i) => (
+              <div key={i} className="py-3">
+                <Skeleton className="h-4 w-40 mb-2" />
+                <Skeleton className="h-3 w-56" />
+              </div>
+            ))
+          ) : events.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">
+              This contact has never opted out
+            </p>
+          ) : (
+            events.map((event) => (
+              <div key={event.id} className="py-3">
+                <div className="flex items-center justify-between">
+                  <Badge variant={event.optedOut ? "destructive" : "success"}>
+                    {event.optedOut ? "Opted out" : "Opted in"}
+                  </Badge>
+                  <span className="text-xs text-gray-500">{formatDateTime(event.createdAt)}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  {event.source === "keyword"
+                    ? `Replied "${event.message ?? event.keyword}" on WhatsApp`
+                    : "Changed by a team member"}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function formatDateTime(value: Date | string) {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(value));
+}
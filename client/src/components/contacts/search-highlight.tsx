@@ -0,0 +1,72 @@
+import * as React from "react";
+import { foldSearchText } from "@shared/schema";
+
+interface SearchHighlightProps {
+  text: string | null | undefined;
+  search: string;
+}
+
+// The words to look for, as the server reads them: phone numbers by their digits
+function searchWords(search: string): string[] {
+  const term = search.trim();
+  if (/^[\d\s\-().+]+$/.test(term)) return [term.replace(/\D/g, "")].filter(Boolean);
+  return foldSearchText(term).split(/\s+/).filter(Boolean);
+}
+
+// Where the search words appear in the text, ignoring case and accents, as sorted [start, end) ranges
+function matchRanges(text: string, words: string[]): [number, number][] {
+  // Fold one character at a time, remembering where each folded character came from
+  let folded = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    for (const foldedChar of foldSearchText(char)) {
+      folded += foldedChar;
+      starts.push(offset);
+      ends.push(offset + char.length);
+    }
+    offset += char.length;
+  }
+
+  const ranges: [number, number][] = [];
+  for (const word of words) {
+    for (let at = folded.indexOf(word); at !== -1; at = folded.indexOf(word, at + word.length)) {
+      ranges.push([starts[at], ends[at + word.length - 1]]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+/**
+ * Text with the parts matching a search marked. Matches ignore case and
+ * accents like the contact search does; contacts found only through a typo
+ * show no marks.
+ */
+export function SearchHighlight({ text, search }: SearchHighlightProps) {
+  if (!text) return null;
+  const ranges = search ? matchRanges(text, searchWords(search)) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-100 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+}
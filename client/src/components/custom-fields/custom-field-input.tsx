@@ -0,0 +1,77 @@
+import * as React from "react";
+import type { CustomField, CustomFieldValue } from "@shared/schema";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Select items can't have an empty value, so "not set" gets its own
+const UNSET = "__unset__";
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+  className?: string;
+}
+
+// Show a stored value the way it was entered; booleans read as Yes/No
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+/**
+ * An input for one custom field value, matching the field's type. Clearing
+ * the input reports null so the value is removed from the contact.
+ */
+export function CustomFieldInput({ field, value, onChange, className }: CustomFieldInputProps) {
+  if (field.type === "boolean" || field.type === "enum") {
+    const current = value === null || value === undefined || value === "" ? UNSET : String(value);
+    return (
+      <Select
+        value={current}
+        onValueChange={(selected) => {
+          if (selected === UNSET) onChange(null);
+          else onChange(field.type === "boolean" ? selected === "true" : selected);
+        }}
+      >
+        <SelectTrigger className={className}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNSET}>Not set</SelectItem>
+          {field.type === "boolean" ? (
+            <>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </>
+          ) : (
+            (field.options || []).map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))
+          )}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      className={className}
+      type={field.type === "number" ? "number" : field.type === "date" ? "date" : "text"}
+      value={value === null || value === undefined ? "" : String(value)}
+      onChange={(e) => {
+        const text = e.target.value;
+        if (text === "") onChange(null);
+        else onChange(field.type === "number" ? Number(text) : text);
+      }}
+    />
+  );
+}
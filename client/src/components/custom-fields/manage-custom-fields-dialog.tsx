@@ -0,0 +1,268 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  type CustomField,
+  type CustomFieldType,
+} from "@shared/schema";
+import { CheckIcon, EditIcon, Loader2, PlusIcon, TrashIcon, XIcon } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface ManageCustomFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Choice lists are edited as comma-separated text
+function parseOptions(text: string): string[] {
+  return text.split(",").map((option) => option.trim()).filter(Boolean);
+}
+
+export function ManageCustomFieldsDialog({ open, onOpenChange }: ManageCustomFieldsDialogProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = React.useState("");
+  const [newType, setNewType] = React.useState<CustomFieldType>("text");
+  const [newOptions, setNewOptions] = React.useState("");
+  const [editing, setEditing] = React.useState<{ id: number; name: string; options: string } | null>(null);
+
+  const { data: fields = [], isLoading } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
+
+  // Field changes show up on contacts, so refresh both lists
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/custom-fields"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/custom-fields", {
+        name: newName,
+        type: newType,
+        ...(newType === "enum" && { options: parseOptions(newOptions) }),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setNewName("");
+      setNewType("text");
+      setNewOptions("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create field",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (field: { id: number; name: string; options: string }) => {
+      const res = await apiRequest("PUT", `/api/custom-fields/${field.id}`, {
+        name: field.name,
+        options: parseOptions(field.options),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update field",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/custom-fields/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Field deleted",
+        description: "The field and its values have been removed from all contacts.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete field",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start each visit with a blank form
+  React.useEffect(() => {
+    if (!open) {
+      setNewName("");
+      setNewType("text");
+      setNewOptions("");
+      setEditing(null);
+    }
+  }, [open]);
+
+  const canCreate = newName.trim() && (newType !== "enum" || parseOptions(newOptions).length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[620px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Custom Fields</DialogTitle>
+          <DialogDescription>
+            Custom fields hold extra details on every contact. Import them from CSV columns named after the field, filter
+            by them, and use them in segments and template variables.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canCreate) createMutation.mutate();
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8 flex-1"
+              placeholder="New field name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Select value={newType} onValueChange={(type) => setNewType(type as CustomFieldType)}>
+              <SelectTrigger className="h-8 w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CUSTOM_FIELD_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="sm" disabled={!canCreate || createMutation.isPending}>
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <PlusIcon className="h-4 w-4 mr-1" />
+              )}
+              Add
+            </Button>
+          </div>
+          {newType === "enum" && (
+            <Input
+              className="h-8"
+              placeholder="Choices, separated by commas"
+              value={newOptions}
+              onChange={(e) => setNewOptions(e.target.value)}
+            />
+          )}
+        </form>
+
+        <div className="divide-y rounded-md border">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : fields.length === 0 ? (
+            <p className="p-4 text-center text-sm text-gray-500">No custom fields yet</p>
+          ) : (
+            fields.map((field) =>
+              editing?.id === field.id ? (
+                <div key={field.id} className="space-y-2 px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      className="h-8 flex-1"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Save"
+                      disabled={!editing.name.trim() || updateMutation.isPending}
+                      onClick={() => updateMutation.mutate(editing)}
+                    >
+                      <CheckIcon className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Cancel" onClick={() => setEditing(null)}>
+                      <XIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {field.type === "enum" && (
+                    <Input
+                      className="h-8"
+                      placeholder="Choices, separated by commas"
+                      value={editing.options}
+                      onChange={(e) => setEditing({ ...editing, options: e.target.value })}
+                    />
+                  )}
+                </div>
+              ) : (
+                <div key={field.id} className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{field.name}</span>
+                      <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[field.type as CustomFieldType]}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      <span className="font-mono">{field.key}</span>
+                      {field.type === "enum" && ` · ${(field.options || []).join(", ")}`}
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Edit Field"
+                      onClick={() => setEditing({ id: field.id, name: field.name, options: (field.options || []).join(", ") })}
+                    >
+                      <EditIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete Field"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(field.id)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            )
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
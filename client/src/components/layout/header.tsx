@@ -19,7 +19,7 @@ interface HeaderProps {
 }
 
 export function Header({ onMenuClick }: HeaderProps) {
-  const { user, logoutMutation } = useAuth();
+  const { user, logoutMutation, can } = useAuth();
   
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -108,12 +108,14 @@ export function Header({ onMenuClick }: HeaderProps) {
                   <span>Profile</span>
                 </DropdownMenuItem>
               </Link>
-              <Link href="/settings">
-                <DropdownMenuItem>
-                  <Settings className="mr-2 h-4 w-4" />
-                  <span>Settings</span>
-                </DropdownMenuItem>
-              </Link>
+              {can("settings:view") && (
+                <Link href="/settings">
+                  <DropdownMenuItem>
+                    <Settings className="mr-2 h-4 w-4" />
+                    <span>Settings</span>
+                  </DropdownMenuItem>
+                </Link>
+              )}
               <Link href="/help">
                 <DropdownMenuItem>
                   <HelpCircle className="mr-2 h-4 w-4" />
@@ -0,0 +1,174 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { segmentGroupSchema, type CustomField, type Segment, type SegmentGroup, type Tag } from "@shared/schema";
+import { Loader2, UsersIcon } from "lucide-react";
+import { SegmentRuleBuilder } from "./segment-rule-builder";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+interface SegmentEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Segment to edit; leave empty to create a new one
+  segment?: Segment | null;
+}
+
+const EMPTY_RULES: SegmentGroup = { combinator: "and", rules: [] };
+
+// Wait for the user to stop editing before recounting
+const COUNT_DEBOUNCE_MS = 400;
+
+export function SegmentEditorDialog({ open, onOpenChange, segment }: SegmentEditorDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [rules, setRules] = React.useState<SegmentGroup>(EMPTY_RULES);
+  const [countedRules, setCountedRules] = React.useState<SegmentGroup>(EMPTY_RULES);
+
+  // Load the segment being edited, or start blank
+  React.useEffect(() => {
+    if (open) {
+      setName(segment?.name ?? "");
+      setDescription(segment?.description ?? "");
+      setRules(segment?.rules ?? EMPTY_RULES);
+      setCountedRules(segment?.rules ?? EMPTY_RULES);
+    }
+  }, [open, segment]);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setCountedRules(rules), COUNT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [rules]);
+
+  // Options for the rule editors
+  const { data: contacts = [] } = useQuery<any[]>({
+    queryKey: ["/api/contacts"],
+    enabled: open,
+  });
+  const { data: campaigns = [] } = useQuery<any[]>({
+    queryKey: ["/api/campaigns"],
+    enabled: open,
+  });
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+  const { data: customFields = [] } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
+    enabled: open,
+  });
+
+  const options = React.useMemo(() => ({
+    labels: Array.from(new Set(contacts.map((contact) => contact.label).filter(Boolean))) as string[],
+    tags,
+    campaigns: campaigns.map((campaign) => ({ id: campaign.id, name: campaign.name })),
+    customFields,
+  }), [contacts, tags, campaigns, customFields]);
+
+  // Live recipient count; incomplete rules are not sent
+  const rulesComplete = segmentGroupSchema.safeParse(countedRules).success;
+  const { data: preview, isFetching: counting } = useQuery<{ count: number }>({
+    queryKey: ["/api/segments/preview", JSON.stringify(countedRules)],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/segments/preview", { rules: countedRules });
+      return await res.json();
+    },
+    enabled: open && rulesComplete,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { name, description: description || null, rules };
+      const res = segment
+        ? await apiRequest("PUT", `/api/segments/${segment.id}`, data)
+        : await apiRequest("POST", "/api/segments", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/segments"] });
+      toast({
+        title: segment ? "Segment updated" : "Segment created",
+        description: `"${name}" has been saved.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save segment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSave = name.trim().length >= 2 && segmentGroupSchema.safeParse(rules).success;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{segment ? "Edit Segment" : "New Segment"}</DialogTitle>
+          <DialogDescription>
+            Segments are evaluated when a campaign is sent, so new contacts that match are included automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="segment-name">Name</Label>
+              <Input id="segment-name" placeholder="VIP customers in Pune" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment-description">Description (optional)</Label>
+              <Input id="segment-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rules</Label>
+            <SegmentRuleBuilder value={rules} onChange={setRules} options={options} />
+          </div>
+
+          <div className="flex items-center gap-2 rounded-md bg-gray-50 px-4 py-3 text-sm">
+            <UsersIcon className="h-4 w-4 text-gray-500" />
+            {!rulesComplete ? (
+              <span className="text-gray-500">Complete the rules to see how many contacts match</span>
+            ) : counting || !preview ? (
+              <span className="flex items-center gap-2 text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Counting contacts...
+              </span>
+            ) : (
+              <span>
+                <span className="font-semibold">{preview.count}</span> contact{preview.count === 1 ? "" : "s"} match right now
+              </span>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" disabled={!canSave || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Segment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
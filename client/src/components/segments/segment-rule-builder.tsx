@@ -0,0 +1,365 @@
+import * as React from "react";
+import {
+  CUSTOM_FIELD_OPERATORS,
+  isSegmentGroup,
+  type CustomField,
+  type SegmentGroup,
+  type SegmentRule,
+  type Tag,
+} from "@shared/schema";
+import { TagPicker } from "@/components/tags/tag-picker";
+import { CustomFieldInput } from "@/components/custom-fields/custom-field-input";
+import { PlusIcon, TrashIcon, FolderPlusIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Values the rule editors offer choices from
+export interface SegmentRuleOptions {
+  labels: string[];
+  tags: Tag[];
+  campaigns: { id: number; name: string }[];
+  customFields: CustomField[];
+}
+
+interface SegmentRuleBuilderProps {
+  value: SegmentGroup;
+  onChange: (value: SegmentGroup) => void;
+  options: SegmentRuleOptions;
+  // Nested groups are indented and can be removed from their parent
+  onRemove?: () => void;
+}
+
+const FIELD_LABELS: Record<SegmentRule["field"], string> = {
+  label: "Label",
+  tag: "Tag",
+  location: "Location",
+  createdAt: "Added",
+  campaign: "Campaign",
+  optedOut: "Opt-out status",
+  customField: "Custom field",
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  in: "is any of",
+  not_in: "is none of",
+  equals: "equals",
+  contains: "contains",
+  before: "before",
+  after: "after",
+  received: "has received",
+  not_received: "has not received",
+  not_equals: "does not equal",
+  greater_than: "is more than",
+  less_than: "is less than",
+  is_set: "is set",
+  is_not_set: "is not set",
+};
+
+const FIELD_OPERATORS: Record<SegmentRule["field"], string[]> = {
+  label: ["in", "not_in"],
+  tag: ["in", "not_in"],
+  location: ["equals", "contains"],
+  createdAt: ["before", "after"],
+  campaign: ["received", "not_received"],
+  optedOut: ["is"],
+  customField: [...CUSTOM_FIELD_OPERATORS],
+};
+
+// Comparisons that make sense for each custom field type
+const CUSTOM_FIELD_TYPE_OPERATORS: Record<string, string[]> = {
+  text: ["equals", "not_equals", "contains", "is_set", "is_not_set"],
+  number: ["equals", "not_equals", "greater_than", "less_than", "is_set", "is_not_set"],
+  date: ["equals", "greater_than", "less_than", "is_set", "is_not_set"],
+  boolean: ["equals", "is_set", "is_not_set"],
+  enum: ["equals", "not_equals", "is_set", "is_not_set"],
+};
+
+function ruleOperators(rule: SegmentRule, options: SegmentRuleOptions): string[] {
+  if (rule.field !== "customField") return FIELD_OPERATORS[rule.field];
+  const field = options.customFields.find((f) => f.key === rule.key);
+  return field ? CUSTOM_FIELD_TYPE_OPERATORS[field.type] : ["equals"];
+}
+
+function operatorLabel(rule: SegmentRule, operator: string, options: SegmentRuleOptions): string {
+  // Dates read better as before/after
+  const field = rule.field === "customField" ? options.customFields.find((f) => f.key === rule.key) : undefined;
+  if (field?.type === "date" && operator === "greater_than") return OPERATOR_LABELS.after;
+  if (field?.type === "date" && operator === "less_than") return OPERATOR_LABELS.before;
+  return OPERATOR_LABELS[operator];
+}
+
+// A fresh rule for a field, with its first operator selected
+export function newSegmentRule(field: SegmentRule["field"]): SegmentRule {
+  switch (field) {
+    case "label":
+      return { field, operator: "in", values: [] };
+    case "tag":
+      return { field, operator: "in", tagIds: [] };
+    case "location":
+      return { field, operator: "equals", value: "" };
+    case "createdAt":
+      return { field, operator: "after", value: "" };
+    case "campaign":
+      return { field, operator: "received", campaignId: 0 };
+    case "optedOut":
+      return { field, operator: "is", value: false };
+    case "customField":
+      return { field, key: "", operator: "equals" };
+  }
+}
+
+function RuleValueEditor({
+  rule,
+  onChange,
+  options,
+}: {
+  rule: SegmentRule;
+  onChange: (rule: SegmentRule) => void;
+  options: SegmentRuleOptions;
+}) {
+  switch (rule.field) {
+    case "label": {
+      const remaining = options.labels.filter((label) => !rule.values.includes(label));
+      return (
+        <div className="flex flex-wrap items-center gap-1">
+          {rule.values.map((label) => (
+            <Badge
+              key={label}
+              variant="secondary"
+              className="cursor-pointer"
+              title="Remove"
+              onClick={() => onChange({ ...rule, values: rule.values.filter((v) => v !== label) })}
+            >
+              {label} ×
+            </Badge>
+          ))}
+          {remaining.length > 0 && (
+            <Select value="" onValueChange={(label) => onChange({ ...rule, values: [...rule.values, label] })}>
+              <SelectTrigger className="h-8 w-[140px]">
+                <SelectValue placeholder="Add label" />
+              </SelectTrigger>
+              <SelectContent>
+                {remaining.map((label) => (
+                  <SelectItem key={label} value={label}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      );
+    }
+    case "tag":
+      return (
+        <TagPicker tags={options.tags} value={rule.tagIds} onChange={(tagIds) => onChange({ ...rule, tagIds })} />
+      );
+    case "location":
+      return (
+        <Input
+          className="h-8"
+          placeholder="City or region"
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+        />
+      );
+    case "createdAt":
+      return (
+        <Input
+          className="h-8"
+          type="date"
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+        />
+      );
+    case "campaign":
+      return (
+        <Select
+          value={rule.campaignId ? rule.campaignId.toString() : ""}
+          onValueChange={(id) => onChange({ ...rule, campaignId: parseInt(id) })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Select a campaign" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.campaigns.map((campaign) => (
+              <SelectItem key={campaign.id} value={campaign.id.toString()}>{campaign.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case "optedOut":
+      return (
+        <Select
+          value={rule.value ? "true" : "false"}
+          onValueChange={(value) => onChange({ ...rule, value: value === "true" })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="false">Subscribed</SelectItem>
+            <SelectItem value="true">Opted out</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "customField": {
+      const field = options.customFields.find((f) => f.key === rule.key);
+      const needsValue = rule.operator !== "is_set" && rule.operator !== "is_not_set";
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={rule.key}
+            onValueChange={(key) => onChange({ field: "customField", key, operator: "equals" })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Select a field" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.customFields.map((f) => (
+                <SelectItem key={f.key} value={f.key}>{f.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {field && needsValue && (
+            <CustomFieldInput
+              className="h-8"
+              field={field}
+              value={rule.value}
+              onChange={(value) => onChange({ ...rule, value: value ?? undefined })}
+            />
+          )}
+        </div>
+      );
+    }
+  }
+}
+
+/**
+ * Edits a group of segment rules joined by AND or OR. Groups can contain
+ * nested groups, so "label is VIP AND (location is Pune OR location is Mumbai)"
+ * can be expressed.
+ */
+export function SegmentRuleBuilder({ value, onChange, options, onRemove }: SegmentRuleBuilderProps) {
+  const updateRule = (index: number, rule: SegmentRule | SegmentGroup) => {
+    onChange({ ...value, rules: value.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={onRemove ? "space-y-2 rounded-md border border-dashed p-3" : "space-y-2"}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Match</span>
+          <Select
+            value={value.combinator}
+            onValueChange={(combinator) => onChange({ ...value, combinator: combinator as SegmentGroup["combinator"] })}
+          >
+            <SelectTrigger className="h-8 w-[90px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and">all</SelectItem>
+              <SelectItem value="or">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of these rules</span>
+        </div>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" title="Remove Group" onClick={onRemove}>
+            <TrashIcon className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {value.rules.length === 0 && (
+        <p className="text-sm text-gray-500">No rules yet. Every contact matches.</p>
+      )}
+
+      {value.rules.map((rule, index) =>
+        isSegmentGroup(rule) ? (
+          <SegmentRuleBuilder
+            key={index}
+            value={rule}
+            onChange={(group) => updateRule(index, group)}
+            options={options}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <div key={index} className="grid grid-cols-[130px_150px_1fr_auto] items-center gap-2">
+            <Select
+              value={rule.field}
+              onValueChange={(field) => updateRule(index, newSegmentRule(field as SegmentRule["field"]))}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FIELD_LABELS).map(([field, label]) => (
+                  <SelectItem key={field} value={field}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {ruleOperators(rule, options).length > 1 ? (
+              <Select
+                value={rule.operator}
+                onValueChange={(operator) => updateRule(index, { ...rule, operator } as SegmentRule)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ruleOperators(rule, options).map((operator) => (
+                    <SelectItem key={operator} value={operator}>{operatorLabel(rule, operator, options)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="text-sm text-gray-600 px-3">is</span>
+            )}
+            <RuleValueEditor rule={rule} onChange={(updated) => updateRule(index, updated)} options={options} />
+            <Button type="button" variant="ghost" size="icon" title="Remove Rule" onClick={() => removeRule(index)}>
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...value, rules: [...value.rules, newSegmentRule("label")] })}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Rule
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...value,
+              rules: [...value.rules, { combinator: value.combinator === "and" ? "or" : "and", rules: [] }],
+            })
+          }
+        >
+          <FolderPlusIcon className="h-4 w-4 mr-1" />
+          Add Group
+        </Button>
+      </div>
+    </div>
+  );
+}
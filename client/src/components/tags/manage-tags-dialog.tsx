@@ -0,0 +1,232 @@
+import * as React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TAG_COLORS, type Tag, type TagColor } from "@shared/schema";
+import { TagBadge, TAG_COLOR_CLASSES } from "./tag-badge";
+import { CheckIcon, EditIcon, Loader2, PlusIcon, TrashIcon, XIcon } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type TagWithCount = Tag & { contactCount: number };
+
+interface ManageTagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ColorSelect({ value, onChange }: { value: string; onChange: (color: TagColor) => void }) {
+  return (
+    <Select value={value} onValueChange={(color) => onChange(color as TagColor)}>
+      <SelectTrigger className="h-8 w-[110px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TAG_COLORS.map((color) => (
+          <SelectItem key={color} value={color}>
+            <span className={`rounded-full px-2 text-xs ${TAG_COLOR_CLASSES[color]}`}>{color}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function ManageTagsDialog({ open, onOpenChange }: ManageTagsDialogProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = React.useState("");
+  const [newColor, setNewColor] = React.useState<TagColor>("gray");
+  const [editing, setEditing] = React.useState<{ id: number; name: string; color: string } | null>(null);
+
+  const { data: tags = [], isLoading } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  // Tag changes show up on contacts, so refresh both lists
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tags", { name: newName, color: newColor });
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setNewName("");
+      setNewColor("gray");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (tag: { id: number; name: string; color: string }) => {
+      const res = await apiRequest("PUT", `/api/tags/${tag.id}`, { name: tag.name, color: tag.color });
+      return await res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tags/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Tag deleted",
+        description: "The tag has been removed from all contacts.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete tag",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Start each visit with a blank form
+  React.useEffect(() => {
+    if (!open) {
+      setNewName("");
+      setNewColor("gray");
+      setEditing(null);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Manage Tags</DialogTitle>
+          <DialogDescription>
+            Contacts can have any number of tags. Deleting a tag removes it from every contact.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (newName.trim()) createMutation.mutate();
+          }}
+        >
+          <Input
+            className="h-8 flex-1"
+            placeholder="New tag name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <ColorSelect value={newColor} onChange={setNewColor} />
+          <Button type="submit" size="sm" disabled={!newName.trim() || createMutation.isPending}>
+            {createMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <PlusIcon className="h-4 w-4 mr-1" />
+            )}
+            Add
+          </Button>
+        </form>
+
+        <div className="divide-y rounded-md border">
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : tags.length === 0 ? (
+            <p className="p-4 text-center text-sm text-gray-500">No tags yet</p>
+          ) : (
+            tags.map((tag) =>
+              editing?.id === tag.id ? (
+                <div key={tag.id} className="flex items-center gap-2 px-3 py-2">
+                  <Input
+                    className="h-8 flex-1"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  />
+                  <ColorSelect value={editing.color} onChange={(color) => setEditing({ ...editing, color })} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Save"
+                    disabled={!editing.name.trim() || updateMutation.isPending}
+                    onClick={() => updateMutation.mutate(editing)}
+                  >
+                    <CheckIcon className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Cancel" onClick={() => setEditing(null)}>
+                    <XIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div key={tag.id} className="flex items-center justify-between px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <TagBadge tag={tag} />
+                    <span className="text-xs text-gray-500">
+                      {tag.contactCount} contact{tag.contactCount === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Edit Tag"
+                      onClick={() => setEditing({ id: tag.id, name: tag.name, color: tag.color })}
+                    >
+                      <EditIcon className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete Tag"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(tag.id)}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            )
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,30 @@
+import * as React from "react";
+import type { Tag, TagColor } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+
+// Badge colors for each tag color; kept as full class names so Tailwind picks them up
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: "bg-gray-100 text-gray-800",
+  red: "bg-red-100 text-red-800",
+  orange: "bg-orange-100 text-orange-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  green: "bg-green-100 text-green-800",
+  blue: "bg-blue-100 text-blue-800",
+  purple: "bg-purple-100 text-purple-800",
+  pink: "bg-pink-100 text-pink-800",
+};
+
+interface TagBadgeProps extends React.HTMLAttributes<HTMLDivElement> {
+  tag: Pick<Tag, "name" | "color">;
+}
+
+export function TagBadge({ tag, className, children, ...props }: TagBadgeProps) {
+  const colorClasses = TAG_COLOR_CLASSES[tag.color as TagColor] ?? TAG_COLOR_CLASSES.gray;
+  return (
+    <Badge className={cn("border-transparent", colorClasses, className)} {...props}>
+      {tag.name}
+      {children}
+    </Badge>
+  );
+}
@@ -0,0 +1,56 @@
+import * as React from "react";
+import type { Tag } from "@shared/schema";
+import { TagBadge } from "./tag-badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface TagPickerProps {
+  tags: Tag[];
+  value: number[];
+  onChange: (tagIds: number[]) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Picks any number of tags: chosen tags show as badges that remove themselves
+ * when clicked, and a dropdown offers the rest.
+ */
+export function TagPicker({ tags, value, onChange, placeholder = "Add tag", className }: TagPickerProps) {
+  const selected = tags.filter((tag) => value.includes(tag.id));
+  const remaining = tags.filter((tag) => !value.includes(tag.id));
+
+  return (
+    <div className={className ?? "flex flex-wrap items-center gap-1"}>
+      {selected.map((tag) => (
+        <TagBadge
+          key={tag.id}
+          tag={tag}
+          className="cursor-pointer"
+          title="Remove"
+          onClick={() => onChange(value.filter((id) => id !== tag.id))}
+        >
+          {" ×"}
+        </TagBadge>
+      ))}
+      {remaining.length > 0 && (
+        <Select value="" onValueChange={(id) => onChange([...value, parseInt(id)])}>
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue placeholder={placeholder} />
+          </SelectTrigger>
+          <SelectContent>
+            {remaining.map((tag) => (
+              <SelectItem key={tag.id} value={tag.id.toString()}>{tag.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {tags.length === 0 && <span className="text-sm text-gray-500">No tags yet</span>}
+    </div>
+  );
+}
@@ -0,0 +1,446 @@
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TEMPLATE_BUTTON_TYPES,
+  TEMPLATE_CATEGORIES,
+  countTemplatePlaceholders,
+  templateDraftSchema,
+  type TemplateVariable,
+} from "@shared/schema";
+import { TemplatePreview } from "@/components/campaigns/template-preview";
+import { Loader2, PlusIcon, TrashIcon } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type TemplateDraftForm = z.infer<typeof templateDraftSchema>;
+
+// Languages offered in the form; Meta supports more, but these cover most accounts
+const LANGUAGES = [
+  { value: "en_US", label: "English (US)" },
+  { value: "en_GB", label: "English (UK)" },
+  { value: "es", label: "Spanish" },
+  { value: "pt_BR", label: "Portuguese (BR)" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "it", label: "Italian" },
+  { value: "hi", label: "Hindi" },
+  { value: "ar", label: "Arabic" },
+  { value: "id", label: "Indonesian" },
+];
+
+const BUTTON_TYPE_LABELS: Record<string, string> = {
+  QUICK_REPLY: "Quick reply",
+  URL: "Visit website",
+  PHONE_NUMBER: "Call phone number",
+};
+
+interface CreateTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The Graph API components a draft will produce, for the preview bubble
+function previewComponents(draft: TemplateDraftForm) {
+  const components: any[] = [];
+  if (draft.headerText) components.push({ type: "HEADER", format: "TEXT", text: draft.headerText });
+  components.push({ type: "BODY", text: draft.bodyText || "Your message text" });
+  if (draft.footerText) components.push({ type: "FOOTER", text: draft.footerText });
+  if (draft.buttons?.length) components.push({ type: "BUTTONS", buttons: draft.buttons });
+  return components;
+}
+
+// Show the sample values in the preview in place of each placeholder
+function previewVariables(draft: TemplateDraftForm): TemplateVariable[] {
+  const variables: TemplateVariable[] = (draft.bodyExamples || []).map((example, i) => ({
+    component: "body",
+    index: i + 1,
+    source: "static",
+    value: example,
+  }));
+  if (draft.headerExample) {
+    variables.push({ component: "header", index: 1, source: "static", value: draft.headerExample });
+  }
+  return variables;
+}
+
+export function CreateTemplateDialog({ open, onOpenChange }: CreateTemplateDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<TemplateDraftForm>({
+    resolver: zodResolver(templateDraftSchema),
+    defaultValues: {
+      name: "",
+      category: "MARKETING",
+      language: "en_US",
+      headerText: "",
+      headerExample: "",
+      bodyText: "",
+      bodyExamples: [],
+      footerText: "",
+      buttons: [],
+    },
+  });
+
+  const buttons = useFieldArray({ control: form.control, name: "buttons" });
+
+  const draft = form.watch();
+  const headerVariables = countTemplatePlaceholders(draft.headerText);
+  const bodyVariables = countTemplatePlaceholders(draft.bodyText);
+
+  const templateMutation = useMutation({
+    mutationFn: async (values: TemplateDraftForm) => {
+      const res = await apiRequest("POST", "/api/templates", {
+        ...values,
+        bodyExamples: values.bodyExamples.slice(0, countTemplatePlaceholders(values.bodyText)),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: "Template submitted",
+        description: "Meta is reviewing the template. Its status will update here once approved.",
+      });
+      form.reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to submit template",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset form when dialog closes
+  React.useEffect(() => {
+    if (!open) {
+      form.reset();
+    }
+  }, [open, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Message Template</DialogTitle>
+          <DialogDescription>
+            Templates must be approved by Meta before they can be used in campaigns. Use {"{{1}}"}, {"{{2}}"}… for variables.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[1fr_320px]">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => templateMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="summer_sale_2024" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TEMPLATE_CATEGORIES.map((category) => (
+                            <SelectItem key={category} value={category}>
+                              {category.charAt(0) + category.slice(1).toLowerCase()}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="language"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Language</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LANGUAGES.map((language) => (
+                            <SelectItem key={language.value} value={language.value}>
+                              {language.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="headerText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Header (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Summer Sale" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {headerVariables > 0 && (
+                <FormField
+                  control={form.control}
+                  name="headerExample"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sample for header {"{{1}}"}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="bodyText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Body</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        rows={5}
+                        placeholder="Hi {{1}}, our summer sale starts today with {{2}} off everything."
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {bodyVariables > 0 && (
+                <FormItem>
+                  <FormLabel>Sample Values</FormLabel>
+                  <FormDescription>Meta uses these to review the template</FormDescription>
+                  <div className="grid grid-cols-2 gap-2">
+                    {Array.from({ length: bodyVariables }, (_, i) => (
+                      <Input
+                        key={i}
+                        placeholder={`{{${i + 1}}}`}
+                        value={draft.bodyExamples?.[i] ?? ""}
+                        onChange={(e) => {
+                          const examples = [...(form.getValues("bodyExamples") ?? [])];
+                          examples[i] = e.target.value;
+                          form.setValue("bodyExamples", examples, { shouldValidate: form.formState.isSubmitted });
+                        }}
+                      />
+                    ))}
+                  </div>
+                  {form.formState.errors.bodyExamples && (
+                    <p className="text-sm font-medium text-destructive">
+                      {form.formState.errors.bodyExamples.message}
+                    </p>
+                  )}
+                </FormItem>
+              )}
+
+              <FormField
+                control={form.control}
+                name="footerText"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Footer (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Reply STOP to unsubscribe" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Buttons (optional)</FormLabel>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={buttons.fields.length >= 10}
+                    onClick={() => buttons.append({ type: "QUICK_REPLY", text: "" })}
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" />
+                    Add Button
+                  </Button>
+                </div>
+
+                {buttons.fields.map((button, i) => {
+                  const type = draft.buttons?.[i]?.type;
+                  return (
+                    <div key={button.id} className="space-y-2 rounded-md border p-3">
+                      <div className="grid grid-cols-[160px_1fr_auto] gap-2">
+                        <FormField
+                          control={form.control}
+                          name={`buttons.${i}.type`}
+                          render={({ field }) => (
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {TEMPLATE_BUTTON_TYPES.map((value) => (
+                                  <SelectItem key={value} value={value}>
+                                    {BUTTON_TYPE_LABELS[value]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`buttons.${i}.text`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Button text" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button type="button" variant="ghost" size="icon" title="Remove Button" onClick={() => buttons.remove(i)}>
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      {type === "URL" && (
+                        <>
+                          <FormField
+                            control={form.control}
+                            name={`buttons.${i}.url`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormControl>
+                                  <Input placeholder="https://example.com/offers/{{1}}" {...field} value={field.value ?? ""} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          {countTemplatePlaceholders(draft.buttons?.[i]?.url) > 0 && (
+                            <FormField
+                              control={form.control}
+                              name={`buttons.${i}.example`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormControl>
+                                    <Input placeholder="Sample URL, e.g. https://example.com/offers/summer" {...field} value={field.value ?? ""} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+                        </>
+                      )}
+
+                      {type === "PHONE_NUMBER" && (
+                        <FormField
+                          control={form.control}
+                          name={`buttons.${i}.phoneNumber`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="+15551234567" {...field} value={field.value ?? ""} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={templateMutation.isPending}>
+                  {templateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Submit for Review
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Preview</p>
+            <TemplatePreview components={previewComponents(draft)} variables={previewVariables(draft)} />
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,31 @@ import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectVa
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Pagination } from "@/components/ui/pagination";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
 
 interface Column {
   header: string;
   accessorKey: string;
   cell?: (value: any, row: any) => React.ReactNode;
+  sortable?: boolean; // Only used with server-side data
 }
 
+type SortDirection = "asc" | "desc";
+
+// Set when the server searches, sorts and pages the data; the table then shows `data` as one page
+interface ServerSideOptions {
+  total: number;
+  pageIndex: number;
+  pageSize: number;
+  onPageChange: (pageIndex: number) => void;
+  onSearchChange: (searchTerm: string) => void;
+  sort?: { column: string; direction: SortDirection };
+  onSortChange?: (column: string, direction: SortDirection) => void;
+}
+
+// Wait for typing to pause before searching on the server
+const SEARCH_DEBOUNCE_MS = 300;
+
 interface DataTableProps<T> {
   data: T[];
   columns: Column[];
@@ -24,6 +42,7 @@ interface DataTableProps<T> {
     onFilterChange: (value: string) => void;
   }[];
   actions?: React.ReactNode;
+  serverSide?: ServerSideOptions;
 }
 
 export function DataTable<T extends { id: number | string }>({
@@ -34,13 +53,24 @@ export function DataTable<T extends { id: number | string }>({
   searchPlaceholder = "Search...",
   filters = [],
   actions,
+  serverSide,
 }: DataTableProps<T>) {
   const [searchTerm, setSearchTerm] = useState("");
-  const [pageIndex, setPageIndex] = useState(0);
-  const [selectedRows, setSelectedRows] = useState<Record<string | number, boolean>>({});
-  const pageSize = 10;
+  const [localPageIndex, setLocalPageIndex] = useState(0);
+  // Selected rows are kept by ID so a selection survives moving between server pages
+  const [selectedRows, setSelectedRows] = useState<Record<string | number, T>>({});
+  const pageIndex = serverSide ? serverSide.pageIndex : localPageIndex;
+  const pageSize = serverSide ? serverSide.pageSize : 10;
+
+  const onSearchChange = serverSide?.onSearchChange;
+  React.useEffect(() => {
+    if (!onSearchChange) return;
+    const timer = setTimeout(() => onSearchChange(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm, onSearchChange]);
 
   const filteredData = React.useMemo(() => {
+    if (serverSide) return data;
     return data.filter((item) =>
       Object.values(item).some(
         (value) =>
@@ -49,39 +79,46 @@ export function DataTable<T extends { id: number | string }>({
           value.toString().toLowerCase().includes(searchTerm.toLowerCase())
       )
     );
-  }, [data, searchTerm]);
+  }, [data, searchTerm, !!serverSide]);
 
-  const pageCount = Math.ceil(filteredData.length / pageSize);
-  const pageData = filteredData.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize);
+  const totalRows = serverSide ? serverSide.total : filteredData.length;
+  const pageCount = Math.ceil(totalRows / pageSize);
+  const pageData = serverSide ? data : filteredData.slice(pageIndex * pageSize, (pageIndex + 1) * pageSize);
 
   const handlePageChange = (page: number) => {
-    setPageIndex(page - 1);
+    if (serverSide) serverSide.onPageChange(page - 1);
+    else setLocalPageIndex(page - 1);
+  };
+
+  const handleSort = (column: string) => {
+    if (!serverSide?.onSortChange) return;
+    const current = serverSide.sort;
+    const direction = current?.column === column && current.direction === "asc" ? "desc" : "asc";
+    serverSide.onSortChange(column, direction);
   };
 
+  // Selects or clears this page's rows, leaving those chosen on other pages as they are
   const handleSelectAll = (checked: boolean) => {
-    const newSelectedRows: Record<string | number, boolean> = {};
-    
-    if (checked) {
-      pageData.forEach((row) => {
-        newSelectedRows[row.id] = true;
-      });
-    }
-    
+    const newSelectedRows = { ...selectedRows };
+    pageData.forEach((row) => {
+      if (checked) newSelectedRows[row.id] = row;
+      else delete newSelectedRows[row.id];
+    });
     setSelectedRows(newSelectedRows);
     
     if (onRowSelect) {
-      const selectedItems = checked ? [...pageData] : [];
-      onRowSelect(selectedItems);
+      onRowSelect(Object.values(newSelectedRows));
     }
   };
 
   const handleSelectRow = (checked: boolean, row: T) => {
-    const newSelectedRows = { ...selectedRows, [row.id]: checked };
+    const newSelectedRows = { ...selectedRows };
+    if (checked) newSelectedRows[row.id] = row;
+    else delete newSelectedRows[row.id];
     setSelectedRows(newSelectedRows);
     
     if (onRowSelect) {
-      const selectedItems = data.filter((item) => newSelectedRows[item.id]);
-      onRowSelect(selectedItems);
+      onRowSelect(Object.values(newSelectedRows));
     }
   };
 
@@ -114,7 +151,13 @@ export function DataTable<T extends { id: number | string }>({
         <div className="flex flex-wrap gap-3 sm:gap-2">
           {filters.map((filter) => (
             <div key={filter.name} className="w-full sm:w-auto">
-              <Select onValueChange={filter.onFilterChange}>
+              <Select
+                onValueChange={(value) => {
+                  // "All ..." options stand in for an empty value, which means no filter
+                  const isAll = filter.options.some((option) => !option.value && `value-${option.label}` === value);
+                  filter.onFilterChange(isAll ? "" : value);
+                }}
+              >
                 <SelectTrigger className="w-full sm:w-[180px]">
                   <SelectValue placeholder={filter.label} />
                 </SelectTrigger>
@@ -152,7 +195,24 @@ export function DataTable<T extends { id: number | string }>({
               )}
               {columns.map((column) => (
                 <TableHead key={column.accessorKey}>
-                  {column.header}
+                  {column.sortable && serverSide?.onSortChange ? (
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-gray-900"
+                      onClick={() => handleSort(column.accessorKey)}
+                    >
+                      {column.header}
+                      {serverSide.sort?.column !== column.accessorKey ? (
+                        <ArrowUpDown className="h-3 w-3 text-gray-400" />
+                      ) : serverSide.sort.direction === "asc" ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
                 </TableHead>
               ))}
             </TableRow>
@@ -195,6 +255,12 @@ export function DataTable<T extends { id: number | string }>({
         </Table>
       </div>
 
+      {serverSide && totalRows > 0 && (
+        <div className="text-sm text-gray-500">
+          Showing {pageIndex * pageSize + 1}–{Math.min((pageIndex + 1) * pageSize, totalRows)} of {totalRows}
+        </div>
+      )}
+
       {pageCount > 1 && (
         <div className="mt-4 flex justify-center">
           <Pagination
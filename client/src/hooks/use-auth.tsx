@@ -1,6 +1,6 @@
 import { createContext, ReactNode, useContext, useEffect, useCallback } from "react";
 import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser } from "@shared/schema";
+import { User as SelectUser, hasPermission, type Permission } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
@@ -18,6 +18,7 @@ type AuthContextType = {
   isLoading: boolean;
   error: Error | null;
   refetchUser: () => void; 
+  can: (permission: Permission) => boolean;
   loginMutation: UseMutationResult<SelectUser | Omit<SelectUser, 'password'>, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser | Omit<SelectUser, 'password'>, Error, RegisterData>;
@@ -35,7 +36,7 @@ type RegisterData = {
   password: string;
   name: string;
   email: string;
-  accountId: number;
+  companyName: string;
 };
 
 // Create auth context
@@ -115,11 +116,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const error = userQuery.error;
   const isLoading = userQuery.isLoading; 
   const refetchUser = userQuery.refetch;
+  
+  // Check the current user's role against a permission, used to hide actions they cannot perform
+  const can = useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user?.role]
+  );
 
   // Effect to redirect to login page if unauthenticated and not on auth-related pages
   useEffect(() => {
     // Array of public routes that can be accessed without authentication
-    const publicRoutes = ["/auth", "/forgot-password", "/reset-password"];
+    const publicRoutes = ["/auth", "/forgot-password", "/reset-password", "/accept-invite"];
     const isPublicRoute = publicRoutes.some(route => 
       location === route || location.startsWith(route + "?")
     );
@@ -254,6 +261,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         refetchUser,
+        can,
         loginMutation,
         logoutMutation,
         registerMutation,
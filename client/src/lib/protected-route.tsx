@@ -2,15 +2,18 @@ import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route, useLocation } from "wouter";
 import { useEffect } from "react";
+import type { Permission } from "@shared/schema";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  permission,
 }: {
   path: string;
   component: () => React.JSX.Element;
+  permission?: Permission;
 }) {
-  const { user, isLoading, refetchUser } = useAuth();
+  const { user, isLoading, refetchUser, can } = useAuth();
   const [location, setLocation] = useLocation();
 
   // Always refetch user data when route is accessed to ensure fresh auth state
@@ -39,6 +42,15 @@ export function ProtectedRoute({
     );
   }
 
+  // If the user's role does not grant access to this page, send them to the dashboard
+  if (permission && !can(permission)) {
+    return (
+      <Route path={path}>
+        <Redirect to="/" />
+      </Route>
+    );
+  }
+
   // User is authenticated, render the requested component
   return <Route path={path} component={Component} />;
 }
@@ -0,0 +1,241 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ROLE_LABELS, type UserRole } from "@shared/schema";
+
+// Define schema for accept invitation form
+const acceptInviteSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string().min(6, "Confirm password is required"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type AcceptInviteFormValues = z.infer<typeof acceptInviteSchema>;
+
+// Response from the invitation lookup endpoint
+interface InvitationDetails {
+  email: string;
+  role: string;
+  accountName?: string;
+  expiresAt: string;
+}
+
+export default function AcceptInvitePage() {
+  const { toast } = useToast();
+  const [location, setLocation] = useLocation();
+
+  // Get token from URL query parameter
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get('token');
+
+  // Look up the invitation so the user knows which account they are joining
+  const { data: invitation, isLoading, isError } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invitations/verify?token=${encodeURIComponent(token || "")}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  // Form setup with validation
+  const form = useForm<AcceptInviteFormValues>({
+    resolver: zodResolver(acceptInviteSchema),
+    defaultValues: {
+      name: "",
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  // Handle form submission with API request
+  const acceptInviteMutation = useMutation({
+    mutationFn: async (data: AcceptInviteFormValues) => {
+      const response = await apiRequest("POST", "/api/invitations/accept", {
+        token,
+        name: data.name,
+        username: data.username,
+        password: data.password
+      });
+      return await response.json();
+    },
+    onSuccess: (userData) => {
+      // The server logs the new user in, so update the auth cache directly
+      queryClient.setQueryData(["/api/user"], userData);
+
+      toast({
+        title: "Welcome aboard",
+        description: `You have joined ${invitation?.accountName || "the team"}.`,
+      });
+      setLocation('/');
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not accept invitation",
+        description: error.message || "The invitation may be invalid or expired.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Form submission handler
+  function onSubmit(data: AcceptInviteFormValues) {
+    acceptInviteMutation.mutate(data);
+  }
+
+  if (token && isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // Show error if no token is present or the invitation cannot be used
+  if (!token || isError || !invitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Invalid Invitation</h2>
+            <p className="mt-2 text-sm text-gray-600">
+              This invitation link is invalid, has expired, or has been revoked.
+            </p>
+          </div>
+
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-center mb-4">
+                Ask your account administrator to send you a new invitation.
+              </p>
+              <Button
+                onClick={() => setLocation('/auth')}
+                className="w-full"
+              >
+                Go to Login
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">Join {invitation.accountName}</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            You've been invited as a {ROLE_LABELS[invitation.role as UserRole] ?? invitation.role}.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Create Your Login</CardTitle>
+            <CardDescription>
+              Your account will use <span className="font-medium">{invitation.email}</span>.
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="John Doe" {...field} disabled={acceptInviteMutation.isPending} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input placeholder="johndoe" {...field} disabled={acceptInviteMutation.isPending} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••••" {...field} disabled={acceptInviteMutation.isPending} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••••" {...field} disabled={acceptInviteMutation.isPending} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={acceptInviteMutation.isPending}
+                >
+                  {acceptInviteMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Joining...
+                    </>
+                  ) : (
+                    "Accept Invitation"
+                  )}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+
+          <CardFooter className="flex justify-center">
+            <div className="text-sm">
+              <Link to="/auth" className="font-medium text-primary hover:text-primary/80">
+                Already have an account? Log in
+              </Link>
+            </div>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,20 +6,154 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/use-auth";
 import { toast } from "@/hooks/use-toast";
-import { UserCircle, Lock, Mail, Building } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { getCountries, getCountryCallingCode } from "libphonenumber-js";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Account, User, Invitation, USER_ROLES, ROLE_LABELS, DEFAULT_COUNTRY, type UserRole } from "@shared/schema";
+import { InviteMemberDialog } from "@/components/account/invite-member-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserCircle, Lock, Mail, Building, Users, Loader2, UserPlus, Send, X, Phone } from "lucide-react";
+
+type AccountMember = Omit<User, "password" | "resetToken" | "resetTokenExpiry">;
+type PendingInvitation = Omit<Invitation, "token">;
+
+// Countries a default can be chosen from, by name, with their calling codes
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+const COUNTRY_OPTIONS = getCountries()
+  .map((code) => ({ code, label: `${regionNames.of(code) ?? code} (+${getCountryCallingCode(code)})` }))
+  .sort((a, b) => a.label.localeCompare(b.label));
 
 export default function AccountPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [isEditing, setIsEditing] = React.useState(false);
+  const [companyName, setCompanyName] = React.useState("");
+  const [defaultCountry, setDefaultCountry] = React.useState(DEFAULT_COUNTRY);
+  const [showInviteDialog, setShowInviteDialog] = React.useState(false);
+  
+  // Fetch the organization the user belongs to
+  const { data: account } = useQuery<Account>({
+    queryKey: ["/api/account"],
+  });
+  
+  // Fetch everyone who belongs to the same account
+  const { data: members = [], isLoading: membersLoading } = useQuery<AccountMember[]>({
+    queryKey: ["/api/account/members"],
+  });
+  
+  // Fetch invitations that have not been accepted yet
+  const { data: pendingInvitations = [] } = useQuery<PendingInvitation[]>({
+    queryKey: ["/api/invitations"],
+    enabled: can("team:manage"),
+  });
+  
+  // Keep the editable company name in sync with the server copy
+  React.useEffect(() => {
+    if (account) {
+      setCompanyName(account.name);
+      setDefaultCountry(account.defaultCountry);
+    }
+  }, [account]);
+  
+  // Mutation to rename the account or change its default country
+  const renameAccountMutation = useMutation({
+    mutationFn: async (data: { name: string; defaultCountry: string }) => {
+      const res = await apiRequest("PUT", "/api/account", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account"] });
+      setIsEditing(false);
+      toast({
+        title: "Account updated",
+        description: "Your account details have been saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update account",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Mutation to change a teammate's role
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: UserRole }) => {
+      const res = await apiRequest("PUT", `/api/account/members/${memberId}/role`, { role });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account/members"] });
+      toast({
+        title: "Role updated",
+        description: "The team member's role has been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Mutation to email a pending invitation again with a fresh link
+  const resendInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const res = await apiRequest("POST", `/api/invitations/${invitationId}/resend`);
+      return await res.json();
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitation resent",
+        description: `A new invitation link was emailed to ${invitation.email}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to resend invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Mutation to revoke a pending invitation
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      await apiRequest("DELETE", `/api/invitations/${invitationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation link can no longer be used",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to revoke invitation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Only owners may hand out or take away ownership
+  const assignableRoles = USER_ROLES.filter(role => role !== "owner" || user?.role === "owner");
   
   const handleSaveProfile = (e: React.FormEvent) => {
     e.preventDefault();
-    // Save profile logic would go here
+    renameAccountMutation.mutate({ name: companyName, defaultCountry });
+  };
+  
+  const handleCancelEdit = () => {
+    setCompanyName(account?.name || "");
+    setDefaultCountry(account?.defaultCountry || DEFAULT_COUNTRY);
     setIsEditing(false);
-    toast({
-      title: "Profile updated",
-      description: "Your profile has been updated successfully",
-    });
   };
   
   const handleChangePassword = (e: React.FormEvent) => {
@@ -88,7 +222,8 @@ export default function AccountPage() {
                       <Input 
                         id="company" 
                         className="rounded-l-none" 
-                        value="Your Company" 
+                        value={companyName} 
+                        onChange={(e) => setCompanyName(e.target.value)}
                         disabled={!isEditing} 
                       />
                     </div>
@@ -103,11 +238,31 @@ export default function AccountPage() {
                       <Input 
                         id="role" 
                         className="rounded-l-none" 
-                        value="Administrator" 
-                        disabled={!isEditing} 
+                        value={user?.role ? ROLE_LABELS[user.role as UserRole] ?? user.role : ""} 
+                        disabled 
                       />
                     </div>
                   </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="defaultCountry">Default Country</Label>
+                    <div className="flex">
+                      <div className="bg-gray-100 flex items-center px-3 rounded-l-md border border-r-0 border-gray-300">
+                        <Phone className="h-4 w-4 text-gray-500" />
+                      </div>
+                      <Select value={defaultCountry} onValueChange={setDefaultCountry} disabled={!isEditing}>
+                        <SelectTrigger id="defaultCountry" className="rounded-l-none">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COUNTRY_OPTIONS.map((country) => (
+                            <SelectItem key={country.code} value={country.code}>{country.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <p className="text-xs text-gray-500">Mobile numbers entered without a country code are read as numbers of this country</p>
+                  </div>
                 </div>
                 
                 <div className="flex justify-end space-x-2">
@@ -116,13 +271,18 @@ export default function AccountPage() {
                       <Button 
                         type="button" 
                         variant="outline" 
-                        onClick={() => setIsEditing(false)}
+                        onClick={handleCancelEdit}
                       >
                         Cancel
                       </Button>
-                      <Button type="submit">Save Changes</Button>
+                      <Button type="submit" disabled={renameAccountMutation.isPending}>
+                        {renameAccountMutation.isPending && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Save Changes
+                      </Button>
                     </>
-                  ) : (
+                  ) : can("account:manage") && (
                     <Button 
                       type="button" 
                       onClick={() => setIsEditing(true)}
@@ -196,6 +356,115 @@ export default function AccountPage() {
               </form>
             </CardContent>
           </Card>
+          
+          {/* Team Members */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center">
+                  <Users className="h-5 w-5 mr-2 text-primary" />
+                  Team Members
+                </CardTitle>
+                <CardDescription>People who have access to {account?.name || "this account"}</CardDescription>
+              </div>
+              {can("team:manage") && (
+                <Button size="sm" onClick={() => setShowInviteDialog(true)}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Invite
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {membersLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {members.map((member) => (
+                    <div key={member.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-medium text-gray-800">
+                          {member.name}
+                          {member.id === user?.id && (
+                            <span className="ml-2 text-xs text-gray-500">(you)</span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-500">{member.email || member.username}</p>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <p className="text-sm text-gray-500 hidden sm:block">
+                          Joined {new Date(member.createdAt).toLocaleDateString()}
+                        </p>
+                        {can("team:manage") && member.id !== user?.id && (member.role !== "owner" || user?.role === "owner") ? (
+                          <Select
+                            value={member.role}
+                            onValueChange={(role) => updateRoleMutation.mutate({ memberId: member.id, role: role as UserRole })}
+                            disabled={updateRoleMutation.isPending}
+                          >
+                            <SelectTrigger className="w-[180px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {assignableRoles.map((role) => (
+                                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm font-medium text-gray-700">
+                            {ROLE_LABELS[member.role as UserRole] ?? member.role}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
+              {can("team:manage") && pendingInvitations.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="font-medium text-gray-500 text-sm mb-2">Pending Invitations</h4>
+                  <div className="divide-y divide-gray-100">
+                    {pendingInvitations.map((invitation) => (
+                      <div key={invitation.id} className="flex items-center justify-between py-3">
+                        <div>
+                          <p className="font-medium text-gray-800">{invitation.email}</p>
+                          <p className="text-sm text-gray-500">
+                            {ROLE_LABELS[invitation.role as UserRole] ?? invitation.role}
+                            {" · "}
+                            {new Date(invitation.expiresAt) < new Date()
+                              ? "Expired"
+                              : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Resend Invitation"
+                            disabled={resendInvitationMutation.isPending}
+                            onClick={() => resendInvitationMutation.mutate(invitation.id)}
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revoke Invitation"
+                            disabled={revokeInvitationMutation.isPending}
+                            onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
         
         {/* Account Summary */}
@@ -211,6 +480,11 @@ export default function AccountPage() {
                   <p className="font-semibold">Professional</p>
                 </div>
                 
+                <div className="bg-gray-50 p-4 rounded-md">
+                  <h4 className="font-medium text-gray-500 text-sm mb-1">Company</h4>
+                  <p className="font-semibold">{account?.name || "N/A"}</p>
+                </div>
+                
                 <div className="bg-gray-50 p-4 rounded-md">
                   <h4 className="font-medium text-gray-500 text-sm mb-1">Account ID</h4>
                   <p className="font-semibold">{user?.accountId || "N/A"}</p>
@@ -262,6 +536,12 @@ export default function AccountPage() {
           </Card>
         </div>
       </div>
+      
+      {/* Invite Member Dialog */}
+      <InviteMemberDialog
+        open={showInviteDialog}
+        onOpenChange={setShowInviteDialog}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
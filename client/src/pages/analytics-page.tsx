@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import { CampaignRecipientsDialog } from "@/components/analytics/campaign-recipients-dialog";
 import { 
   BarChart, 
   LineChart, 
@@ -24,6 +25,7 @@ import { Vote, UsersIcon, EyeIcon, MousePointerClick, BarChart2, AlertCircle as
 export default function AnalyticsPage() {
   const [dateRange, setDateRange] = React.useState<string>("last-7-days");
   const [campaignId, setCampaignId] = React.useState<number | undefined>();
+  const [recipientsCampaign, setRecipientsCampaign] = React.useState<{ id: number; name: string } | null>(null);
   
   // Fetch analytics data
   const { data: analytics = [], isLoading: analyticsLoading } = useQuery({
@@ -586,7 +588,12 @@ export default function AnalyticsPage() {
                 </tr>
               ) : (
                 topCampaigns.map((campaign: any) => (
-                  <tr key={campaign.id} className="hover:bg-gray-50">
+                  <tr 
+                    key={campaign.id} 
+                    className="hover:bg-gray-50 cursor-pointer"
+                    title="View recipients"
+                    onClick={() => setRecipientsCampaign({ id: campaign.id, name: campaign.name })}
+                  >
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="font-medium text-gray-900">{campaign.name}</div>
                     </td>
@@ -735,6 +742,12 @@ export default function AnalyticsPage() {
           </CardContent>
         </Card>
       </div>
+      
+      {/* Campaign Recipients Drill-down */}
+      <CampaignRecipientsDialog
+        campaign={recipientsCampaign}
+        onOpenChange={(open) => !open && setRecipientsCampaign(null)}
+      />
     </DashboardLayout>
   );
 }
@@ -21,6 +21,7 @@ const registerSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Please enter a valid email address"),
+  companyName: z.string().min(2, "Company name must be at least 2 characters"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string().min(6, "Confirm password is required"),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -46,6 +47,7 @@ export default function AuthPage() {
       name: "",
       username: "",
       email: "",
+      companyName: "",
       password: "",
       confirmPassword: "",
     },
@@ -60,13 +62,13 @@ export default function AuthPage() {
   };
 
   const onRegisterSubmit = (values: z.infer<typeof registerSchema>) => {
-    // Hard-coded account ID for demo purposes
+    // The server creates a new account for the company and makes this user its first member
     registerMutation.mutate({
       name: values.name,
       username: values.username,
       email: values.email,
+      companyName: values.companyName,
       password: values.password,
-      accountId: 1,
     });
   };
 
@@ -205,6 +207,20 @@ export default function AuthPage() {
                         )}
                       />
                       
+                      <FormField
+                        control={registerForm.control}
+                        name="companyName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Company Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Acme Inc." {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
                       <FormField
                         control={registerForm.control}
                         name="password"
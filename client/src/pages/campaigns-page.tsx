@@ -4,6 +4,7 @@ import { DataTable } from "@/components/ui/data-table";
 import { Button } from "@/components/ui/button";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { CreateCampaignDialog } from "@/components/campaigns/create-campaign-dialog";
@@ -26,8 +27,12 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+// Campaigns in these statuses have not been sent and can still be edited or launched
+const LAUNCHABLE_STATUSES = ["draft", "scheduled", "failed"];
+
 export default function CampaignsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [showCreateCampaign, setShowCreateCampaign] = React.useState(false);
   const [selectedCampaign, setSelectedCampaign] = React.useState<any | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
@@ -73,6 +78,11 @@ export default function CampaignsPage() {
     },
   });
 
+  // Fetch segments (for segment names and their contact counts)
+  const { data: segments = [] } = useQuery<{ id: number; name: string; contactCount: number }[]>({
+    queryKey: ["/api/segments"],
+  });
+
   // Launch campaign mutation
   const launchMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -104,9 +114,10 @@ export default function CampaignsPage() {
     onSuccess: () => {
       toast({
         title: "Campaign deleted",
-        description: "The campaign has been successfully deleted.",
+        description: "The campaign was moved to the Trash.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       refetch();
       setShowDeleteDialog(false);
     },
@@ -135,11 +146,24 @@ export default function CampaignsPage() {
 
   // Calculate contact count for a campaign
   const getContactCount = (campaign: any) => {
+    if (campaign.segmentId) {
+      return segments.find((segment) => segment.id === campaign.segmentId)?.contactCount ?? 0;
+    }
+    
+    // Opted-out contacts, and those outside the campaign's tag filters, are skipped when it is sent
+    const includeTagIds: number[] = campaign.includeTagIds || [];
+    const excludeTagIds: number[] = campaign.excludeTagIds || [];
+    const reachable = contacts.filter((contact: any) => {
+      const contactTagIds: number[] = contact.tagIds || [];
+      return !contact.optedOut &&
+        (includeTagIds.length === 0 || contactTagIds.some((id) => includeTagIds.includes(id))) &&
+        !contactTagIds.some((id) => excludeTagIds.includes(id));
+    });
     if (!campaign.contactLabel) {
-      return contacts.length;
+      return reachable.length;
     }
     
-    return contacts.filter((contact: any) => contact.label === campaign.contactLabel).length;
+    return reachable.filter((contact: any) => contact.label === campaign.contactLabel).length;
   };
 
   // Configure columns for data table
@@ -156,9 +180,15 @@ export default function CampaignsPage() {
       accessorKey: "template",
     },
     {
-      header: "Contact Label",
+      header: "Audience",
       accessorKey: "contactLabel",
-      cell: (value: string) => value || "All Contacts",
+      cell: (value: string, row: any) => {
+        if (row.segmentId) {
+          const segment = segments.find((s) => s.id === row.segmentId);
+          return segment ? `Segment: ${segment.name}` : "Deleted segment";
+        }
+        return value || "All Contacts";
+      },
     },
     {
       header: "Contacts",
@@ -168,7 +198,7 @@ export default function CampaignsPage() {
     {
       header: "Status",
       accessorKey: "status",
-      cell: (value: string) => {
+      cell: (value: string, row: any) => {
         let variant: any = "neutral";
         switch (value) {
           case "active":
@@ -177,12 +207,28 @@ export default function CampaignsPage() {
           case "draft":
             variant = "warning";
             break;
+          case "scheduled":
+          case "launching":
+            variant = "info";
+            break;
+          case "failed":
+            variant = "destructive";
+            break;
           case "completed":
             variant = "neutral";
             break;
         }
         
-        return <Badge variant={variant}>{value.charAt(0).toUpperCase() + value.slice(1)}</Badge>;
+        return (
+          <div>
+            <Badge variant={variant} title={row.launchError || undefined}>
+              {value.charAt(0).toUpperCase() + value.slice(1)}
+            </Badge>
+            {value === "scheduled" && row.scheduledFor && (
+              <div className="text-xs text-gray-500 mt-1">{formatDateTime(row.scheduledFor)}</div>
+            )}
+          </div>
+        );
       },
     },
     {
@@ -199,37 +245,43 @@ export default function CampaignsPage() {
             <EyeIcon className="h-4 w-4" />
           </Button>
           
-          {row.status === "draft" && (
+          {LAUNCHABLE_STATUSES.includes(row.status) && (
             <>
-              <Button variant="ghost" size="icon" title="Edit Campaign">
-                <EditIcon className="h-4 w-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="icon" 
-                title="Launch Campaign"
-                onClick={() => {
-                  setSelectedCampaign(row);
-                  setShowLaunchDialog(true);
-                }}
-              >
-                <PlayIcon className="h-4 w-4" />
-              </Button>
-              <Button 
-                variant="ghost" 
-                size="icon" 
-                title="Delete Campaign"
-                onClick={() => {
-                  setSelectedCampaign(row);
-                  setShowDeleteDialog(true);
-                }}
-              >
-                <TrashIcon className="h-4 w-4" />
-              </Button>
+              {can("campaigns:manage") && (
+                <Button variant="ghost" size="icon" title="Edit Campaign">
+                  <EditIcon className="h-4 w-4" />
+                </Button>
+              )}
+              {can("campaigns:launch") && (
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  title="Launch Campaign"
+                  onClick={() => {
+                    setSelectedCampaign(row);
+                    setShowLaunchDialog(true);
+                  }}
+                >
+                  <PlayIcon className="h-4 w-4" />
+                </Button>
+              )}
+              {can("campaigns:manage") && (
+                <Button 
+                  variant="ghost" 
+                  size="icon" 
+                  title="Delete Campaign"
+                  onClick={() => {
+                    setSelectedCampaign(row);
+                    setShowDeleteDialog(true);
+                  }}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              )}
             </>
           )}
           
-          {row.status !== "draft" && (
+          {!LAUNCHABLE_STATUSES.includes(row.status) && can("campaigns:manage") && (
             <Button variant="ghost" size="icon" title="Duplicate Campaign">
               <CopyIcon className="h-4 w-4" />
             </Button>
@@ -247,7 +299,9 @@ export default function CampaignsPage() {
       options: [
         { value: "", label: "All Statuses" },
         { value: "draft", label: "Draft" },
+        { value: "scheduled", label: "Scheduled" },
         { value: "active", label: "Active" },
+        { value: "failed", label: "Failed" },
         { value: "completed", label: "Completed" },
       ],
       onFilterChange: setStatusFilter,
@@ -267,7 +321,7 @@ export default function CampaignsPage() {
   ];
 
   // Actions button
-  const actions = (
+  const actions = can("campaigns:manage") && (
     <Button
       size="sm"
       onClick={() => setShowCreateCampaign(true)}
@@ -309,7 +363,8 @@ export default function CampaignsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Launch Campaign</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to launch this campaign? This will send it to all targeted contacts.
+              Are you sure you want to launch this campaign? This will send it to all targeted contacts
+              {selectedCampaign?.status === "scheduled" ? " now instead of at its scheduled time." : "."}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -327,7 +382,7 @@ export default function CampaignsPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete the campaign. This action cannot be undone.
+              The campaign will be moved to the Trash, where it can be restored until it is permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -354,3 +409,14 @@ function formatDate(dateString: string) {
     year: 'numeric' 
   }).format(date);
 }
+
+// Helper function to format a date with its time of day
+function formatDateTime(dateString: string) {
+  const date = new Date(dateString);
+  return new Intl.DateTimeFormat('en-US', { 
+    month: 'short', 
+    day: 'numeric', 
+    hour: 'numeric',
+    minute: '2-digit'
+  }).format(date);
+}
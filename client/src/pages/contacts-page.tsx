@@ -2,15 +2,38 @@ import * as React from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { DataTable } from "@/components/ui/data-table";
 import { Button } from "@/components/ui/button";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { AddContactDialog } from "@/components/contacts/add-contact-dialog";
-import { ImportContactsDialog } from "@/components/contacts/import-contacts-dialog";
+import {
+  ImportContactsDialog,
+  importJobProgress,
+  isImportJobActive,
+  type ImportJobSummary,
+} from "@/components/contacts/import-contacts-dialog";
 import { DeleteContactDialog } from "@/components/contacts/delete-contact-dialog";
 import { BulkDeleteDialog } from "@/components/contacts/bulk-delete-dialog";
+import { BulkTagsDialog } from "@/components/contacts/bulk-tags-dialog";
+import { BulkEditDialog, type BulkEditField } from "@/components/contacts/bulk-edit-dialog";
+import { ManageTagsDialog } from "@/components/tags/manage-tags-dialog";
+import { TagBadge } from "@/components/tags/tag-badge";
+import { ManageCustomFieldsDialog } from "@/components/custom-fields/manage-custom-fields-dialog";
+import { formatCustomFieldValue } from "@/components/custom-fields/custom-field-input";
+import { OptOutHistoryDialog } from "@/components/contacts/opt-out-history-dialog";
+import { MergeDuplicatesDialog } from "@/components/contacts/merge-duplicates-dialog";
+import { SearchHighlight } from "@/components/contacts/search-highlight";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
-import { PlusIcon, UploadIcon, EditIcon, TrashIcon } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { ContactBulkTarget, ContactExportFormat, ContactSort, CustomField, Tag } from "@shared/schema";
+import { PlusIcon, UploadIcon, EditIcon, TrashIcon, BellOffIcon, BellIcon, HistoryIcon, TagIcon, TagsIcon, ListPlusIcon, Loader2, CopyIcon, DownloadIcon } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,43 +45,145 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+// Contacts shown per page of the list
+const CONTACTS_PAGE_SIZE = 25;
+
+// One page of contacts, with how many match the filters in all
+interface ContactListPage {
+  contacts: any[];
+  total: number;
+}
+
 export default function ContactsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canManageContacts = can("contacts:manage");
   const [showAddContact, setShowAddContact] = React.useState(false);
   const [showImportContacts, setShowImportContacts] = React.useState(false);
+  const [importJobId, setImportJobId] = React.useState<number | null>(null);
   const [selectedContact, setSelectedContact] = React.useState<any | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
   const [selectedContacts, setSelectedContacts] = React.useState<any[]>([]);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = React.useState(false);
+  const [showBulkTagsDialog, setShowBulkTagsDialog] = React.useState(false);
+  const [bulkEditField, setBulkEditField] = React.useState<BulkEditField | null>(null);
+  // Whether bulk actions apply to every contact matching the filters, not just the selected page rows
+  const [allMatchingSelected, setAllMatchingSelected] = React.useState(false);
+  const [showManageTags, setShowManageTags] = React.useState(false);
+  const [showManageFields, setShowManageFields] = React.useState(false);
+  const [showOptOutHistory, setShowOptOutHistory] = React.useState(false);
+  const [showDuplicates, setShowDuplicates] = React.useState(false);
   
   // State for filters
   const [labelFilter, setLabelFilter] = React.useState("");
+  const [tagFilter, setTagFilter] = React.useState("");
   const [locationFilter, setLocationFilter] = React.useState("");
   const [dateRangeFilter, setDateRangeFilter] = React.useState("");
+  const [customFieldFilters, setCustomFieldFilters] = React.useState<Record<string, string>>({});
+  const [search, setSearch] = React.useState("");
+  const [sort, setSort] = React.useState<{ column: ContactSort; direction: "asc" | "desc" }>({
+    column: "createdAt",
+    direction: "desc",
+  });
+  const [pageIndex, setPageIndex] = React.useState(0);
   
-  // Query parameters for filtered data
-  const queryParams = React.useMemo(() => {
+  // Any change to what is listed starts again from the first page
+  const firstPage = (setFilter: (value: string) => void) => (value: string) => {
+    setFilter(value);
+    setPageIndex(0);
+  };
+  
+  // Query parameters for the current filters, shared by the list and exports
+  const filterParams = React.useMemo(() => {
     const params = new URLSearchParams();
+    if (search) params.append('search', search);
     if (labelFilter) params.append('label', labelFilter);
+    if (tagFilter) params.append('tagId', tagFilter);
     if (locationFilter) params.append('location', locationFilter);
     if (dateRangeFilter) params.append('dateRange', dateRangeFilter);
+    Object.entries(customFieldFilters).forEach(([key, value]) => {
+      if (value) params.append(`field.${key}`, value);
+    });
+    return params.toString();
+  }, [search, labelFilter, tagFilter, locationFilter, dateRangeFilter, customFieldFilters]);
+
+  // Query parameters for the current page of filtered, sorted data
+  const queryParams = React.useMemo(() => {
+    const params = new URLSearchParams(filterParams);
+    params.append('page', String(pageIndex + 1));
+    params.append('pageSize', String(CONTACTS_PAGE_SIZE));
+    params.append('sort', sort.column);
+    params.append('direction', sort.direction);
     return params.toString();
-  }, [labelFilter, locationFilter, dateRangeFilter]);
+  }, [filterParams, pageIndex, sort]);
 
-  // Fetch contacts with filters
+  // Fetch one page of contacts; the previous page stays on screen while the next loads
   const {
-    data: contacts = [],
+    data: contactPage,
     isLoading,
     refetch,
-  } = useQuery({
-    queryKey: [`/api/contacts?${queryParams}`],
-    queryFn: async ({ queryKey }) => {
-      const res = await fetch(queryKey[0] as string, {
+  } = useQuery<ContactListPage>({
+    queryKey: ["/api/contacts", queryParams],
+    queryFn: async () => {
+      const res = await fetch(`/api/contacts?${queryParams}`, {
         credentials: "include",
       });
       if (!res.ok) throw new Error("Failed to fetch contacts");
       return res.json();
     },
+    placeholderData: keepPreviousData,
+  });
+  const contacts = contactPage?.contacts ?? [];
+  const totalContacts = contactPage?.total ?? 0;
+
+  // Changing the filters changes which contacts match, so "all matching" has to be chosen again
+  React.useEffect(() => {
+    setAllMatchingSelected(false);
+  }, [filterParams]);
+
+  // Step back when the last contacts of the final page are deleted
+  React.useEffect(() => {
+    if (contactPage && contactPage.contacts.length === 0 && pageIndex > 0) {
+      setPageIndex(Math.max(Math.ceil(contactPage.total / CONTACTS_PAGE_SIZE) - 1, 0));
+    }
+  }, [contactPage, pageIndex]);
+
+  // Labels and locations across all contacts, not just the page shown
+  const { data: filterOptions } = useQuery<{ labels: string[]; locations: string[] }>({
+    queryKey: ["/api/contacts/filter-options"],
+  });
+
+  // Fetch the account's tags (to show contact tags by name and color)
+  const { data: tags = [] } = useQuery<Tag[]>({
+    queryKey: ["/api/tags"],
+  });
+  
+  // Imports run in the background, so show any that are still going
+  const { data: importJobs = [] } = useQuery<ImportJobSummary[]>({
+    queryKey: ["/api/contacts/import/jobs"],
+    enabled: canManageContacts,
+    refetchInterval: (query) => {
+      const jobs = (query.state.data as ImportJobSummary[] | undefined) ?? [];
+      return jobs.some(isImportJobActive) ? 3000 : false;
+    },
+  });
+  const activeImports = importJobs.filter(isImportJobActive);
+
+  // Refresh the list when a background import finishes
+  const activeImportCount = activeImports.length;
+  const previousActiveImports = React.useRef(activeImportCount);
+  React.useEffect(() => {
+    if (activeImportCount < previousActiveImports.current) {
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+    }
+    previousActiveImports.current = activeImportCount;
+  }, [activeImportCount]);
+
+  const tagsById = React.useMemo(() => new Map(tags.map((tag) => [tag.id, tag])), [tags]);
+
+  // Fetch the account's custom fields (each gets a column)
+  const { data: customFields = [] } = useQuery<CustomField[]>({
+    queryKey: ["/api/custom-fields"],
   });
 
   // Delete contact mutation
@@ -84,17 +209,33 @@ export default function ContactsPage() {
     },
   });
 
-  // Extract unique locations from contacts for filter dropdown
-  const uniqueLocations = React.useMemo(() => {
-    const locations = contacts.map((contact: any) => contact.location).filter(Boolean);
-    return Array.from(new Set(locations)) as string[];
-  }, [contacts]);
+  // Opt a contact out of campaigns or back in
+  const optOutMutation = useMutation({
+    mutationFn: async ({ id, optedOut }: { id: number; optedOut: boolean }) => {
+      const res = await apiRequest("PUT", `/api/contacts/${id}/opt-out`, { optedOut });
+      return await res.json();
+    },
+    onSuccess: (contact) => {
+      toast({
+        title: contact.optedOut ? "Contact opted out" : "Contact opted in",
+        description: contact.optedOut
+          ? `${contact.name} will no longer receive campaigns.`
+          : `${contact.name} will receive campaigns again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      refetch();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update opt-out status: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Extract unique labels from contacts for filter dropdown
-  const uniqueLabels = React.useMemo(() => {
-    const labels = contacts.map((contact: any) => contact.label).filter(Boolean);
-    return Array.from(new Set(labels)) as string[];
-  }, [contacts]);
+  const uniqueLocations = filterOptions?.locations ?? [];
+  const uniqueLabels = filterOptions?.labels ?? [];
 
   // Handle delete contact
   const handleDeleteContact = () => {
@@ -108,21 +249,29 @@ export default function ContactsPage() {
     {
       header: "Name",
       accessorKey: "name",
+      sortable: true,
       cell: (value: string) => (
-        <div className="font-medium text-gray-900">{value}</div>
+        <div className="font-medium text-gray-900">
+          <SearchHighlight text={value} search={search} />
+        </div>
       ),
     },
     {
       header: "Mobile",
       accessorKey: "mobile",
+      sortable: true,
+      cell: (value: string) => <SearchHighlight text={value} search={search} />,
     },
     {
       header: "Location",
       accessorKey: "location",
+      sortable: true,
+      cell: (value: string) => <SearchHighlight text={value} search={search} />,
     },
     {
       header: "Label",
       accessorKey: "label",
+      sortable: true,
       cell: (value: string) => {
         if (!value) return null;
         
@@ -142,15 +291,53 @@ export default function ContactsPage() {
             break;
         }
         
-        return <Badge variant={variant}>{value}</Badge>;
+        return (
+          <Badge variant={variant}>
+            <SearchHighlight text={value} search={search} />
+          </Badge>
+        );
       },
     },
+    {
+      header: "Tags",
+      accessorKey: "tagIds",
+      cell: (value: number[] = []) => (
+        <div className="flex flex-wrap gap-1">
+          {value.map((id) => tagsById.get(id)).filter(Boolean).map((tag) => (
+            <TagBadge key={tag!.id} tag={tag!} />
+          ))}
+        </div>
+      ),
+    },
+    ...customFields.map((field) => ({
+      header: field.name,
+      accessorKey: `customFields.${field.key}`,
+      cell: (_: any, row: any) => (
+        <SearchHighlight text={formatCustomFieldValue(field, row.customFields?.[field.key])} search={search} />
+      ),
+    })),
+    {
+      header: "Status",
+      accessorKey: "optedOut",
+      cell: (value: boolean, row: any) => value ? (
+        <Badge
+          variant="destructive"
+          title={row.optedOutAt ? `Opted out on ${formatDate(row.optedOutAt)}` : undefined}
+        >
+          Opted out
+        </Badge>
+      ) : (
+        <Badge variant="success">Subscribed</Badge>
+      ),
+    },
     {
       header: "Created",
       accessorKey: "createdAt",
+      sortable: true,
       cell: (value: string) => formatDate(value),
     },
-    {
+    // Only roles that can manage contacts get row actions
+    ...(canManageContacts ? [{
       header: "Actions",
       accessorKey: "id",
       cell: (_: any, row: any) => (
@@ -158,6 +345,26 @@ export default function ContactsPage() {
           <Button variant="ghost" size="icon" title="Edit Contact" onClick={() => {}}>
             <EditIcon className="h-4 w-4" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title={row.optedOut ? "Opt In" : "Opt Out"}
+            disabled={optOutMutation.isPending}
+            onClick={() => optOutMutation.mutate({ id: row.id, optedOut: !row.optedOut })}
+          >
+            {row.optedOut ? <BellIcon className="h-4 w-4" /> : <BellOffIcon className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Opt-out History"
+            onClick={() => {
+              setSelectedContact(row);
+              setShowOptOutHistory(true);
+            }}
+          >
+            <HistoryIcon className="h-4 w-4" />
+          </Button>
           <Button 
             variant="ghost" 
             size="icon"
@@ -171,7 +378,7 @@ export default function ContactsPage() {
           </Button>
         </div>
       ),
-    },
+    }] : []),
   ];
 
   // Filters configuration
@@ -186,7 +393,19 @@ export default function ContactsPage() {
           label,
         })),
       ],
-      onFilterChange: setLabelFilter,
+      onFilterChange: firstPage(setLabelFilter),
+    },
+    {
+      name: "tag",
+      label: "Filter by Tag",
+      options: [
+        { value: "", label: "All Tags" },
+        ...tags.map((tag) => ({
+          value: tag.id.toString(),
+          label: tag.name,
+        })),
+      ],
+      onFilterChange: firstPage(setTagFilter),
     },
     {
       name: "location",
@@ -198,7 +417,7 @@ export default function ContactsPage() {
           label: location,
         })),
       ],
-      onFilterChange: setLocationFilter,
+      onFilterChange: firstPage(setLocationFilter),
     },
     {
       name: "dateRange",
@@ -210,21 +429,68 @@ export default function ContactsPage() {
         { value: "last-month", label: "Last 30 days" },
         { value: "last-year", label: "This year" },
       ],
-      onFilterChange: setDateRangeFilter,
+      onFilterChange: firstPage(setDateRangeFilter),
     },
+    // Yes/no and choice list fields have few enough values for a dropdown
+    ...customFields
+      .filter((field) => field.type === "boolean" || field.type === "enum")
+      .map((field) => ({
+        name: `field.${field.key}`,
+        label: field.name,
+        options: [
+          { value: "", label: `Any ${field.name}` },
+          ...(field.type === "boolean"
+            ? [{ value: "true", label: "Yes" }, { value: "false", label: "No" }]
+            : (field.options || []).map((option) => ({ value: option, label: option }))),
+        ],
+        onFilterChange: (value: string) => {
+          setCustomFieldFilters((current) => ({ ...current, [field.key]: value }));
+          setPageIndex(0);
+        },
+      })),
   ];
 
   // Actions buttons
-  const actions = (
+  const actions = canManageContacts && (
     <div className="flex space-x-2">
       <Button
         variant="outline"
         size="sm"
-        onClick={() => setShowImportContacts(true)}
+        onClick={() => setShowManageTags(true)}
+        className="whitespace-nowrap"
+      >
+        <TagsIcon className="h-4 w-4 mr-2" />
+        Manage Tags
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setShowManageFields(true)}
+        className="whitespace-nowrap"
+      >
+        <ListPlusIcon className="h-4 w-4 mr-2" />
+        Custom Fields
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setShowDuplicates(true)}
+        className="whitespace-nowrap"
+      >
+        <CopyIcon className="h-4 w-4 mr-2" />
+        Duplicates
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          setImportJobId(null);
+          setShowImportContacts(true);
+        }}
         className="whitespace-nowrap"
       >
         <UploadIcon className="h-4 w-4 mr-2" />
-        Import CSV
+        Import
       </Button>
       <Button
         size="sm"
@@ -237,9 +503,37 @@ export default function ContactsPage() {
     </div>
   );
 
+  // Stable, so the table's debounced search only fires when the search text changes
+  const handleSearchChange = React.useCallback((term: string) => {
+    setSearch(term);
+    setPageIndex(0);
+  }, []);
+
+  // Starting a search lists the best matches first; clearing it goes back to newest first
+  const searching = search !== "";
+  React.useEffect(() => {
+    setSort({ column: searching ? "relevance" : "createdAt", direction: "desc" });
+  }, [searching]);
+
+  // What bulk actions apply to: the selected contacts, or every contact matching the filters
+  const bulkTarget: ContactBulkTarget = allMatchingSelected
+    ? { filter: Object.fromEntries(new URLSearchParams(filterParams)) }
+    : { ids: selectedContacts.map((contact) => contact.id) };
+  const bulkCount = allMatchingSelected ? totalContacts : selectedContacts.length;
+
+  // Download the selected contacts or, with none selected, every contact matching the filters
+  const exportContacts = (format: ContactExportFormat) => {
+    const params = selectedContacts.length > 0 && !allMatchingSelected
+      ? new URLSearchParams({ ids: selectedContacts.map((contact) => contact.id).join(",") })
+      : new URLSearchParams(filterParams);
+    params.append('format', format);
+    window.open(`/api/contacts/export?${params}`, '_blank');
+  };
+
   // Handle row selection
   const handleRowSelect = (rows: any[]) => {
     setSelectedContacts(rows);
+    setAllMatchingSelected(false);
   };
 
   // Action to delete multiple contacts
@@ -262,30 +556,121 @@ export default function ContactsPage() {
           <h1 className="text-2xl font-semibold text-gray-800">Contacts</h1>
           <p className="text-gray-600">Manage and organize your contacts</p>
         </div>
-        {selectedContacts.length > 0 && (
-          <div className="mt-4 sm:mt-0">
-            <Button 
-              variant="destructive" 
-              size="sm"
-              onClick={handleBulkDelete}
-              className="whitespace-nowrap"
-            >
-              <TrashIcon className="h-4 w-4 mr-2" />
-              Delete Selected ({selectedContacts.length})
-            </Button>
-          </div>
-        )}
+        <div className="mt-4 sm:mt-0 flex space-x-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="whitespace-nowrap">
+                <DownloadIcon className="h-4 w-4 mr-2" />
+                {selectedContacts.length > 0 ? `Export Selected (${bulkCount})` : "Export"}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportContacts("csv")}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportContacts("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {canManageContacts && selectedContacts.length > 0 && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowBulkTagsDialog(true)}
+                className="whitespace-nowrap"
+              >
+                <TagIcon className="h-4 w-4 mr-2" />
+                Tag Selected ({bulkCount})
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="whitespace-nowrap">
+                    <EditIcon className="h-4 w-4 mr-2" />
+                    Edit Selected ({bulkCount})
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setBulkEditField("label")}>Set label</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setBulkEditField("location")}>Set location</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setBulkEditField("optOut")}>Opt out or in</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button 
+                variant="destructive" 
+                size="sm"
+                onClick={handleBulkDelete}
+                className="whitespace-nowrap"
+              >
+                <TrashIcon className="h-4 w-4 mr-2" />
+                Delete Selected ({bulkCount})
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
+      {canManageContacts && selectedContacts.length > 0 && totalContacts > selectedContacts.length && (
+        <div className="mb-4 rounded-lg border bg-gray-50 px-4 py-2 text-sm text-gray-700">
+          {allMatchingSelected ? (
+            <>
+              All {totalContacts} contacts matching the filters are selected.{" "}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setAllMatchingSelected(false)}>
+                Select only the {selectedContacts.length} checked
+              </Button>
+            </>
+          ) : (
+            <>
+              {selectedContacts.length} contact{selectedContacts.length !== 1 ? 's' : ''} selected.{" "}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setAllMatchingSelected(true)}>
+                Select all {totalContacts} contacts matching the filters
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {activeImports.map((job) => (
+        <div key={job.id} className="mb-4 flex items-center gap-4 rounded-lg border bg-white px-4 py-3 shadow-sm">
+          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          <div className="flex-1 space-y-1">
+            <div className="text-sm">
+              {job.status === "queued" ? "Waiting to import" : "Importing"} <span className="font-medium">{job.fileName}</span>
+              {" "}({importJobProgress(job)}%)
+            </div>
+            <Progress value={importJobProgress(job)} className="h-2" />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setImportJobId(job.id);
+              setShowImportContacts(true);
+            }}
+          >
+            View progress
+          </Button>
+        </div>
+      ))}
+
       <div className="bg-white rounded-lg shadow">
         <DataTable
           data={contacts}
           columns={columns}
-          showCheckbox={true}
+          showCheckbox={canManageContacts}
           onRowSelect={handleRowSelect}
           searchPlaceholder="Search contacts..."
           filters={filters}
           actions={actions}
+          serverSide={{
+            total: totalContacts,
+            pageIndex,
+            pageSize: CONTACTS_PAGE_SIZE,
+            onPageChange: setPageIndex,
+            onSearchChange: handleSearchChange,
+            sort,
+            onSortChange: (column, direction) => {
+              setSort({ column: column as ContactSort, direction });
+              setPageIndex(0);
+            },
+          }}
         />
       </div>
 
@@ -299,6 +684,7 @@ export default function ContactsPage() {
       <ImportContactsDialog
         open={showImportContacts}
         onOpenChange={setShowImportContacts}
+        jobId={importJobId}
       />
       
       {/* Delete Contact Dialog */}
@@ -308,12 +694,60 @@ export default function ContactsPage() {
         contact={selectedContact}
       />
 
+      {/* Opt-out History Dialog */}
+      <OptOutHistoryDialog
+        open={showOptOutHistory}
+        onOpenChange={setShowOptOutHistory}
+        contact={selectedContact}
+      />
+
       {/* Bulk Delete Contact Dialog */}
       <BulkDeleteDialog
         open={showBulkDeleteDialog}
         onOpenChange={setShowBulkDeleteDialog}
-        contacts={selectedContacts}
-        onComplete={() => setSelectedContacts([])}
+        target={bulkTarget}
+        count={bulkCount}
+        onComplete={() => {
+          setSelectedContacts([]);
+          setAllMatchingSelected(false);
+        }}
+      />
+
+      {/* Bulk Tag Contacts Dialog */}
+      <BulkTagsDialog
+        open={showBulkTagsDialog}
+        onOpenChange={setShowBulkTagsDialog}
+        target={bulkTarget}
+        count={bulkCount}
+      />
+
+      {/* Bulk Edit Contacts Dialog */}
+      {bulkEditField && (
+        <BulkEditDialog
+          open={bulkEditField !== null}
+          onOpenChange={(open) => !open && setBulkEditField(null)}
+          field={bulkEditField}
+          target={bulkTarget}
+          count={bulkCount}
+        />
+      )}
+
+      {/* Manage Tags Dialog */}
+      <ManageTagsDialog
+        open={showManageTags}
+        onOpenChange={setShowManageTags}
+      />
+
+      {/* Manage Custom Fields Dialog */}
+      <ManageCustomFieldsDialog
+        open={showManageFields}
+        onOpenChange={setShowManageFields}
+      />
+
+      {/* Duplicate Contacts Dialog */}
+      <MergeDuplicatesDialog
+        open={showDuplicates}
+        onOpenChange={setShowDuplicates}
       />
     </DashboardLayout>
   );
@@ -17,7 +17,7 @@ interface ChartData {
 }
 
 export default function DashboardPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   // Fetch campaigns
   const { data: campaigns = [], isLoading: campaignsLoading } = useQuery({
@@ -275,52 +275,58 @@ export default function DashboardPage() {
             <CardTitle>Quick Actions</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Link href="/contacts">
-              <a className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition">
-                <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center mr-3">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-primary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
-                    <circle cx="12" cy="7" r="4"></circle>
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="font-medium text-gray-800">Add New Contact</h3>
-                  <p className="text-sm text-gray-500">Add individual contacts to your database</p>
-                </div>
-              </a>
-            </Link>
+            {can("contacts:manage") && (
+              <Link href="/contacts">
+                <a className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition">
+                  <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center mr-3">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-primary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
+                      <circle cx="12" cy="7" r="4"></circle>
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-800">Add New Contact</h3>
+                    <p className="text-sm text-gray-500">Add individual contacts to your database</p>
+                  </div>
+                </a>
+              </Link>
+            )}
             
-            <Link href="/contacts">
-              <a className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition">
-                <div className="h-10 w-10 rounded-full bg-green-100 flex items-center justify-center mr-3">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-secondary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                    <polyline points="17 8 12 3 7 8"></polyline>
-                    <line x1="12" y1="3" x2="12" y2="15"></line>
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="font-medium text-gray-800">Import Contacts</h3>
-                  <p className="text-sm text-gray-500">Bulk import contacts via CSV file</p>
-                </div>
-              </a>
-            </Link>
+            {can("contacts:manage") && (
+              <Link href="/contacts">
+                <a className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition">
+                  <div className="h-10 w-10 rounded-full bg-green-100 flex items-center justify-center mr-3">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-secondary" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                      <polyline points="17 8 12 3 7 8"></polyline>
+                      <line x1="12" y1="3" x2="12" y2="15"></line>
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-800">Import Contacts</h3>
+                    <p className="text-sm text-gray-500">Bulk import contacts via CSV file</p>
+                  </div>
+                </a>
+              </Link>
+            )}
             
-            <Link href="/campaigns">
-              <a className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition">
-                <div className="h-10 w-10 rounded-full bg-purple-100 flex items-center justify-center mr-3">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-accent" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <circle cx="12" cy="12" r="10"></circle>
-                    <line x1="12" y1="8" x2="12" y2="16"></line>
-                    <line x1="8" y1="12" x2="16" y2="12"></line>
-                  </svg>
-                </div>
-                <div>
-                  <h3 className="font-medium text-gray-800">Create Campaign</h3>
-                  <p className="text-sm text-gray-500">Set up a new campaign for your contacts</p>
-                </div>
-              </a>
-            </Link>
+            {can("campaigns:manage") && (
+              <Link href="/campaigns">
+                <a className="flex items-center p-3 rounded-lg border border-gray-200 hover:bg-gray-50 transition">
+                  <div className="h-10 w-10 rounded-full bg-purple-100 flex items-center justify-center mr-3">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-accent" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <circle cx="12" cy="12" r="10"></circle>
+                      <line x1="12" y1="8" x2="12" y2="16"></line>
+                      <line x1="8" y1="12" x2="16" y2="12"></line>
+                    </svg>
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-800">Create Campaign</h3>
+                    <p className="text-sm text-gray-500">Set up a new campaign for your contacts</p>
+                  </div>
+                </a>
+              </Link>
+            )}
           </CardContent>
         </Card>
         
@@ -367,6 +373,13 @@ function StatusBadge({ status }: { status: string }) {
     case "draft":
       className += "bg-yellow-100 text-yellow-800";
       break;
+    case "scheduled":
+    case "launching":
+      className += "bg-blue-100 text-blue-800";
+      break;
+    case "failed":
+      className += "bg-red-100 text-red-800";
+      break;
     case "completed":
       className += "bg-gray-100 text-gray-800";
       break;
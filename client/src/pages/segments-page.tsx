@@ -0,0 +1,186 @@
+import * as React from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { DataTable } from "@/components/ui/data-table";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SegmentEditorDialog } from "@/components/segments/segment-editor-dialog";
+import type { Segment } from "@shared/schema";
+import { PlusIcon, EditIcon, TrashIcon } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type SegmentWithCount = Segment & { contactCount: number };
+
+export default function SegmentsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [showEditor, setShowEditor] = React.useState(false);
+  const [selectedSegment, setSelectedSegment] = React.useState<SegmentWithCount | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
+
+  const { data: segments = [] } = useQuery<SegmentWithCount[]>({
+    queryKey: ["/api/segments"],
+  });
+
+  // Delete segment mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/segments/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Segment deleted",
+        description: "The segment has been successfully deleted.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/segments"] });
+      setShowDeleteDialog(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete segment: ${error.message}`,
+        variant: "destructive",
+      });
+      setShowDeleteDialog(false);
+    },
+  });
+
+  const columns = [
+    {
+      header: "Segment",
+      accessorKey: "name",
+      cell: (value: string, row: SegmentWithCount) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          {row.description && <div className="text-xs text-gray-500">{row.description}</div>}
+        </div>
+      ),
+    },
+    {
+      header: "Rules",
+      accessorKey: "rules",
+      cell: (value: Segment["rules"]) =>
+        value.rules.length === 0
+          ? "All contacts"
+          : `${value.rules.length} rule${value.rules.length === 1 ? "" : "s"}, match ${value.combinator === "and" ? "all" : "any"}`,
+    },
+    {
+      header: "Contacts",
+      accessorKey: "contactCount",
+    },
+    {
+      header: "Updated",
+      accessorKey: "updatedAt",
+      cell: (value: string) => formatDate(value),
+    },
+    {
+      header: "Actions",
+      accessorKey: "id",
+      cell: (_: any, row: SegmentWithCount) =>
+        can("contacts:manage") && (
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Edit Segment"
+              onClick={() => {
+                setSelectedSegment(row);
+                setShowEditor(true);
+              }}
+            >
+              <EditIcon className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Delete Segment"
+              onClick={() => {
+                setSelectedSegment(row);
+                setShowDeleteDialog(true);
+              }}
+            >
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        ),
+    },
+  ];
+
+  const actions = can("contacts:manage") && (
+    <Button
+      size="sm"
+      onClick={() => {
+        setSelectedSegment(null);
+        setShowEditor(true);
+      }}
+      className="whitespace-nowrap"
+    >
+      <PlusIcon className="h-4 w-4 mr-2" />
+      New Segment
+    </Button>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800">Segments</h1>
+          <p className="text-gray-600">Group contacts with rules and target campaigns at them</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <DataTable
+          data={segments}
+          columns={columns}
+          searchPlaceholder="Search segments..."
+          actions={actions}
+        />
+      </div>
+
+      <SegmentEditorDialog open={showEditor} onOpenChange={setShowEditor} segment={selectedSegment} />
+
+      {/* Delete Segment Confirmation */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the segment. Contacts in it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedSegment && deleteMutation.mutate(selectedSegment.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
+
+// Helper function to format date
+function formatDate(dateString: string) {
+  const date = new Date(dateString);
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  }).format(date);
+}
@@ -12,6 +12,13 @@ import { toast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { 
+  MESSAGING_GATEWAYS, 
+  MESSAGING_GATEWAY_LABELS, 
+  DEFAULT_OPT_OUT_KEYWORDS, 
+  DEFAULT_OPT_IN_KEYWORDS, 
+  type MessagingGatewayName 
+} from "@shared/schema";
 import { 
   BellRing, 
   Globe, 
@@ -33,7 +40,11 @@ export default function SettingsPage() {
     facebookAccessToken: '',
     partnerMobile: '',
     wabaId: '',
-    campaignApiKey: ''
+    campaignApiKey: '',
+    messagingGateway: 'campaign_api' as MessagingGatewayName,
+    phoneNumberId: '',
+    optOutKeywords: '',
+    optInKeywords: ''
   });
   
   // Settings type definition
@@ -45,6 +56,10 @@ export default function SettingsPage() {
     partnerMobile: string | null;
     wabaId: string | null;
     campaignApiKey: string | null;
+    messagingGateway?: MessagingGatewayName;
+    phoneNumberId: string | null;
+    optOutKeywords: string | null;
+    optInKeywords: string | null;
     updatedAt: string;
   }
 
@@ -65,7 +80,11 @@ export default function SettingsPage() {
         facebookAccessToken: settings.facebookAccessToken ? settings.facebookAccessToken : '',
         partnerMobile: settings.partnerMobile ? settings.partnerMobile : '',
         wabaId: settings.wabaId ? settings.wabaId : '',
-        campaignApiKey: settings.campaignApiKey ? settings.campaignApiKey : ''
+        campaignApiKey: settings.campaignApiKey ? settings.campaignApiKey : '',
+        messagingGateway: settings.messagingGateway || 'campaign_api',
+        phoneNumberId: settings.phoneNumberId ? settings.phoneNumberId : '',
+        optOutKeywords: settings.optOutKeywords ? settings.optOutKeywords : '',
+        optInKeywords: settings.optInKeywords ? settings.optInKeywords : ''
       });
     }
   }, [settings]);
@@ -472,6 +491,31 @@ export default function SettingsPage() {
                   </p>
                   <form onSubmit={handleSaveWhatsAppSettings}>
                     <div className="space-y-4 mb-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="messagingGateway">Messaging Gateway</Label>
+                        <Select
+                          value={whatsappSettings.messagingGateway}
+                          onValueChange={(value) => setWhatsappSettings({
+                            ...whatsappSettings,
+                            messagingGateway: value as MessagingGatewayName
+                          })}
+                        >
+                          <SelectTrigger id="messagingGateway">
+                            <SelectValue placeholder="Select a gateway" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MESSAGING_GATEWAYS.map((gateway) => (
+                              <SelectItem key={gateway} value={gateway}>
+                                {MESSAGING_GATEWAY_LABELS[gateway]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500">
+                          The provider used to deliver campaign messages for this account
+                        </p>
+                      </div>
+                      
                       <div className="space-y-2">
                         <Label htmlFor="wabaApiUrl">WhatsApp Business API URL</Label>
                         <Input 
@@ -505,6 +549,24 @@ export default function SettingsPage() {
                         </p>
                       </div>
 
+                      {whatsappSettings.messagingGateway === 'whatsapp_cloud' && (
+                        <div className="space-y-2">
+                          <Label htmlFor="phoneNumberId">Phone Number ID</Label>
+                          <Input 
+                            id="phoneNumberId"
+                            placeholder="Enter your WhatsApp phone number ID"
+                            value={whatsappSettings.phoneNumberId}
+                            onChange={(e) => setWhatsappSettings({
+                              ...whatsappSettings,
+                              phoneNumberId: e.target.value
+                            })}
+                          />
+                          <p className="text-xs text-gray-500">
+                            The ID of the sending phone number, shown in WhatsApp Manager under API Setup
+                          </p>
+                        </div>
+                      )}
+
                       <div className="space-y-2">
                         <Label htmlFor="partnerMobile">Partner Mobile Number</Label>
                         <Input 
@@ -553,6 +615,38 @@ export default function SettingsPage() {
                           API key for campaign service to authenticate API requests
                         </p>
                       </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="optOutKeywords">Opt-out Keywords</Label>
+                        <Input 
+                          id="optOutKeywords"
+                          placeholder={DEFAULT_OPT_OUT_KEYWORDS.join(', ')}
+                          value={whatsappSettings.optOutKeywords}
+                          onChange={(e) => setWhatsappSettings({
+                            ...whatsappSettings,
+                            optOutKeywords: e.target.value
+                          })}
+                        />
+                        <p className="text-xs text-gray-500">
+                          Comma-separated. Contacts who reply with one of these words stop receiving campaigns. Leave empty to use the defaults.
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="optInKeywords">Opt-in Keywords</Label>
+                        <Input 
+                          id="optInKeywords"
+                          placeholder={DEFAULT_OPT_IN_KEYWORDS.join(', ')}
+                          value={whatsappSettings.optInKeywords}
+                          onChange={(e) => setWhatsappSettings({
+                            ...whatsappSettings,
+                            optInKeywords: e.target.value
+                          })}
+                        />
+                        <p className="text-xs text-gray-500">
+                          Comma-separated. Contacts who opted out can reply with one of these words to receive campaigns again.
+                        </p>
+                      </div>
                     </div>
                     
                     <div className="flex justify-end">
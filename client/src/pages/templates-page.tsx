@@ -0,0 +1,313 @@
+import * as React from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { DataTable } from "@/components/ui/data-table";
+import { Button } from "@/components/ui/button";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { CreateTemplateDialog } from "@/components/templates/create-template-dialog";
+import { TemplatePreview } from "@/components/campaigns/template-preview";
+import { PlusIcon, EyeIcon, TrashIcon, RefreshCwIcon } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Template {
+  id: string;
+  name: string;
+  category: string | null;
+  language: string | null;
+  status: string;
+  rejectedReason: string | null;
+  components: any[];
+}
+
+interface TemplatesResponse {
+  templates: Template[];
+  lastSyncedAt: string | null;
+  syncError: string | null;
+}
+
+// How often to check on templates Meta is still reviewing
+const STATUS_POLL_INTERVAL_MS = 15000;
+
+export default function TemplatesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [showCreateTemplate, setShowCreateTemplate] = React.useState(false);
+  const [selectedTemplate, setSelectedTemplate] = React.useState<Template | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
+  const [showPreview, setShowPreview] = React.useState(false);
+  const [statusFilter, setStatusFilter] = React.useState("");
+
+  const { data, isLoading, error } = useQuery<TemplatesResponse>({
+    queryKey: ["/api/templates"],
+  });
+  const templates = data?.templates ?? [];
+
+  // Ask Meta about templates still under review; each check also updates the cache
+  const pendingIds = templates.filter((template) => template.status === "PENDING").map((template) => template.id).join(",");
+  React.useEffect(() => {
+    if (!pendingIds) return;
+
+    const timer = setInterval(async () => {
+      await Promise.allSettled(pendingIds.split(",").map((id) => apiRequest("GET", `/api/templates/${id}`)));
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    }, STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingIds]);
+
+  // Sync templates mutation
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/templates/sync");
+      return await res.json();
+    },
+    onSuccess: (result: { synced: number }) => {
+      toast({
+        title: "Templates synced",
+        description: `${result.synced} template${result.synced === 1 ? "" : "s"} loaded from your WhatsApp Business Account.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to sync templates: ${error.message}`,
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+    },
+  });
+
+  const filteredTemplates = React.useMemo(
+    () => (statusFilter ? templates.filter((template) => template.status === statusFilter) : templates),
+    [templates, statusFilter]
+  );
+
+  // Delete template mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (template: Template) => {
+      await apiRequest("DELETE", `/api/templates/${template.id}?name=${encodeURIComponent(template.name)}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Template deleted",
+        description: "The template has been deleted from your WhatsApp Business Account.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setShowDeleteDialog(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete template: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const columns = [
+    {
+      header: "Name",
+      accessorKey: "name",
+      cell: (value: string) => <div className="font-medium text-gray-900">{value}</div>,
+    },
+    {
+      header: "Category",
+      accessorKey: "category",
+      cell: (value: string | null) => (value ? value.charAt(0) + value.slice(1).toLowerCase() : "—"),
+    },
+    {
+      header: "Language",
+      accessorKey: "language",
+      cell: (value: string | null) => value || "—",
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (value: string, row: Template) => (
+        <div>
+          <Badge variant={statusVariant(value)}>{value.charAt(0) + value.slice(1).toLowerCase()}</Badge>
+          {row.rejectedReason && (
+            <div className="text-xs text-gray-500 mt-1">{row.rejectedReason.replace(/_/g, " ").toLowerCase()}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      header: "Actions",
+      accessorKey: "id",
+      cell: (_: any, row: Template) => (
+        <div className="flex justify-end space-x-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Preview Template"
+            onClick={() => {
+              setSelectedTemplate(row);
+              setShowPreview(true);
+            }}
+          >
+            <EyeIcon className="h-4 w-4" />
+          </Button>
+          {can("templates:manage") && (
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Delete Template"
+              onClick={() => {
+                setSelectedTemplate(row);
+                setShowDeleteDialog(true);
+              }}
+            >
+              <TrashIcon className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  const filters = [
+    {
+      name: "status",
+      label: "Status",
+      options: [
+        { value: "", label: "All Statuses" },
+        { value: "APPROVED", label: "Approved" },
+        { value: "PENDING", label: "Pending" },
+        { value: "REJECTED", label: "Rejected" },
+        { value: "PAUSED", label: "Paused" },
+      ],
+      onFilterChange: setStatusFilter,
+    },
+  ];
+
+  const actions = can("templates:manage") && (
+    <div className="flex space-x-2">
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => syncMutation.mutate()}
+        disabled={syncMutation.isPending}
+        className="whitespace-nowrap"
+      >
+        <RefreshCwIcon className={`h-4 w-4 mr-2 ${syncMutation.isPending ? "animate-spin" : ""}`} />
+        Sync now
+      </Button>
+      <Button size="sm" onClick={() => setShowCreateTemplate(true)} className="whitespace-nowrap">
+        <PlusIcon className="h-4 w-4 mr-2" />
+        New Template
+      </Button>
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-800">Templates</h1>
+          <p className="text-gray-600">Create WhatsApp message templates and track their approval</p>
+        </div>
+        {data && (
+          <div className="mt-2 sm:mt-0 text-sm text-gray-500 sm:text-right">
+            {data.lastSyncedAt ? `Last synced ${formatDateTime(data.lastSyncedAt)}` : "Not synced yet"}
+            {data.syncError && (
+              <div className="text-xs text-red-600" title={data.syncError}>Last sync failed: {data.syncError}</div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        {error ? (
+          <div className="p-8 text-center text-gray-500">
+            Templates could not be loaded: {(error as Error).message}
+          </div>
+        ) : (
+          <DataTable
+            data={isLoading ? [] : filteredTemplates}
+            columns={columns}
+            searchPlaceholder="Search templates..."
+            filters={filters}
+            actions={actions}
+          />
+        )}
+      </div>
+
+      <CreateTemplateDialog open={showCreateTemplate} onOpenChange={setShowCreateTemplate} />
+
+      {/* Template Preview */}
+      <Dialog open={showPreview} onOpenChange={setShowPreview}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{selectedTemplate?.name}</DialogTitle>
+            <DialogDescription>How this template looks to recipients</DialogDescription>
+          </DialogHeader>
+          {selectedTemplate && <TemplatePreview components={selectedTemplate.components} variables={[]} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Template Confirmation */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete the template from your WhatsApp Business Account. Campaigns using it will no longer send.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedTemplate && deleteMutation.mutate(selectedTemplate)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
+
+function statusVariant(status: string): "success" | "warning" | "destructive" | "neutral" {
+  switch (status) {
+    case "APPROVED":
+      return "success";
+    case "PENDING":
+      return "warning";
+    case "REJECTED":
+    case "DISABLED":
+      return "destructive";
+    default:
+      return "neutral";
+  }
+}
+
+function formatDateTime(dateString: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(dateString));
+}
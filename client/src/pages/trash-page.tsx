@@ -0,0 +1,253 @@
+import * as React from "react";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { DataTable } from "@/components/ui/data-table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Campaign, Contact, TrashContents, TrashItems, TrashRestoreResult } from "@shared/schema";
+import { RotateCcwIcon, TrashIcon } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An item chosen for permanent deletion, named for the confirmation
+type PurgeTarget = { items: TrashItems; name: string };
+
+// Data the contact and campaign lists depend on, which change when items come back or go for good
+function invalidateTrashedData() {
+  queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/contacts/filter-options"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/segments"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+}
+
+export default function TrashPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [purgeTarget, setPurgeTarget] = React.useState<PurgeTarget | null>(null);
+
+  const { data: trash } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+  const retentionDays = trash?.retentionDays ?? 30;
+
+  const restoreMutation = useMutation({
+    mutationFn: async (items: TrashItems): Promise<TrashRestoreResult> => {
+      const res = await apiRequest("POST", "/api/trash/restore", items);
+      return await res.json();
+    },
+    onSuccess: (results, items) => {
+      invalidateTrashedData();
+      if (results.conflicts.length > 0) {
+        const [conflict] = results.conflicts;
+        toast({
+          title: "Not restored",
+          description: `Another contact now has the mobile ${conflict.mobile}. Merge or delete it to restore ${conflict.name}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Restored",
+        description: items.contactIds.length > 0
+          ? "The contact is back in your contacts list."
+          : "The campaign is back in your campaigns list.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restore: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (items: TrashItems) => {
+      const res = await apiRequest("POST", "/api/trash/purge", items);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateTrashedData();
+      toast({
+        title: "Permanently deleted",
+        description: "The item has been permanently deleted.",
+      });
+      setPurgeTarget(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete permanently: ${error.message}`,
+        variant: "destructive",
+      });
+      setPurgeTarget(null);
+    },
+  });
+
+  const itemActions = (items: TrashItems, name: string, permission: "contacts:manage" | "campaigns:manage") =>
+    can(permission) && (
+      <div className="flex justify-end space-x-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={restoreMutation.isPending}
+          onClick={() => restoreMutation.mutate(items)}
+        >
+          <RotateCcwIcon className="h-4 w-4 mr-1" />
+          Restore
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          onClick={() => setPurgeTarget({ items, name })}
+        >
+          <TrashIcon className="h-4 w-4 mr-1" />
+          Delete Forever
+        </Button>
+      </div>
+    );
+
+  const deletedColumn = {
+    header: "Deleted",
+    accessorKey: "deletedAt",
+    cell: (value: string) => (
+      <div>
+        <div>{formatDate(value)}</div>
+        <div className="text-xs text-gray-500">
+          Deleted forever on {formatDate(new Date(new Date(value).getTime() + retentionDays * DAY_MS).toISOString())}
+        </div>
+      </div>
+    ),
+  };
+
+  const contactColumns = [
+    {
+      header: "Contact",
+      accessorKey: "name",
+      cell: (value: string, row: Contact) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-xs text-gray-500">{row.mobile}</div>
+        </div>
+      ),
+    },
+    {
+      header: "Label",
+      accessorKey: "label",
+    },
+    deletedColumn,
+    {
+      header: "Actions",
+      accessorKey: "id",
+      cell: (id: number, row: Contact) => itemActions({ contactIds: [id], campaignIds: [] }, row.name, "contacts:manage"),
+    },
+  ];
+
+  const campaignColumns = [
+    {
+      header: "Campaign",
+      accessorKey: "name",
+      cell: (value: string) => <div className="font-medium text-gray-900">{value}</div>,
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      cell: (value: string) => <Badge variant="outline" className="capitalize">{value}</Badge>,
+    },
+    deletedColumn,
+    {
+      header: "Actions",
+      accessorKey: "id",
+      cell: (id: number, row: Campaign) => itemActions({ contactIds: [], campaignIds: [id] }, row.name, "campaigns:manage"),
+    },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Trash</h1>
+        <p className="text-gray-600">
+          Deleted contacts and campaigns are kept here for {retentionDays} day{retentionDays !== 1 ? "s" : ""}, then permanently deleted
+        </p>
+      </div>
+
+      {can("contacts:view") && (
+        <div className="mb-8">
+          <h2 className="text-lg font-medium text-gray-800 mb-3">Contacts</h2>
+          <div className="bg-white rounded-lg shadow">
+            <DataTable
+              data={trash?.contacts ?? []}
+              columns={contactColumns}
+              searchPlaceholder="Search deleted contacts..."
+            />
+          </div>
+        </div>
+      )}
+
+      {can("campaigns:view") && (
+        <div>
+          <h2 className="text-lg font-medium text-gray-800 mb-1">Campaigns</h2>
+          <p className="text-sm text-gray-500 mb-3">
+            A restored campaign keeps its results. Scheduled campaigns whose time has passed come back as drafts.
+          </p>
+          <div className="bg-white rounded-lg shadow">
+            <DataTable
+              data={trash?.campaigns ?? []}
+              columns={campaignColumns}
+              searchPlaceholder="Search deleted campaigns..."
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Permanent Delete Confirmation */}
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <span className="font-medium">{purgeTarget?.name}</span> will be permanently deleted
+              {purgeTarget?.items.campaignIds.length ? ", along with its messages and results" : ""}.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget.items)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
+
+// Helper function to format date
+function formatDate(dateString: string) {
+  const date = new Date(dateString);
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  }).format(date);
+}
@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill Accounts Script
+ *
+ * Older versions gave every user an account ID without creating the
+ * account itself. Users (and their contacts, campaigns and settings) now
+ * reference the accounts table, so this creates an account row for every
+ * account ID in use that has none, named after the account's first user.
+ *
+ * Users from before roles existed all became admins, which leaves their
+ * accounts without an owner. Each account without one gets its first user
+ * as owner, so owner-only actions such as granting ownership are possible.
+ *
+ * Run it once when upgrading, before `npm run db:push` adds the foreign
+ * keys; the push fails while any row points at a missing account. It is
+ * safe to run again.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-accounts.ts [--dry-run]
+ */
+
+import { pool } from "../server/db";
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  console.log(dryRun ? "Dry run: no accounts will be created\n" : "Backfilling accounts\n");
+
+  // Every table with an account_id column, whether or not its foreign key exists yet
+  const tables = await pool.query<{ table_name: string }>(
+    `select table_name from information_schema.columns
+     where table_schema = 'public' and column_name = 'account_id' and table_name <> 'accounts'
+     order by table_name`
+  );
+  const accountIds = new Set<number>();
+  for (const { table_name } of tables.rows) {
+    const ids = await pool.query<{ account_id: number }>(
+      `select distinct account_id from "${table_name}" where account_id is not null`
+    );
+    ids.rows.forEach(row => accountIds.add(row.account_id));
+  }
+
+  const existing = await pool.query<{ id: number }>("select id from accounts");
+  const existingIds = new Set(existing.rows.map(row => row.id));
+  const missing = Array.from(accountIds).filter(id => !existingIds.has(id)).sort((a, b) => a - b);
+
+  let owners = 0;
+  const client = await pool.connect();
+  try {
+    await client.query("begin");
+    for (const id of missing) {
+      const firstUser = await client.query<{ name: string }>(
+        "select name from users where account_id = $1 order by id limit 1",
+        [id]
+      );
+      const name = firstUser.rows[0] ? `${firstUser.rows[0].name}'s account` : `Account ${id}`;
+      console.log(`account ${id}: ${dryRun ? "would be created" : "created"} as "${name}"`);
+      if (!dryRun) {
+        await client.query("insert into accounts (id, name) values ($1, $2)", [id, name]);
+      }
+    }
+    // Keep new registrations from reusing the IDs just inserted
+    if (!dryRun && missing.length > 0) {
+      await client.query("select setval(pg_get_serial_sequence('accounts', 'id'), (select max(id) from accounts))");
+    }
+
+    const ownerless = await client.query<{ id: number; account_id: number; username: string }>(
+      `select distinct on (account_id) id, account_id, username from users u
+       where not exists (select 1 from users o where o.account_id = u.account_id and o.role = 'owner')
+       order by account_id, id`
+    );
+    for (const user of ownerless.rows) {
+      console.log(`account ${user.account_id}: ${user.username} ${dryRun ? "would become" : "is now"} the owner`);
+      if (!dryRun) {
+        await client.query("update users set role = 'owner' where id = $1", [user.id]);
+      }
+    }
+    owners = ownerless.rows.length;
+    await client.query(dryRun ? "rollback" : "commit");
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`\n${missing.length} account(s) ${dryRun ? "would be" : "were"} created`);
+  console.log(`${owners} account(s) ${dryRun ? "would be" : "were"} given an owner`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to backfill accounts:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+// A local stand-in for the parts of the Meta Graph API the app uses, so
+// templates and WhatsApp Cloud sends can be exercised without a real WABA.
+//
+// Templates start out PENDING and are approved after STUB_APPROVAL_DELAY_MS
+// (default 10 seconds). Templates whose name contains "reject" are rejected.
+//
+// Usage: node scripts/graph-api-stub.cjs [port]
+// Then point the app at it:
+//   WHATSAPP_GRAPH_API_URL=http://localhost:4010/v22.0
+//   Settings > WABA ID: any value, e.g. 1234567890 (leave the API URL empty)
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.argv[2] || process.env.STUB_PORT || '4010', 10);
+const APPROVAL_DELAY_MS = parseInt(process.env.STUB_APPROVAL_DELAY_MS || '10000', 10);
+
+// Templates by ID, shared by every WABA ID
+const templates = new Map();
+let nextTemplateId = 100000;
+
+function addTemplate(template) {
+  const id = String(nextTemplateId++);
+  templates.set(id, { id, status: 'PENDING', rejected_reason: 'NONE', createdAt: Date.now(), ...template });
+  return templates.get(id);
+}
+
+// Settle a pending template once its review time has passed
+function reviewed(template) {
+  if (template.status === 'PENDING' && Date.now() - template.createdAt >= APPROVAL_DELAY_MS) {
+    if (template.name.includes('reject')) {
+      template.status = 'REJECTED';
+      template.rejected_reason = 'INVALID_FORMAT';
+    } else {
+      template.status = 'APPROVED';
+    }
+  }
+  const { createdAt, ...rest } = template;
+  return rest;
+}
+
+addTemplate({
+  name: 'hello_world',
+  category: 'UTILITY',
+  language: 'en_US',
+  status: 'APPROVED',
+  components: [
+    { type: 'HEADER', format: 'TEXT', text: 'Hello World' },
+    { type: 'BODY', text: 'Welcome and congratulations, {{1}}! This message demonstrates your ability to send a WhatsApp message.', example: { body_text: [['John']] } },
+    { type: 'FOOTER', text: 'WhatsApp Business Platform sample message' }
+  ]
+});
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function graphError(res, status, message, code = 100) {
+  send(res, status, { error: { message, type: 'OAuthException', code, fbtrace_id: crypto.randomBytes(8).toString('hex') } });
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  // Ignore the API version segment, e.g. /v22.0
+  const parts = url.pathname.split('/').filter(Boolean).filter((part, i) => !(i === 0 && /^v\d+/.test(part)));
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  if (!(req.headers.authorization || '').startsWith('Bearer ')) {
+    return graphError(res, 401, 'Invalid OAuth access token.', 190);
+  }
+
+  // /{waba-id}/message_templates
+  if (parts.length === 2 && parts[1] === 'message_templates') {
+    if (req.method === 'GET') {
+      return send(res, 200, { data: Array.from(templates.values()).map(reviewed), paging: { cursors: {} } });
+    }
+
+    if (req.method === 'POST') {
+      const body = await readBody(req);
+      if (!body || !body.name || !body.category || !body.language || !Array.isArray(body.components)) {
+        return graphError(res, 400, 'Invalid parameter');
+      }
+      const duplicate = Array.from(templates.values()).find((t) => t.name === body.name && t.language === body.language);
+      if (duplicate) {
+        return graphError(res, 400, `Message template "${body.name}" already exists in ${body.language}`);
+      }
+      const template = addTemplate({ name: body.name, category: body.category, language: body.language, components: body.components });
+      return send(res, 200, { id: template.id, status: template.status, category: template.category });
+    }
+
+    if (req.method === 'DELETE') {
+      const name = url.searchParams.get('name');
+      const id = url.searchParams.get('hsm_id');
+      const matches = Array.from(templates.values()).filter((t) => t.name === name && (!id || t.id === id));
+      if (matches.length === 0) {
+        return graphError(res, 404, 'Message template not found');
+      }
+      matches.forEach((t) => templates.delete(t.id));
+      return send(res, 200, { success: true });
+    }
+  }
+
+  // /{phone-number-id}/messages
+  if (parts.length === 2 && parts[1] === 'messages' && req.method === 'POST') {
+    const body = await readBody(req);
+    if (!body || !body.to) {
+      return graphError(res, 400, 'Invalid parameter');
+    }
+    // Like the real API, only send templates that exist in the requested language
+    const name = body.template && body.template.name;
+    const language = body.template && body.template.language && body.template.language.code;
+    if (!Array.from(templates.values()).some((t) => t.name === name && t.language === language)) {
+      return graphError(res, 404, `(#132001) Template name does not exist in the translation: ${name} (${language})`, 132001);
+    }
+    return send(res, 200, {
+      messaging_product: 'whatsapp',
+      contacts: [{ input: body.to, wa_id: String(body.to).replace(/\D/g, '') }],
+      messages: [{ id: `wamid.${crypto.randomBytes(12).toString('hex')}` }]
+    });
+  }
+
+  // /{template-id}
+  if (parts.length === 1 && req.method === 'GET') {
+    const template = templates.get(parts[0]);
+    if (!template) {
+      return graphError(res, 404, `Unsupported get request. Object with ID '${parts[0]}' does not exist`);
+    }
+    return send(res, 200, reviewed(template));
+  }
+
+  graphError(res, 404, `Unknown path components: ${url.pathname}`, 2500);
+});
+
+server.listen(PORT, () => {
+  console.log(`Graph API stub listening on http://localhost:${PORT}/v22.0`);
+  console.log(`Templates are approved ${APPROVAL_DELAY_MS / 1000}s after submission`);
+});
@@ -0,0 +1,79 @@
+#!/usr/bin/env tsx
+
+/**
+ * Normalize Contact Mobiles Script
+ *
+ * Rewrites every contact's mobile number in E.164 form ("+919840012345"),
+ * reading numbers without a country code as numbers of the contact's
+ * account default country. Set each account's default country on the
+ * Account Settings page before running it.
+ *
+ * Numbers that can't be read are left as they are. Contacts whose numbers
+ * turn out to be the same are normalized too, and listed as conflicts so
+ * they can be merged.
+ *
+ * Usage:
+ *   npx tsx scripts/normalize-contact-mobiles.ts [--dry-run]
+ */
+
+import { eq } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { accounts, contacts, normalizeMobile } from "@shared/schema";
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  console.log(dryRun ? "Dry run: no contacts will be changed\n" : "Normalizing contact mobiles\n");
+
+  let changed = 0;
+  let invalid = 0;
+  let conflicts = 0;
+
+  for (const account of await db.select().from(accounts).orderBy(accounts.id)) {
+    const rows = await db.select({ id: contacts.id, name: contacts.name, mobile: contacts.mobile })
+      .from(contacts)
+      .where(eq(contacts.accountId, account.id))
+      .orderBy(contacts.id);
+
+    const updates: { id: number; mobile: string }[] = [];
+    const byMobile = new Map<string, typeof rows>();
+
+    for (const row of rows) {
+      const normalized = normalizeMobile(row.mobile, account.defaultCountry);
+      if ("error" in normalized) {
+        invalid++;
+        console.log(`[account ${account.id}] contact ${row.id} (${row.name}): ${normalized.error}, left unchanged`);
+        continue;
+      }
+      if (normalized.mobile !== row.mobile) updates.push({ id: row.id, mobile: normalized.mobile });
+      byMobile.set(normalized.mobile, [...(byMobile.get(normalized.mobile) ?? []), row]);
+    }
+
+    for (const [mobile, group] of Array.from(byMobile)) {
+      if (group.length < 2) continue;
+      conflicts++;
+      console.log(`[account ${account.id}] ${mobile} is shared by ${group.length} contacts:`);
+      for (const row of group) console.log(`    contact ${row.id} (${row.name}), stored as "${row.mobile}"`);
+    }
+
+    if (!dryRun && updates.length > 0) {
+      await db.transaction(async (tx) => {
+        for (const update of updates) {
+          await tx.update(contacts).set({ mobile: update.mobile }).where(eq(contacts.id, update.id));
+        }
+      });
+    }
+    changed += updates.length;
+  }
+
+  console.log(`\n${changed} mobile(s) ${dryRun ? "would be" : "were"} normalized`);
+  console.log(`${invalid} mobile(s) could not be read and were left unchanged`);
+  console.log(`${conflicts} number(s) are shared by more than one contact; merge those contacts by hand`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Failed to normalize contact mobiles:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+// Replay a recorded WhatsApp webhook payload against a local server.
+// The payload is signed with WHATSAPP_APP_SECRET exactly as Meta would sign it.
+//
+// Usage: node scripts/replay-whatsapp-webhook.cjs scripts/webhook-samples/status-delivered.json [server-url]
+const crypto = require('crypto');
+const fs = require('fs');
+const dotenv = require('dotenv');
+
+// Load environment variables
+dotenv.config();
+
+const [payloadFile, serverUrl = `http://localhost:${process.env.PORT || 5000}`] = process.argv.slice(2);
+const APP_SECRET = process.env.WHATSAPP_APP_SECRET || '';
+
+if (!payloadFile) {
+  console.error('Usage: node scripts/replay-whatsapp-webhook.cjs <payload.json> [server-url]');
+  process.exit(1);
+}
+
+if (!APP_SECRET) {
+  console.error('WHATSAPP_APP_SECRET must be set to sign the payload');
+  process.exit(1);
+}
+
+async function replay() {
+  const body = fs.readFileSync(payloadFile);
+  const signature = 'sha256=' + crypto.createHmac('sha256', APP_SECRET).update(body).digest('hex');
+
+  console.log(`Posting ${payloadFile} to ${serverUrl}/api/webhooks/whatsapp`);
+
+  const response = await fetch(`${serverUrl}/api/webhooks/whatsapp`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Hub-Signature-256': signature
+    },
+    body
+  });
+
+  console.log(`Response ${response.status}:`, await response.text());
+  process.exit(response.ok ? 0 : 1);
+}
+
+replay().catch((error) => {
+  console.error('Replay failed:', error.message);
+  process.exit(1);
+});
@@ -5,7 +5,7 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { User as SelectUser, registerValidationSchema, acceptInvitationValidationSchema } from "@shared/schema";
 import { SESSION_CONFIG, DB_CONFIG } from "./config";
 import pkg from 'pg';
 
@@ -149,11 +149,13 @@ export function setupAuth(app: Express): void {
 
   /**
    * User registration endpoint
+   * Every self-service registration provisions a new account (organization)
+   * and makes the registering user its owner.
    */
   app.post("/api/register", async (req: Request, res: Response, next: NextFunction) => {
     try {
       // Validate input using Zod schema
-      const validatedData = insertUserSchema.safeParse(req.body);
+      const validatedData = registerValidationSchema.safeParse(req.body);
       if (!validatedData.success) {
         return res.status(400).json({ 
           message: "Invalid registration data", 
@@ -161,17 +163,30 @@ export function setupAuth(app: Express): void {
         });
       }
       
+      const { username, password, name, companyName } = validatedData.data;
+      // Stored in lower case like invited emails, so the same address always matches
+      const email = validatedData.data.email.trim().toLowerCase();
+      
       // Check for existing username
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(409).json({ message: "Username already exists" });
       }
+      
+      // Check for existing email, since email is also accepted as a login identifier
+      const existingEmail = await storage.getUserByEmail(email);
+      if (existingEmail) {
+        return res.status(409).json({ message: "Email is already registered" });
+      }
 
-      // Create new user with hashed password
-      const hashedPassword = await hashPassword(req.body.password);
-      const user = await storage.createUser({
-        ...req.body,
+      // Create the organization and its owner, the new user, with a hashed password
+      const hashedPassword = await hashPassword(password);
+      const { user } = await storage.createAccountWithUser({ name: companyName.trim() }, {
+        username,
+        name,
+        email,
         password: hashedPassword,
+        role: "owner",
       });
 
       // Auto-login after registration
@@ -196,6 +211,105 @@ export function setupAuth(app: Express): void {
     }
   });
 
+  /**
+   * Invitation lookup endpoint
+   * Lets the accept-invite page show which account the invitee is joining
+   */
+  app.get("/api/invitations/verify", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const token = req.query.token as string | undefined;
+      if (!token) {
+        return res.status(400).json({ message: "Invitation token is required", code: "MISSING_TOKEN" });
+      }
+      
+      const invitation = await storage.verifyInvitationToken(token);
+      if (!invitation) {
+        return res.status(400).json({ message: "Invalid or expired invitation", code: "INVALID_TOKEN" });
+      }
+      
+      const account = await storage.getAccount(invitation.accountId);
+      res.status(200).json({
+        email: invitation.email,
+        role: invitation.role,
+        accountName: account?.name,
+        expiresAt: invitation.expiresAt
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * Invitation acceptance endpoint
+   * Creates the invitee's user inside the inviting account with the invited role
+   */
+  app.post("/api/invitations/accept", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Validate input using Zod schema
+      const validatedData = acceptInvitationValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid registration data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const { token, name, username, password } = validatedData.data;
+      
+      const invitation = await storage.verifyInvitationToken(token);
+      if (!invitation) {
+        return res.status(400).json({ message: "Invalid or expired invitation", code: "INVALID_TOKEN" });
+      }
+      
+      // Check for existing username
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      
+      // The email may have been registered separately since the invitation was sent
+      const existingEmail = await storage.getUserByEmail(invitation.email);
+      if (existingEmail) {
+        return res.status(409).json({ message: "Email is already registered" });
+      }
+
+      // Create new user inside the inviting account
+      const hashedPassword = await hashPassword(password);
+      const user = await storage.acceptInvitation(invitation.id, {
+        username,
+        name,
+        email: invitation.email,
+        password: hashedPassword,
+        accountId: invitation.accountId,
+        role: invitation.role,
+      });
+      // Another request accepted the invitation first
+      if (!user) {
+        return res.status(400).json({ message: "Invalid or expired invitation", code: "INVALID_TOKEN" });
+      }
+
+      // Auto-login after accepting the invitation
+      req.login(user, (err) => {
+        if (err) {
+          return next(err);
+        }
+        
+        // Save session explicitly
+        req.session.save((err) => {
+          if (err) {
+            return next(err);
+          }
+          
+          // Return user data (without password)
+          const { password, ...userWithoutPassword } = user;
+          res.status(201).json(userWithoutPassword);
+        });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   /**
    * User login endpoint with enhanced debugging
    */
@@ -0,0 +1,186 @@
+import { storage } from "./storage";
+import { buildTemplateComponents, getMessagingGateway, GatewayError, type SendCampaignResult } from "./messaging";
+import type { Campaign, MessageTemplate } from "@shared/schema";
+
+// Statuses from which a campaign may be (re)launched
+export const LAUNCHABLE_CAMPAIGN_STATUSES = ["draft", "scheduled", "failed"];
+
+// Why a campaign can't be sent with its cached template, or null if it can
+export function templateProblem(template: MessageTemplate | undefined): string | null {
+  if (!template) return "The campaign's template no longer exists. Sync your templates or choose another one.";
+  if (template.status !== "APPROVED") {
+    return `Template "${template.name}" is ${template.status.toLowerCase()}; only approved templates can be sent`;
+  }
+  return null;
+}
+
+/**
+ * Error raised when a campaign cannot be launched.
+ * `status` and `code` are what the launch route sends back to the client;
+ * `launchStarted` tells whether the campaign had already been claimed.
+ */
+export class CampaignLaunchError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public details?: Record<string, any>,
+    public launchStarted = false
+  ) {
+    super(message);
+    this.name = "CampaignLaunchError";
+  }
+}
+
+// Check that a campaign can be sent and resolve what it is sent with and to
+async function prepareLaunch(campaign: Campaign) {
+  // Get campaign settings and the gateway they select
+  const settings = await storage.getSettings(campaign.accountId);
+  const gateway = getMessagingGateway(settings?.messagingGateway);
+  const missing = settings ? gateway.missingSettings(settings) : ["messaging settings"];
+  if (!settings || missing.length > 0) {
+    throw new CampaignLaunchError(
+      `Campaign settings are incomplete. Please configure ${missing.join(", ")} in settings.`,
+      400,
+      "SETTINGS_MISSING"
+    );
+  }
+
+  // Meta rejects unapproved templates, and its approval can be withdrawn after the campaign was saved
+  const template = await storage.getMessageTemplateByExternalId(campaign.accountId, campaign.template);
+  const problem = templateProblem(template);
+  if (problem) {
+    throw new CampaignLaunchError(problem, 400, "TEMPLATE_NOT_APPROVED");
+  }
+
+  // Resolve the campaign's audience as it stands right now
+  let contacts;
+  if (campaign.segmentId) {
+    const segment = await storage.getSegmentById(campaign.segmentId);
+    if (!segment || segment.accountId !== campaign.accountId) {
+      throw new CampaignLaunchError("The segment this campaign targets no longer exists", 400, "SEGMENT_NOT_FOUND");
+    }
+    contacts = await storage.getSegmentContacts(campaign.accountId, segment.rules);
+  } else if (campaign.contactLabel) {
+    contacts = await storage.getContacts(campaign.accountId, { label: campaign.contactLabel });
+  } else {
+    contacts = await storage.getContacts(campaign.accountId);
+  }
+
+  // Narrow the audience by tag: keep contacts with any included tag, drop those with any excluded one
+  const includeTagIds = campaign.includeTagIds || [];
+  const excludeTagIds = campaign.excludeTagIds || [];
+  if (includeTagIds.length > 0 || excludeTagIds.length > 0) {
+    const contactTags = await storage.getContactTags(campaign.accountId);
+    const tagsByContact = new Map<number, number[]>();
+    for (const { contactId, tagId } of contactTags) {
+      tagsByContact.set(contactId, [...(tagsByContact.get(contactId) || []), tagId]);
+    }
+    contacts = contacts.filter(contact => {
+      const contactTagIds = tagsByContact.get(contact.id) || [];
+      if (includeTagIds.length > 0 && !contactTagIds.some(id => includeTagIds.includes(id))) return false;
+      return !contactTagIds.some(id => excludeTagIds.includes(id));
+    });
+  }
+
+  if (contacts.length === 0) {
+    throw new CampaignLaunchError("No contacts found for this campaign", 400, "NO_CONTACTS");
+  }
+
+  // Never message contacts who asked to stop
+  contacts = contacts.filter(contact => !contact.optedOut);
+  if (contacts.length === 0) {
+    throw new CampaignLaunchError("Every contact for this campaign has opted out", 400, "NO_CONTACTS");
+  }
+
+  return { settings, gateway, template, contacts };
+}
+
+/**
+ * Send a campaign through the account's messaging gateway and mark it active.
+ * The campaign is first claimed by moving it from one of `fromStatuses` to
+ * "launching" in a single update, so a campaign is never sent twice even if
+ * the scheduler and a manual launch race, or the server restarts mid-launch.
+ * Everything sent is read from the claimed row, so an edit saved just before
+ * the launch is never lost; a campaign that can't be sent is marked failed.
+ */
+export async function launchCampaign(campaign: Campaign, fromStatuses: string[]): Promise<SendCampaignResult> {
+  const claimed = await storage.claimCampaignForLaunch(campaign.id, fromStatuses);
+  if (!claimed) {
+    throw new CampaignLaunchError("Campaign has already been launched or is being launched", 409, "ALREADY_LAUNCHED");
+  }
+
+  let prepared: Awaited<ReturnType<typeof prepareLaunch>>;
+  try {
+    prepared = await prepareLaunch(claimed);
+  } catch (error) {
+    await storage.markCampaignLaunchFailed(claimed.id, (error as Error).message);
+    if (error instanceof CampaignLaunchError) error.launchStarted = true;
+    throw error;
+  }
+  const { settings, gateway, template, contacts } = prepared;
+
+  let result: SendCampaignResult;
+  try {
+    result = await gateway.sendCampaign({
+      campaign: claimed,
+      settings,
+      template,
+      recipients: contacts.map(contact => ({
+        contactId: contact.id,
+        mobile: contact.mobile,
+        name: contact.name,
+        components: buildTemplateComponents(claimed.templateVariables, contact)
+      }))
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    await storage.markCampaignLaunchFailed(claimed.id, message);
+    if (error instanceof GatewayError) {
+      throw new CampaignLaunchError(message, error.status, "GATEWAY_ERROR", error.details, true);
+    }
+    throw new CampaignLaunchError(message, 500, "GATEWAY_ERROR", undefined, true);
+  }
+
+  // Record what happened to each recipient; gateways that only acknowledge
+  // the batch report every recipient as sent
+  const sentAt = new Date();
+  const outcomes = new Map((result.recipients || []).map(outcome => [outcome.contactId, outcome]));
+  const messages = contacts.map(contact => {
+    const outcome = outcomes.get(contact.id);
+    const failed = !!outcome?.error;
+    return {
+      campaignId: claimed.id,
+      contactId: contact.id,
+      accountId: claimed.accountId,
+      mobile: contact.mobile,
+      status: failed ? "failed" : "sent",
+      providerMessageId: outcome?.providerMessageId || null,
+      errorCode: outcome?.errorCode || null,
+      errorMessage: outcome?.error || null,
+      sentAt: failed ? null : sentAt,
+      failedAt: failed ? sentAt : null
+    };
+  });
+
+  try {
+    await storage.replaceCampaignMessages(claimed.id, messages);
+  } catch (error) {
+    // The messages are already out, so still mark the campaign active below
+    console.error(`Failed to record messages for campaign ${claimed.id}:`, error);
+  }
+
+  // Update campaign status in database
+  const success = await storage.launchCampaign(claimed.id);
+  if (!success) {
+    throw new CampaignLaunchError(
+      "Campaign was sent but failed to update local database",
+      500,
+      "DATABASE_UPDATE_FAILED",
+      { result },
+      true
+    );
+  }
+
+  return result;
+}
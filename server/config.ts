@@ -87,9 +87,37 @@ export const API_CONFIG = {
   campaign: {
     apiKey: process.env.CAMPAIGN_API_KEY,
     apiUrl: process.env.CAMPAIGN_API_URL || "https://8x83b7rn4f.execute-api.ap-south-1.amazonaws.com/qa/campaign"
+  },
+  // WhatsApp Cloud API (Facebook Graph) settings
+  whatsapp: {
+    graphApiUrl: process.env.WHATSAPP_GRAPH_API_URL || "https://graph.facebook.com/v22.0",
+    defaultLanguage: process.env.WHATSAPP_TEMPLATE_LANGUAGE || "en_US",
+    // Webhook subscription: token echoed during Meta's verification handshake
+    // and app secret used to sign X-Hub-Signature-256
+    webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN,
+    appSecret: process.env.WHATSAPP_APP_SECRET
   }
 };
 
+// Campaign scheduler configuration
+export const SCHEDULER_CONFIG = {
+  enabled: process.env.CAMPAIGN_SCHEDULER_ENABLED !== 'false',
+  pollIntervalMs: parseInt(process.env.CAMPAIGN_SCHEDULER_INTERVAL_MS || '30000', 10)
+};
+
+// Template sync configuration
+export const TEMPLATE_SYNC_CONFIG = {
+  enabled: process.env.TEMPLATE_SYNC_ENABLED !== 'false',
+  intervalMs: parseInt(process.env.TEMPLATE_SYNC_INTERVAL_MS || '900000', 10)
+};
+
+// Trash configuration (how long deleted contacts and campaigns are kept before being purged)
+export const TRASH_CONFIG = {
+  purgeEnabled: process.env.TRASH_PURGE_ENABLED !== 'false',
+  retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  purgeIntervalMs: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10)
+};
+
 // Server configuration
 export const SERVER_CONFIG = {
   port: parseInt(process.env.PORT || '5000', 10),
@@ -0,0 +1,118 @@
+import { normalizeMobile, type Contact, type DuplicateReason } from "@shared/schema";
+
+// Names shorter than this, once normalized, are too common to match on their own
+const MIN_NAME_LENGTH = 4;
+
+type DuplicateCandidate = Pick<Contact, "id" | "name" | "mobile" | "createdAt">;
+
+/**
+ * Reduce a name to what identifies it: lower case, no accents or
+ * punctuation, and words in alphabetical order so "Smith, John" and
+ * "John Smith" read the same.
+ */
+export function nameKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+// Levenshtein distance between two strings, giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Longer names may differ by more typos and still be the same name
+const allowedDistance = (key: string) => (key.length >= 10 ? 2 : 1);
+
+/**
+ * Group an account's contacts into likely duplicates: contacts whose
+ * mobiles normalize to the same number, or whose names match once case,
+ * accents and word order are ignored, allowing for a typo or two. Names
+ * are only compared with names starting with the same two letters, which
+ * keeps the scan fast on large accounts. Contacts in a group are oldest
+ * first; groups are ordered by their oldest contact.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate>(
+  contacts: T[],
+  defaultCountry?: string | null
+): { reasons: DuplicateReason[]; contacts: T[] }[] {
+  // Union-find over contact positions, remembering why contacts were joined
+  const parent = contacts.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const links: { a: number; b: number; reason: DuplicateReason }[] = [];
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    links.push({ a, b, reason });
+    parent[find(a)] = find(b);
+  };
+
+  const byMobile = new Map<string, number>();
+  const byName = new Map<string, number>();
+  contacts.forEach((contact, i) => {
+    const normalized = normalizeMobile(contact.mobile, defaultCountry);
+    const mobile = "mobile" in normalized ? normalized.mobile : contact.mobile.trim();
+    const sameMobile = byMobile.get(mobile);
+    if (sameMobile === undefined) byMobile.set(mobile, i);
+    else link(sameMobile, i, "mobile");
+
+    const key = nameKey(contact.name);
+    if (key.length < MIN_NAME_LENGTH) return;
+    const sameName = byName.get(key);
+    if (sameName === undefined) byName.set(key, i);
+    else link(sameName, i, "name");
+  });
+
+  // Near-identical names, compared within blocks of names sharing their first two letters
+  const blocks = new Map<string, string[]>();
+  for (const key of Array.from(byName.keys())) {
+    const block = blocks.get(key.slice(0, 2));
+    if (block) block.push(key);
+    else blocks.set(key.slice(0, 2), [key]);
+  }
+  for (const keys of Array.from(blocks.values())) {
+    keys.sort((a, b) => a.length - b.length);
+    for (let i = 0; i < keys.length; i++) {
+      const max = allowedDistance(keys[i]);
+      for (let j = i + 1; j < keys.length && keys[j].length - keys[i].length <= max; j++) {
+        if (editDistance(keys[i], keys[j], max) <= max) {
+          link(byName.get(keys[i])!, byName.get(keys[j])!, "name");
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, { reasons: Set<DuplicateReason>; members: T[] }>();
+  contacts.forEach((contact, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? { reasons: new Set<DuplicateReason>(), members: [] };
+    group.members.push(contact);
+    groups.set(root, group);
+  });
+  for (const { a, reason } of links) groups.get(find(a))!.reasons.add(reason);
+
+  const byAge = (a: T, b: T) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+  return Array.from(groups.values())
+    .filter(group => group.members.length > 1)
+    .map(group => ({ reasons: Array.from(group.reasons).sort(), contacts: group.members.sort(byAge) }))
+    .sort((a, b) => byAge(a.contacts[0], b.contacts[0]));
+}
@@ -0,0 +1,134 @@
+import type { Response } from "express";
+import { stringify } from "csv-stringify/sync";
+import ExcelJS from "exceljs";
+import { storage, type ContactExportRow, type ContactFilters } from "./storage";
+import { IMPORT_CONTACT_FIELD_LABELS, type ContactExportFormat, type CustomField } from "@shared/schema";
+
+// Contacts read from the database per step of an export
+const EXPORT_BATCH_SIZE = 1000;
+
+interface ExportColumn {
+  header: string;
+  value: (contact: ContactExportRow) => string | Date | null;
+  isDate?: boolean;
+}
+
+// Export columns; the contact field columns are named so the file can be imported again
+function exportColumns(fields: CustomField[]): ExportColumn[] {
+  return [
+    { header: IMPORT_CONTACT_FIELD_LABELS.name, value: (contact) => contact.name },
+    { header: IMPORT_CONTACT_FIELD_LABELS.mobile, value: (contact) => contact.mobile },
+    { header: IMPORT_CONTACT_FIELD_LABELS.location, value: (contact) => contact.location },
+    { header: IMPORT_CONTACT_FIELD_LABELS.label, value: (contact) => contact.label },
+    { header: IMPORT_CONTACT_FIELD_LABELS.tags, value: (contact) => contact.tags.join("; ") },
+    ...fields.map((field) => ({
+      header: escapeFormula(field.name),
+      value: (contact: ContactExportRow) => {
+        const value = contact.customFields?.[field.key];
+        return value === undefined || value === null ? null : String(value);
+      },
+    })),
+    { header: "Opted Out", value: (contact) => (contact.optedOut ? "Yes" : "No") },
+    { header: "Opted Out At", value: (contact) => contact.optedOutAt, isDate: true },
+    { header: "Last Messaged", value: (contact) => contact.lastMessagedAt, isDate: true },
+    { header: "Created", value: (contact) => contact.createdAt, isDate: true },
+  ];
+}
+
+/**
+ * Spreadsheet apps may run a cell starting with =, +, - or @ (or a tab or
+ * carriage return) as a formula, so such text gets a leading apostrophe
+ * and is shown as written. Plain numbers such as +15551234567 are left
+ * alone: they can't run anything, and the file must import again.
+ */
+function escapeFormula(value: string): string {
+  if (!/^[=+\-@\t\r]/.test(value) || /^[+-]?[\d\s().-]+$/.test(value)) return value;
+  return `'${value}`;
+}
+
+// A column's value as written to a cell; dates stay dates
+function cellValue(column: ExportColumn, contact: ContactExportRow): string | Date | null {
+  const value = column.value(contact);
+  return typeof value === "string" ? escapeFormula(value) : value;
+}
+
+// Wait until the response can take more data, or the client has gone away
+function drained(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+// Every contact matching the filters, a batch at a time in ID order
+async function* exportBatches(accountId: number, filters: ContactFilters) {
+  let afterId = 0;
+  while (true) {
+    const batch = await storage.getContactExportBatch(accountId, filters, afterId, EXPORT_BATCH_SIZE);
+    if (batch.length > 0) yield batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    afterId = batch[batch.length - 1].id;
+  }
+}
+
+/**
+ * Stream an account's contacts matching `filters` to the response as a CSV
+ * or XLSX download. Contacts are read a batch at a time and each batch is
+ * written before the next is read, pausing while the client catches up, so
+ * exports of any size use little memory. Once the download has started an
+ * error can only end the response early, so callers should check
+ * `res.headersSent` before reporting one.
+ */
+export async function streamContactExport(
+  res: Response,
+  accountId: number,
+  filters: ContactFilters,
+  format: ContactExportFormat
+): Promise<void> {
+  const columns = exportColumns(await storage.getCustomFields(accountId));
+  const filename = `contacts_${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Disposition", `attachment; filename=${filename}`);
+
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    // A byte order mark, so Excel reads the file as UTF-8
+    res.write("\ufeff" + stringify([columns.map((column) => column.header)]));
+    for await (const batch of exportBatches(accountId, filters)) {
+      if (res.destroyed) return;
+      const rows = batch.map((contact) =>
+        columns.map((column) => {
+          const value = cellValue(column, contact);
+          return value instanceof Date ? value.toISOString() : value ?? "";
+        })
+      );
+      if (!res.write(stringify(rows))) await drained(res);
+    }
+    res.end();
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const sheet = workbook.addWorksheet("Contacts");
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: Math.max(column.header.length + 2, 14),
+    style: column.isDate ? { numFmt: "yyyy-mm-dd hh:mm" } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+  for await (const batch of exportBatches(accountId, filters)) {
+    if (res.destroyed) return;
+    for (const contact of batch) {
+      sheet.addRow(columns.map((column) => cellValue(column, contact))).commit();
+    }
+    if (res.writableNeedDrain) await drained(res);
+  }
+  sheet.commit();
+  await workbook.commit();
+}
@@ -0,0 +1,217 @@
+import fs from "fs";
+import path from "path";
+import { parse } from "csv-parse";
+import ExcelJS from "exceljs";
+
+export interface ImportFile {
+  columns: string[];
+  records: Record<string, string>[];
+  // Worksheets of a spreadsheet, and the one the records were read from
+  sheets?: string[];
+  sheet?: string;
+}
+
+// Columns of a file read from vCards; named so they map to contact fields on their own
+const VCARD_COLUMNS = ["Name", "Mobile", "Email", "Organization", "Location", "Tags"];
+
+// What the import wizard shows of a file before it is imported
+export interface ImportPreview {
+  columns: string[];
+  rows: Record<string, string>[];
+  totalRows: number;
+  sheets?: string[];
+  sheet?: string;
+}
+
+function csvParser(filePath: string, onHeader?: (columns: string[]) => void) {
+  return fs.createReadStream(filePath).pipe(parse({
+    bom: true,
+    skip_empty_lines: true,
+    columns: (header: string[]) => {
+      onHeader?.(header);
+      return header;
+    },
+  }));
+}
+
+/**
+ * Read the header and first rows of a CSV file and count the rest. The file
+ * is streamed, so only `previewRows` records are ever held in memory.
+ */
+export async function readCsvPreview(filePath: string, previewRows: number): Promise<ImportPreview> {
+  let columns: string[] = [];
+  const rows: Record<string, string>[] = [];
+  let totalRows = 0;
+
+  for await (const record of csvParser(filePath, (header) => (columns = header))) {
+    if (rows.length < previewRows) rows.push(record);
+    totalRows++;
+  }
+  return { columns, rows, totalRows };
+}
+
+/**
+ * Read the first worksheet of an .xlsx file, or the one named `sheetName`.
+ * The first non-empty row is the header row; headerless columns are named
+ * "Column N". Dates become YYYY-MM-DD and formulas their last result.
+ */
+export async function readXlsxFile(filePath: string, sheetName?: string): Promise<ImportFile> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  const sheets = workbook.worksheets.map(worksheet => worksheet.name);
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(sheetName ? `The workbook has no sheet named "${sheetName}"` : "The workbook has no sheets");
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow((row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      cells[columnNumber - 1] = cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text.trim();
+    });
+    if (cells.some(Boolean)) rows.push(cells);
+  });
+
+  const [header = [], ...body] = rows;
+  const width = Math.max(header.length, ...body.map(cells => cells.length));
+  const columns = Array.from({ length: width }, (_, i) => header[i] || `Column ${i + 1}`);
+  const records = body.map(cells =>
+    Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]))
+  );
+
+  return { columns, records, sheets, sheet: worksheet.name };
+}
+
+// Undo vCard escaping of newlines, commas, semicolons and backslashes
+function unescapeVcardValue(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+// vCard 2.1 cards from older phones may be quoted-printable encoded
+function decodeQuotedPrintable(value: string): string {
+  const bytes = value.replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, "latin1").toString("utf8");
+}
+
+/**
+ * Read a .vcf file with one or more vCards (versions 2.1 to 4.0) into one
+ * record per card. A mobile-typed number is preferred over other numbers,
+ * and cards without any number are still returned so they can be reported.
+ */
+export async function readVcfFile(filePath: string): Promise<ImportFile> {
+  const text = await fs.promises.readFile(filePath, "utf8");
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const records: Record<string, string>[] = [];
+  let card: { fn?: string; n?: string; cell?: string; tel?: string; email?: string; org?: string; adr?: string; categories?: string } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const [property, ...params] = line.slice(0, separator).split(";");
+    // Properties may be grouped, e.g. "item1.TEL"
+    const name = property.split(".").pop()!.toUpperCase();
+    const paramText = params.join(";").toUpperCase();
+    let value = line.slice(separator + 1);
+    if (paramText.includes("QUOTED-PRINTABLE")) {
+      // A trailing "=" is a soft line break
+      while (value.endsWith("=") && i + 1 < lines.length) value = value.slice(0, -1) + lines[++i];
+      value = decodeQuotedPrintable(value);
+    }
+
+    if (name === "BEGIN" && value.toUpperCase() === "VCARD") {
+      card = {};
+    } else if (name === "END" && card) {
+      const given = card.n ? card.n.split(";").map(part => unescapeVcardValue(part).trim()) : [];
+      records.push({
+        Name: card.fn || [given[1], given[0]].filter(Boolean).join(" "),
+        Mobile: card.cell || card.tel || "",
+        Email: card.email || "",
+        Organization: card.org || "",
+        Location: card.adr || "",
+        Tags: card.categories || "",
+      });
+      card = null;
+    } else if (card) {
+      switch (name) {
+        case "FN":
+          card.fn = unescapeVcardValue(value).trim();
+          break;
+        case "N":
+          card.n = value;
+          break;
+        case "TEL":
+          if (/CELL|MOBILE/.test(paramText)) card.cell ??= value.trim();
+          else card.tel ??= value.trim();
+          break;
+        case "EMAIL":
+          card.email ??= value.trim();
+          break;
+        case "ORG":
+          card.org ??= unescapeVcardValue(value.split(";")[0]).trim();
+          break;
+        case "ADR": {
+          // PO box;extended;street;city;region;postal code;country
+          const parts = value.split(";").map(part => unescapeVcardValue(part).trim());
+          card.adr ??= parts[3] || parts[4] || parts[6] || "";
+          break;
+        }
+        case "CATEGORIES":
+          card.categories = unescapeVcardValue(value).split(",").map(tag => tag.trim()).filter(Boolean).join(";");
+          break;
+      }
+    }
+  }
+
+  return { columns: VCARD_COLUMNS, records };
+}
+
+// Spreadsheets and vCards are read whole; CSV files, which get the largest, are streamed
+function readWholeFile(filePath: string, originalName: string, options: { sheet?: string }): Promise<ImportFile> {
+  switch (path.extname(originalName).toLowerCase()) {
+    case ".xlsx":
+      return readXlsxFile(filePath, options.sheet);
+    case ".vcf":
+    case ".vcard":
+      return readVcfFile(filePath);
+    default:
+      return Promise.reject(new Error("Unsupported file type; upload a .csv, .xlsx or .vcf file"));
+  }
+}
+
+const isCsv = (originalName: string) => path.extname(originalName).toLowerCase() === ".csv";
+
+/**
+ * Preview an uploaded import file of any supported type, chosen by its
+ * extension: CSV, Excel (.xlsx) or vCard (.vcf). Rejects when the file
+ * can't be read.
+ */
+export async function readImportPreview(
+  filePath: string,
+  originalName: string,
+  options: { sheet?: string } = {},
+  previewRows = 20
+): Promise<ImportPreview> {
+  if (isCsv(originalName)) return readCsvPreview(filePath, previewRows);
+
+  const { records, ...file } = await readWholeFile(filePath, originalName, options);
+  return { ...file, rows: records.slice(0, previewRows), totalRows: records.length };
+}
+
+// Every record of an uploaded import file, in file order
+export async function* readImportRecords(
+  filePath: string,
+  originalName: string,
+  options: { sheet?: string } = {}
+): AsyncGenerator<Record<string, string>> {
+  if (isCsv(originalName)) {
+    yield* csvParser(filePath);
+    return;
+  }
+  yield* (await readWholeFile(filePath, originalName, options)).records;
+}
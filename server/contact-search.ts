@@ -0,0 +1,125 @@
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import { contacts, contactTags, tags, foldSearchText, type Contact } from "@shared/schema";
+import { editDistance } from "./contact-duplicates";
+import { log } from "./vite";
+
+// Whether the trigram index and its functions exist; until then search falls back to ILIKE
+let searchIndexReady = false;
+
+/**
+ * Set up indexed contact search: the pg_trgm and unaccent extensions, an
+ * immutable function that folds a contact's searchable text (name, mobile,
+ * location, label and custom field values) to lower case without accents,
+ * and a trigram index over it. drizzle can't declare expression indexes,
+ * so this runs at startup. Tag names live in another table, so they are
+ * searched alongside the index rather than through it. Creating extensions
+ * may need a superuser; if it fails, search still works, just unindexed
+ * and without typo tolerance.
+ */
+export async function ensureContactSearchIndex(): Promise<void> {
+  try {
+    await db.execute(sql`create extension if not exists pg_trgm`);
+    await db.execute(sql`create extension if not exists unaccent`);
+    await db.execute(sql.raw(`
+      create or replace function contact_search_fold(value text) returns text
+      language sql immutable parallel safe as
+      $$ select lower(public.unaccent('public.unaccent'::regdictionary, coalesce(value, ''))) $$
+    `));
+    await db.execute(sql.raw(`
+      create or replace function contact_search_text(name text, mobile text, location text, label text, custom_fields jsonb) returns text
+      language sql immutable parallel safe as
+      $$ select contact_search_fold(concat_ws(' ', name, mobile, location, label,
+           (select string_agg(value, ' ') from jsonb_each_text(coalesce(custom_fields, '{}'::jsonb))))) $$
+    `));
+    await db.execute(sql.raw(`
+      create index if not exists contacts_search_trgm_idx on contacts
+      using gin (contact_search_text(name, mobile, location, label, custom_fields) gin_trgm_ops)
+    `));
+    searchIndexReady = true;
+    log("contact search index ready", "search");
+  } catch (error) {
+    console.error("Failed to set up the contact search index; falling back to unindexed search:", error);
+  }
+}
+
+// Phone numbers are searched by their digits, so "98400 12345" finds "+919840012345"
+function searchTerm(search: string): string {
+  const term = search.trim();
+  return /^[\d\s\-().+]+$/.test(term) ? term.replace(/\D/g, "") : term;
+}
+
+// Escape LIKE wildcards so they match themselves
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+const searchDocument = sql`contact_search_text(${contacts.name}, ${contacts.mobile}, ${contacts.location}, ${contacts.label}, ${contacts.customFields})`;
+
+// Whether folded text contains the folded search term
+const containsTerm = (text: SQL, term: string) => sql`${text} like '%' || contact_search_fold(${escapeLike(term)}) || '%'`;
+
+// Whether one of the contact's tags has a name matching `condition`, written against the tag's name
+function tagNameMatches(condition: (name: SQL) => SQL): SQL {
+  return sql`exists (select 1 from ${contactTags} inner join ${tags} on ${tags.id} = ${contactTags.tagId}
+    where ${contactTags.contactId} = ${contacts.id} and ${condition(sql`${tags.name}`)})`;
+}
+
+/**
+ * The condition for contacts matching a search, ignoring case and accents:
+ * the text appears anywhere in the contact, or one of its words is close
+ * to it (pg_trgm word similarity), which forgives small typos.
+ */
+export function contactSearchCondition(search: string): SQL {
+  const term = searchTerm(search);
+  if (!searchIndexReady) {
+    const pattern = `%${escapeLike(term)}%`;
+    return sql`(${contacts.name} ilike ${pattern} or ${contacts.mobile} ilike ${pattern}
+      or ${contacts.location} ilike ${pattern} or ${contacts.label} ilike ${pattern}
+      or ${contacts.customFields}::text ilike ${pattern}
+      or ${tagNameMatches(name => sql`${name} ilike ${pattern}`)})`;
+  }
+  const query = sql`contact_search_fold(${term})`;
+  return sql`(${containsTerm(searchDocument, term)} or ${query} <% ${searchDocument}
+    or ${tagNameMatches(name => sql`(${containsTerm(sql`contact_search_fold(${name})`, term)} or ${query} <% contact_search_fold(${name}))`)})`;
+}
+
+// How well a contact matches a search, highest first: text containing the search outranks a near match
+export function contactSearchRank(search: string): SQL {
+  const term = searchTerm(search);
+  if (!searchIndexReady) {
+    return sql`(case when ${contacts.name} ilike ${`${escapeLike(term)}%`} then 1 else 0 end)`;
+  }
+  const query = sql`contact_search_fold(${term})`;
+  const tagContains = tagNameMatches(name => containsTerm(sql`contact_search_fold(${name})`, term));
+  return sql`((case when ${containsTerm(searchDocument, term)} or ${tagContains} then 1 else 0 end)
+    + word_similarity(${query}, ${searchDocument}))`;
+}
+
+// The in-memory equivalent of contact_search_text, along with the contact's tag names
+function contactSearchText(contact: Contact, tagNames: string[]): string {
+  return foldSearchText([
+    contact.name,
+    contact.mobile,
+    contact.location,
+    contact.label,
+    ...Object.values(contact.customFields || {}).map(String),
+    ...tagNames,
+  ].filter(Boolean).join(" "));
+}
+
+/**
+ * Score a contact against a search in memory, roughly as the database
+ * does: 2 when the text appears in the contact, 1 when each word of the
+ * search is within a typo of one of its words, 0 when it doesn't match.
+ */
+export function scoreContactSearch(contact: Contact, search: string, tagNames: string[] = []): number {
+  const term = foldSearchText(searchTerm(search));
+  if (!term) return 2;
+  const text = contactSearchText(contact, tagNames);
+  if (text.includes(term)) return 2;
+
+  const words = text.split(/\s+/);
+  const nearMatch = term.split(/\s+/).every(queryWord =>
+    queryWord.length >= 4 && words.some(word => editDistance(queryWord, word, 1) <= 1)
+  );
+  return nearMatch ? 1 : 0;
+}
@@ -145,4 +145,79 @@ export async function sendPasswordResetEmail(
     html,
     text,
   });
-}
\ No newline at end of file
+}
+
+// Escape text for use in an HTML email body
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Sends a team invitation email with a link to join an account
+ * @param to Recipient email address
+ * @param inviterName Name of the user who sent the invitation
+ * @param accountName Name of the account the recipient is invited to
+ * @param roleLabel Human-readable role the recipient will be given
+ * @param inviteToken Invitation token to include in the link
+ * @param baseUrl Base URL of the application
+ * @returns Promise resolving to boolean indicating success
+ */
+export async function sendInvitationEmail(
+  to: string,
+  inviterName: string,
+  accountName: string,
+  roleLabel: string,
+  inviteToken: string,
+  baseUrl: string
+): Promise<boolean> {
+  const inviteLink = `${baseUrl}/accept-invite?token=${inviteToken}`;
+  
+  const subject = `You've been invited to join ${accountName} on CampaignHub`;
+  
+  // The names are chosen by users, so keep them from adding markup or links
+  const safeAccountName = escapeHtml(accountName);
+  const safeInviterName = escapeHtml(inviterName);
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #333; text-align: center;">Join ${safeAccountName}</h2>
+      <p>Hello,</p>
+      <p>${safeInviterName} has invited you to join <strong>${safeAccountName}</strong> on CampaignHub as a <strong>${escapeHtml(roleLabel)}</strong>. Click the button below to create your login:</p>
+      <div style="text-align: center; margin: 25px 0;">
+        <a href="${inviteLink}" style="background-color: #4f46e5; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; font-weight: bold;">Accept Invitation</a>
+      </div>
+      <p>If you weren't expecting this invitation, you can ignore this email. The link will expire in 7 days.</p>
+      <p>If the button above doesn't work, copy and paste this URL into your browser:</p>
+      <p style="word-break: break-all; color: #666;">${inviteLink}</p>
+      <hr style="margin: 20px 0; border: none; border-top: 1px solid #eee;" />
+      <p style="color: #888; font-size: 12px; text-align: center;">CampaignHub - Marketing Campaign Management</p>
+    </div>
+  `;
+  
+  const text = `
+    Join ${accountName}
+    
+    Hello,
+    
+    ${inviterName} has invited you to join ${accountName} on CampaignHub as a ${roleLabel}. Visit the link below to create your login:
+    
+    ${inviteLink}
+    
+    If you weren't expecting this invitation, you can ignore this email. The link will expire in 7 days.
+    
+    CampaignHub - Marketing Campaign Management
+  `;
+  
+  return sendEmail({
+    to,
+    from: SES_SENDER || 'noreply@campaignhub.com',
+    subject,
+    html,
+    text,
+  });
+}
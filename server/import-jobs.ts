@@ -0,0 +1,137 @@
+import fs from "fs";
+import path from "path";
+import { stringify } from "csv-stringify/sync";
+import { storage, type ContactImport } from "./storage";
+import { readImportRecords } from "./contact-import";
+import { mapImportRow, type CustomField, type ImportJob } from "@shared/schema";
+import { log } from "./vite";
+
+// Rows validated and written per step; progress is saved with each
+export const IMPORT_JOB_BATCH_SIZE = 500;
+
+// Where the CSV reports of rejected rows are kept
+const ERROR_REPORT_DIR = path.join("uploads", "import-errors");
+
+// Jobs this process is running, so a job is never run twice at once
+const activeJobs = new Set<number>();
+
+interface BatchRow {
+  row: number; // Line in the file, counting the header as line 1
+  record: Record<string, string>;
+}
+
+// Append rejected rows to the job's error report, starting the file with a header row
+async function appendErrorReport(job: ImportJob, rejected: (BatchRow & { errors: string[] })[]): Promise<string> {
+  const reportPath = job.errorReportPath ?? path.join(ERROR_REPORT_DIR, `import-${job.id}.csv`);
+  const columns = Object.keys(rejected[0].record);
+  const lines = rejected.map(({ row, record, errors }) => [row, ...columns.map(column => record[column] ?? ""), errors.join("; ")]);
+
+  await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+  const exists = fs.existsSync(reportPath);
+  await fs.promises.appendFile(reportPath, stringify(exists ? lines : [["Row", ...columns, "Errors"], ...lines]));
+  return reportPath;
+}
+
+async function importBatch(job: ImportJob, batch: BatchRow[], fields: CustomField[], defaultCountry?: string): Promise<ImportJob> {
+  const contacts: ContactImport[] = [];
+  const rejected: (BatchRow & { errors: string[] })[] = [];
+
+  for (const item of batch) {
+    const result = mapImportRow(item.record, job.mapping, fields, defaultCountry);
+    if (result.contact) {
+      contacts.push({ ...result.contact, accountId: job.accountId });
+    } else {
+      rejected.push({ ...item, errors: result.errors });
+    }
+  }
+
+  // Rejected rows are reported first; a batch retried after a restart may list them again
+  const errorReportPath = rejected.length > 0 ? await appendErrorReport(job, rejected) : job.errorReportPath;
+  const progress = ({ imported, duplicates }: { imported: number, duplicates: number }): Partial<ImportJob> => ({
+    processedRows: job.processedRows + batch.length,
+    imported: job.imported + imported,
+    duplicates: job.duplicates + duplicates,
+    skipped: job.skipped + rejected.length,
+    errorReportPath
+  });
+
+  const result = await storage.importContacts(contacts, job.deduplicate, { jobId: job.id, progress });
+  return { ...job, ...progress(result) };
+}
+
+/**
+ * Import a job's file in batches, saving progress with each one. A job
+ * interrupted by a restart picks up after the last saved batch, so rows
+ * are never imported twice.
+ */
+async function runImportJob(jobId: number): Promise<void> {
+  let job = await storage.getImportJobById(jobId);
+  if (!job || job.status === "completed" || job.status === "failed") return;
+
+  if (!fs.existsSync(job.filePath)) {
+    await storage.updateImportJob(job.id, {
+      status: "failed",
+      error: "The uploaded file is no longer available. Upload it again.",
+      completedAt: new Date()
+    });
+    return;
+  }
+
+  const fields = await storage.getCustomFields(job.accountId);
+  const defaultCountry = (await storage.getAccount(job.accountId))?.defaultCountry;
+  job = (await storage.updateImportJob(job.id, { status: "running", startedAt: job.startedAt ?? new Date() }))!;
+
+  const resumeAfter = job.processedRows;
+  let batch: BatchRow[] = [];
+  let index = 0;
+  for await (const record of readImportRecords(job.filePath, job.fileName, { sheet: job.sheet ?? undefined })) {
+    index++;
+    if (index <= resumeAfter) continue;
+
+    batch.push({ row: index + 1, record });
+    if (batch.length === IMPORT_JOB_BATCH_SIZE) {
+      job = await importBatch(job, batch, fields, defaultCountry);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    job = await importBatch(job, batch, fields, defaultCountry);
+  }
+
+  await storage.updateImportJob(job.id, { status: "completed", totalRows: index, completedAt: new Date() });
+  await fs.promises.unlink(job.filePath).catch(() => {});
+  log(`import job ${job.id} imported ${job.imported} of ${index} rows`, "import");
+}
+
+/**
+ * Run an import job in the background. Failures are recorded on the job
+ * rather than thrown, since nobody is waiting on the result.
+ */
+export function startImportJob(jobId: number): void {
+  if (activeJobs.has(jobId)) return;
+  activeJobs.add(jobId);
+
+  runImportJob(jobId)
+    .catch(async (error) => {
+      console.error(`Import job ${jobId} failed:`, error);
+      await storage.updateImportJob(jobId, {
+        status: "failed",
+        error: (error as Error).message,
+        completedAt: new Date()
+      }).catch(() => {});
+    })
+    .finally(() => activeJobs.delete(jobId));
+}
+
+// Pick up jobs that were queued or running when the server stopped
+export async function resumeImportJobs(): Promise<void> {
+  try {
+    const pending = await storage.getImportJobsByStatus(["queued", "running"]);
+    for (const job of pending) {
+      log(`resuming import job ${job.id}`, "import");
+      startImportJob(job.id);
+    }
+  } catch (error) {
+    console.error("Failed to resume import jobs:", error);
+  }
+}
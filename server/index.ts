@@ -6,6 +6,17 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import cors from "cors";
 import { SERVER_CONFIG } from "./config";
+import { startCampaignScheduler } from "./scheduler";
+import { startTemplateSync } from "./template-sync";
+import { resumeImportJobs } from "./import-jobs";
+import { ensureContactSearchIndex } from "./contact-search";
+import { startTrashPurge } from "./trash-purge";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
 
@@ -23,7 +34,12 @@ app.use(cors({
 }));
 
 // Body parsers
-app.use(express.json());
+// Keep the raw JSON body around so webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Add headers that ensure proper cookie handling
@@ -89,5 +105,16 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${SERVER_CONFIG.port}`);
+
+    // Start sending scheduled campaigns once the server is up
+    startCampaignScheduler();
+    // Keep the template cache fresh in the background
+    startTemplateSync();
+    // Finish contact imports that a restart interrupted
+    resumeImportJobs();
+    // Index contact search; until it's ready, searches run unindexed
+    ensureContactSearchIndex();
+    // Empty expired items from the trash
+    startTrashPurge();
   });
 })();
@@ -0,0 +1,71 @@
+import { API_CONFIG } from "../config";
+import { GatewayError, type MessagingGateway, type SendCampaignRequest, type SendCampaignResult } from "./gateway";
+import type { Settings } from "@shared/schema";
+
+/**
+ * Hands the whole campaign to the hosted campaign API, which fans the
+ * messages out itself. The API only acknowledges the batch, so no
+ * per-recipient results are available.
+ */
+export const campaignApiGateway: MessagingGateway = {
+  name: "campaign_api",
+
+  missingSettings(settings: Settings) {
+    const missing: string[] = [];
+    if (!settings.partnerMobile) missing.push("Partner Mobile");
+    if (!settings.wabaId) missing.push("WABA ID");
+    if (!settings.campaignApiKey) missing.push("Campaign API Key");
+    return missing;
+  },
+
+  async sendCampaign({ campaign, settings, recipients }: SendCampaignRequest): Promise<SendCampaignResult> {
+    // Get campaign API URL from environment config
+    const apiUrl = API_CONFIG.campaign.apiUrl;
+    console.log(`Using campaign API URL: ${apiUrl}`);
+
+    // Prepare request to campaign API
+    const requestData = {
+      campaignName: campaign.name,
+      campaignId: campaign.id.toString(),
+      templateName: campaign.template,
+      partnerMobile: settings.partnerMobile,
+      data: recipients.map(recipient => [recipient.mobile, recipient.name]),
+      WABAID: settings.wabaId,
+      // Per-recipient template parameters, in the same order as `data`
+      ...(campaign.templateVariables?.length && {
+        templateComponents: recipients.map(recipient => recipient.components)
+      })
+    };
+
+    console.log("Sending campaign to API:", JSON.stringify(requestData, null, 2));
+
+    let apiResponse: Response;
+    let apiResult: any;
+    try {
+      apiResponse = await fetch(apiUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": settings.campaignApiKey!
+        },
+        body: JSON.stringify(requestData)
+      });
+
+      apiResult = await apiResponse.json();
+    } catch (apiError) {
+      console.error("Campaign API call failed:", apiError);
+      throw new GatewayError("Failed to connect to campaign API", 500, { error: (apiError as Error).message });
+    }
+
+    if (!apiResponse.ok) {
+      console.error("Campaign API error:", apiResult);
+      throw new GatewayError("Campaign API error", apiResponse.status, { apiError: apiResult });
+    }
+
+    return {
+      accepted: recipients.length,
+      failed: 0,
+      providerResponse: apiResult
+    };
+  }
+};
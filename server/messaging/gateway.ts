@@ -0,0 +1,59 @@
+import type { Campaign, MessageTemplate, Settings } from "@shared/schema";
+import type { TemplateComponentParameters } from "./template-variables";
+
+// A contact a campaign message is addressed to
+export interface CampaignRecipient {
+  contactId: number;
+  mobile: string;
+  name: string;
+  // Template parameters resolved for this contact; empty when the template has no variables
+  components: TemplateComponentParameters[];
+}
+
+export interface SendCampaignRequest {
+  campaign: Campaign;
+  settings: Settings;
+  recipients: CampaignRecipient[];
+  // The account's cached copy of the campaign's template, when it has one
+  template?: MessageTemplate;
+}
+
+// Outcome for a single recipient, when the provider reports one
+export interface RecipientResult {
+  contactId: number;
+  mobile: string;
+  providerMessageId?: string;
+  errorCode?: string;
+  error?: string;
+}
+
+export interface SendCampaignResult {
+  accepted: number;
+  failed: number;
+  recipients?: RecipientResult[];
+  providerResponse?: any;
+}
+
+/**
+ * A provider that can deliver a campaign's template message to its recipients.
+ * Implementations throw GatewayError when the provider rejects the campaign as a whole.
+ */
+export interface MessagingGateway {
+  readonly name: string;
+
+  // Names of the settings this gateway needs that are not filled in
+  missingSettings(settings: Settings): string[];
+
+  sendCampaign(request: SendCampaignRequest): Promise<SendCampaignResult>;
+}
+
+export class GatewayError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = "GatewayError";
+  }
+}
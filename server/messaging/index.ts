@@ -0,0 +1,19 @@
+import type { MessagingGatewayName } from "@shared/schema";
+import type { MessagingGateway } from "./gateway";
+import { campaignApiGateway } from "./campaign-api-gateway";
+import { whatsappCloudGateway } from "./whatsapp-cloud-gateway";
+import { mockGateway } from "./mock-gateway";
+
+export * from "./gateway";
+export * from "./template-variables";
+
+const gateways: Record<MessagingGatewayName, MessagingGateway> = {
+  campaign_api: campaignApiGateway,
+  whatsapp_cloud: whatsappCloudGateway,
+  mock: mockGateway,
+};
+
+// Look up the gateway an account has selected, defaulting to the campaign API
+export function getMessagingGateway(name: string | null | undefined): MessagingGateway {
+  return gateways[name as MessagingGatewayName] ?? campaignApiGateway;
+}
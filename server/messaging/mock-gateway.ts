@@ -0,0 +1,27 @@
+import type { MessagingGateway, SendCampaignRequest, SendCampaignResult } from "./gateway";
+
+/**
+ * Pretends every message was accepted without contacting any provider.
+ * Useful for local development and automated tests.
+ */
+export const mockGateway: MessagingGateway = {
+  name: "mock",
+
+  missingSettings() {
+    return [];
+  },
+
+  async sendCampaign({ campaign, recipients }: SendCampaignRequest): Promise<SendCampaignResult> {
+    console.log(`[mock gateway] Sending campaign ${campaign.id} (${campaign.template}) to ${recipients.length} recipients`);
+
+    return {
+      accepted: recipients.length,
+      failed: 0,
+      recipients: recipients.map(recipient => ({
+        contactId: recipient.contactId,
+        mobile: recipient.mobile,
+        providerMessageId: `mock-${campaign.id}-${recipient.contactId}`
+      }))
+    };
+  }
+};
@@ -0,0 +1,73 @@
+import { storage } from "../storage";
+import { DEFAULT_OPT_IN_KEYWORDS, DEFAULT_OPT_OUT_KEYWORDS, type Settings } from "@shared/schema";
+
+// An inbound message from a contact, reduced to what keyword handling needs
+export interface InboundMessage {
+  id: string;
+  from: string;
+  text: string;
+}
+
+// Turn a comma-separated keyword setting into a normalized list, falling back to the defaults
+export function parseKeywords(value: string | null | undefined, defaults: string[]): string[] {
+  const keywords = (value || "")
+    .split(",")
+    .map(normalizeText)
+    .filter(Boolean);
+  return keywords.length > 0 ? keywords : defaults;
+}
+
+// Upper-case, collapse whitespace and drop trailing punctuation so "stop." matches "STOP"
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").replace(/[.!]+$/, "").toUpperCase();
+}
+
+/**
+ * Opt the sender of an inbound message out of (or back into) campaigns when
+ * the whole message is one of the account's keywords. Every contact in the
+ * account with that number is updated, and each change is written to the
+ * opt-out audit trail. Returns the number of contacts whose state changed.
+ */
+export async function applyOptOutKeywords(settings: Settings, message: InboundMessage): Promise<number> {
+  const text = normalizeText(message.text);
+  const optOutKeywords = parseKeywords(settings.optOutKeywords, DEFAULT_OPT_OUT_KEYWORDS);
+  const optInKeywords = parseKeywords(settings.optInKeywords, DEFAULT_OPT_IN_KEYWORDS);
+
+  let optedOut: boolean;
+  if (optOutKeywords.includes(text)) {
+    optedOut = true;
+  } else if (optInKeywords.includes(text)) {
+    optedOut = false;
+  } else {
+    return 0;
+  }
+
+  let changed = 0;
+  // Trashed contacts too, so an opt-out still holds if they are restored
+  const contacts = await storage.findContactsByMobile(settings.accountId, message.from, true);
+  for (const contact of contacts) {
+    if (contact.optedOut === optedOut) continue;
+
+    await storage.setContactOptOut(contact.id, {
+      contactId: contact.id,
+      accountId: settings.accountId,
+      optedOut,
+      source: "keyword",
+      keyword: text,
+      message: message.text,
+      providerMessageId: message.id
+    });
+    changed++;
+
+    // Attribute the opt-out to the last campaign this contact received
+    if (optedOut) {
+      const campaignMessage = await storage.getLatestCampaignMessageForContact(contact.id);
+      if (campaignMessage && campaignMessage.status !== "failed") {
+        await storage.updateCampaignMessage(campaignMessage.id, { status: "optout" });
+        await storage.refreshCampaignAnalytics(campaignMessage.campaignId);
+      }
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,104 @@
+import { contactFieldValue, type Contact, type TemplateVariable } from "@shared/schema";
+
+// A {{n}} placeholder found in a message template, with Meta's sample value when the template has one
+export interface TemplatePlaceholder {
+  component: TemplateVariable["component"];
+  buttonIndex?: number;
+  index: number;
+  example?: string;
+}
+
+// Parameters for one template component, in the shape the Graph API /messages call expects
+export interface TemplateComponentParameters {
+  type: TemplateVariable["component"];
+  sub_type?: "url";
+  index?: string;
+  parameters: { type: "text"; text: string }[];
+}
+
+// Distinct placeholder numbers in a piece of template text, in ascending order
+function placeholderIndexes(text: string | undefined): number[] {
+  const indexes = new Set<number>();
+  for (const match of Array.from((text || "").matchAll(/\{\{\s*(\d+)\s*\}\}/g))) {
+    indexes.add(parseInt(match[1], 10));
+  }
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+/**
+ * List the variables of a template from the `components` array the Graph API
+ * returns. Text headers, the body and dynamic URL buttons can hold variables;
+ * media headers and other button types cannot.
+ */
+export function parseTemplatePlaceholders(components: any[] | undefined): TemplatePlaceholder[] {
+  const placeholders: TemplatePlaceholder[] = [];
+
+  for (const component of components ?? []) {
+    switch (component?.type) {
+      case "HEADER":
+        if (component.format !== "TEXT") break;
+        for (const index of placeholderIndexes(component.text)) {
+          placeholders.push({ component: "header", index, example: component.example?.header_text?.[index - 1] });
+        }
+        break;
+      case "BODY":
+        for (const index of placeholderIndexes(component.text)) {
+          placeholders.push({ component: "body", index, example: component.example?.body_text?.[0]?.[index - 1] });
+        }
+        break;
+      case "BUTTONS":
+        (component.buttons ?? []).forEach((button: any, buttonIndex: number) => {
+          if (button?.type !== "URL") return;
+          for (const index of placeholderIndexes(button.url)) {
+            placeholders.push({ component: "button", buttonIndex, index, example: button.example?.[index - 1] });
+          }
+        });
+        break;
+    }
+  }
+
+  return placeholders;
+}
+
+// The text a variable resolves to for one contact
+function resolveVariable(variable: TemplateVariable, contact: Contact): string {
+  if (variable.source === "static") {
+    return variable.value || "";
+  }
+
+  const fieldValue = contactFieldValue(contact, variable.field);
+  const text = fieldValue === null || fieldValue === undefined ? "" : String(fieldValue).trim();
+  // WhatsApp rejects empty parameters, so fall back when the contact has no value
+  return text || variable.value || "-";
+}
+
+/**
+ * Build the template parameters for one recipient from a campaign's variable
+ * mapping. Parameters are positional, so each component's values are ordered
+ * by placeholder number.
+ */
+export function buildTemplateComponents(variables: TemplateVariable[] | null | undefined, contact: Contact): TemplateComponentParameters[] {
+  const groups = new Map<string, { component: TemplateComponentParameters; variables: TemplateVariable[] }>();
+
+  for (const variable of variables ?? []) {
+    const key = variable.component === "button" ? `button:${variable.buttonIndex}` : variable.component;
+    let group = groups.get(key);
+    if (!group) {
+      const component: TemplateComponentParameters = { type: variable.component, parameters: [] };
+      if (variable.component === "button") {
+        component.sub_type = "url";
+        component.index = String(variable.buttonIndex ?? 0);
+      }
+      group = { component, variables: [] };
+      groups.set(key, group);
+    }
+    group.variables.push(variable);
+  }
+
+  return Array.from(groups.values()).map(({ component, variables }) => ({
+    ...component,
+    parameters: variables
+      .sort((a, b) => a.index - b.index)
+      .map(variable => ({ type: "text" as const, text: resolveVariable(variable, contact) }))
+  }));
+}
@@ -0,0 +1,240 @@
+import { API_CONFIG } from "../config";
+import {
+  countTemplatePlaceholders,
+  type InsertMessageTemplate,
+  type MessageTemplate,
+  type Settings,
+  type TemplateDraft
+} from "@shared/schema";
+import { GatewayError } from "./gateway";
+import { parseTemplatePlaceholders, type TemplatePlaceholder } from "./template-variables";
+
+// How many parameters each part of a template takes
+export interface TemplateParameterCounts {
+  header: number;
+  body: number;
+  buttons: number;
+}
+
+// A message template as returned by /api/templates
+export interface MessageTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  category: string | null;
+  language: string | null;
+  status: string; // APPROVED, PENDING, REJECTED, PAUSED or DISABLED
+  rejectedReason: string | null;
+  components: any[];
+  placeholders: TemplatePlaceholder[];
+  parameterCounts: TemplateParameterCounts;
+}
+
+export function countTemplateParameters(placeholders: TemplatePlaceholder[]): TemplateParameterCounts {
+  return {
+    header: placeholders.filter(placeholder => placeholder.component === "header").length,
+    body: placeholders.filter(placeholder => placeholder.component === "body").length,
+    buttons: placeholders.filter(placeholder => placeholder.component === "button").length,
+  };
+}
+
+// Reduce a template from the Graph API message_templates response to what the app uses
+export function summarizeGraphTemplate(template: any): MessageTemplateSummary {
+  const components = Array.isArray(template.components) ? template.components : [];
+  const placeholders = parseTemplatePlaceholders(components);
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.category || "Marketing template",
+    category: template.category ?? null,
+    language: template.language ?? null,
+    // Older WABA URLs may not request the status field; those templates were always usable
+    status: template.status || "APPROVED",
+    rejectedReason: template.rejected_reason && template.rejected_reason !== "NONE" ? template.rejected_reason : null,
+    components,
+    placeholders,
+    parameterCounts: countTemplateParameters(placeholders),
+  };
+}
+
+// Present a cached template in the same shape as one fresh from the Graph API
+export function summarizeCachedTemplate(template: MessageTemplate): MessageTemplateSummary {
+  return summarizeGraphTemplate({
+    id: template.externalId,
+    name: template.name,
+    category: template.category,
+    language: template.language,
+    status: template.status,
+    rejected_reason: template.rejectedReason,
+    components: template.components
+  });
+}
+
+// The cache row for a template of an account
+export function toCachedTemplate(accountId: number, template: MessageTemplateSummary): InsertMessageTemplate {
+  return {
+    accountId,
+    externalId: template.id,
+    name: template.name,
+    category: template.category,
+    language: template.language,
+    status: template.status,
+    rejectedReason: template.rejectedReason,
+    components: template.components
+  };
+}
+
+// Names of the settings needed to manage an account's templates that are not filled in
+export function missingTemplateSettings(settings: Settings | undefined): string[] {
+  const missing: string[] = [];
+  if (!settings?.wabaApiUrl && !settings?.wabaId) missing.push("WhatsApp Business API URL or WABA ID");
+  if (!settings?.facebookAccessToken) missing.push("Facebook Access Token");
+  return missing;
+}
+
+// The WABA message_templates endpoint; the configured URL may carry a query string for listing
+function messageTemplatesUrl(settings: Settings): string {
+  if (settings.wabaApiUrl) {
+    return settings.wabaApiUrl.split("?")[0];
+  }
+  return `${API_CONFIG.whatsapp.graphApiUrl}/${settings.wabaId}/message_templates`;
+}
+
+// Call the Graph API and turn error responses into a GatewayError carrying Meta's message
+async function graphRequest(settings: Settings, url: string, init: RequestInit = {}): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: {
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        "Authorization": `Bearer ${settings.facebookAccessToken}`
+      }
+    });
+  } catch (error) {
+    throw new GatewayError("Failed to connect to the Graph API", 502, { error: (error as Error).message });
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new GatewayError(
+      body?.error?.error_user_msg || body?.error?.message || `Graph API returned ${response.status}`,
+      response.status === 401 ? 401 : response.status >= 500 ? 502 : 400,
+      { apiError: body?.error ?? body }
+    );
+  }
+  return body;
+}
+
+// Upper bound on pages followed in one listing, in case the API keeps returning a next link
+const MAX_TEMPLATE_PAGES = 50;
+
+// List every message template of the account, following the paging.next cursor
+export async function fetchTemplates(settings: Settings): Promise<MessageTemplateSummary[]> {
+  const templates: MessageTemplateSummary[] = [];
+  let url: string | undefined = settings.wabaApiUrl || messageTemplatesUrl(settings);
+
+  for (let page = 0; url && page < MAX_TEMPLATE_PAGES; page++) {
+    const body = await graphRequest(settings, url);
+    templates.push(...(body?.data ?? []).map(summarizeGraphTemplate));
+    url = body?.paging?.next;
+  }
+
+  return templates;
+}
+
+// Fetch a single template, typically to check whether Meta has reviewed it yet
+export async function fetchTemplate(settings: Settings, templateId: string): Promise<MessageTemplateSummary> {
+  const fields = "id,name,category,language,status,rejected_reason,components";
+  const body = await graphRequest(
+    settings,
+    `${API_CONFIG.whatsapp.graphApiUrl}/${encodeURIComponent(templateId)}?fields=${fields}`
+  );
+  return summarizeGraphTemplate(body);
+}
+
+// Translate a draft into the components array the message_templates endpoint expects
+export function draftToGraphComponents(draft: TemplateDraft): any[] {
+  const components: any[] = [];
+
+  if (draft.headerText?.trim()) {
+    components.push({
+      type: "HEADER",
+      format: "TEXT",
+      text: draft.headerText,
+      ...(countTemplatePlaceholders(draft.headerText) > 0 && {
+        example: { header_text: [draft.headerExample] }
+      })
+    });
+  }
+
+  const bodyVariables = countTemplatePlaceholders(draft.bodyText);
+  components.push({
+    type: "BODY",
+    text: draft.bodyText,
+    ...(bodyVariables > 0 && {
+      example: { body_text: [draft.bodyExamples.slice(0, bodyVariables)] }
+    })
+  });
+
+  if (draft.footerText?.trim()) {
+    components.push({ type: "FOOTER", text: draft.footerText });
+  }
+
+  if (draft.buttons.length > 0) {
+    components.push({
+      type: "BUTTONS",
+      buttons: draft.buttons.map(button => {
+        switch (button.type) {
+          case "URL":
+            return {
+              type: "URL",
+              text: button.text,
+              url: button.url,
+              ...(countTemplatePlaceholders(button.url) > 0 && { example: [button.example] })
+            };
+          case "PHONE_NUMBER":
+            return { type: "PHONE_NUMBER", text: button.text, phone_number: button.phoneNumber };
+          default:
+            return { type: "QUICK_REPLY", text: button.text };
+        }
+      })
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Submit a new template for review. Meta answers with the template ID and
+ * its initial status, which is usually PENDING.
+ */
+export async function submitTemplate(settings: Settings, draft: TemplateDraft): Promise<MessageTemplateSummary> {
+  const components = draftToGraphComponents(draft);
+  const body = await graphRequest(settings, messageTemplatesUrl(settings), {
+    method: "POST",
+    body: JSON.stringify({
+      name: draft.name,
+      category: draft.category,
+      language: draft.language,
+      components
+    })
+  });
+
+  return summarizeGraphTemplate({
+    id: body.id,
+    name: draft.name,
+    category: body.category || draft.category,
+    language: draft.language,
+    status: body.status || "PENDING",
+    components
+  });
+}
+
+// Delete a template; passing its ID removes only that language version
+export async function deleteTemplate(settings: Settings, name: string, templateId?: string): Promise<void> {
+  const params = new URLSearchParams({ name });
+  if (templateId) params.append("hsm_id", templateId);
+  await graphRequest(settings, `${messageTemplatesUrl(settings)}?${params.toString()}`, { method: "DELETE" });
+}
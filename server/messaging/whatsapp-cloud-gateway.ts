@@ -0,0 +1,102 @@
+import { API_CONFIG } from "../config";
+import {
+  GatewayError,
+  type MessagingGateway,
+  type RecipientResult,
+  type SendCampaignRequest,
+  type SendCampaignResult
+} from "./gateway";
+import type { Settings } from "@shared/schema";
+
+/**
+ * Sends template messages directly through the WhatsApp Cloud API,
+ * one Graph API /messages call per recipient.
+ */
+export const whatsappCloudGateway: MessagingGateway = {
+  name: "whatsapp_cloud",
+
+  missingSettings(settings: Settings) {
+    const missing: string[] = [];
+    if (!settings.facebookAccessToken) missing.push("Facebook Access Token");
+    if (!settings.phoneNumberId) missing.push("Phone Number ID");
+    return missing;
+  },
+
+  async sendCampaign({ campaign, settings, recipients, template }: SendCampaignRequest): Promise<SendCampaignResult> {
+    // Campaigns store the template's ID; the Graph API wants its name and language
+    if (!template) {
+      throw new GatewayError(
+        `Template ${campaign.template} is not among the account's templates. Refresh the templates and try again.`,
+        400
+      );
+    }
+
+    const messagesUrl = `${API_CONFIG.whatsapp.graphApiUrl}/${settings.phoneNumberId}/messages`;
+    const results: RecipientResult[] = [];
+
+    for (const recipient of recipients) {
+      try {
+        const response = await fetch(messagesUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${settings.facebookAccessToken}`
+          },
+          body: JSON.stringify({
+            messaging_product: "whatsapp",
+            recipient_type: "individual",
+            to: recipient.mobile,
+            type: "template",
+            template: {
+              name: template.name,
+              language: { code: template.language || API_CONFIG.whatsapp.defaultLanguage },
+              ...(recipient.components.length > 0 && { components: recipient.components })
+            }
+          })
+        });
+
+        const body = await response.json();
+
+        if (!response.ok) {
+          // An invalid token fails every message the same way, so stop early
+          if (response.status === 401) {
+            throw new GatewayError("WhatsApp Cloud API rejected the access token", 401, { apiError: body });
+          }
+          results.push({
+            contactId: recipient.contactId,
+            mobile: recipient.mobile,
+            errorCode: body?.error?.code?.toString(),
+            error: body?.error?.message || `Graph API returned ${response.status}`
+          });
+          continue;
+        }
+
+        results.push({
+          contactId: recipient.contactId,
+          mobile: recipient.mobile,
+          providerMessageId: body?.messages?.[0]?.id
+        });
+      } catch (error) {
+        if (error instanceof GatewayError) throw error;
+        results.push({
+          contactId: recipient.contactId,
+          mobile: recipient.mobile,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    const failed = results.filter(result => result.error).length;
+    if (failed === recipients.length) {
+      throw new GatewayError("WhatsApp Cloud API rejected every message", 502, {
+        firstError: results[0]?.error
+      });
+    }
+
+    return {
+      accepted: recipients.length - failed,
+      failed,
+      recipients: results
+    };
+  }
+};
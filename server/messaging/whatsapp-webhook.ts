@@ -0,0 +1,183 @@
+import crypto from "crypto";
+import { storage, type CampaignMessageUpdate } from "../storage";
+import type { CampaignMessage } from "@shared/schema";
+import { applyOptOutKeywords, type InboundMessage } from "./opt-out";
+
+// A message status callback as delivered inside a WhatsApp Cloud API webhook
+export interface WhatsAppStatusEvent {
+  id: string;
+  status: string;
+  timestamp: string;
+  recipient_id: string;
+  errors?: { code: number; title?: string; message?: string }[];
+}
+
+export interface WebhookProcessingResult {
+  processed: number;
+  ignored: number;
+}
+
+// How far along the delivery pipeline each status is; updates never move a message backwards
+const STATUS_RANK: Record<string, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+/**
+ * Check the X-Hub-Signature-256 header Meta sends with every webhook call.
+ * The signature is an HMAC-SHA256 of the raw request body keyed with the app secret.
+ */
+export function verifyWebhookSignature(rawBody: Buffer, signatureHeader: string | undefined, appSecret: string): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = crypto.createHmac("sha256", appSecret).update(rawBody).digest();
+  const received = Buffer.from(signatureHeader.slice("sha256=".length), "hex");
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Pull the message status events out of a webhook payload, keeping the
+ * phone number ID of the business number each one belongs to.
+ */
+export function extractStatusEvents(payload: any): { phoneNumberId?: string; event: WhatsAppStatusEvent }[] {
+  if (payload?.object !== "whatsapp_business_account" || !Array.isArray(payload.entry)) {
+    return [];
+  }
+
+  const events: { phoneNumberId?: string; event: WhatsAppStatusEvent }[] = [];
+  for (const entry of payload.entry) {
+    for (const change of entry?.changes ?? []) {
+      if (change?.field !== "messages") continue;
+
+      const phoneNumberId = change.value?.metadata?.phone_number_id;
+      for (const event of change.value?.statuses ?? []) {
+        events.push({ phoneNumberId, event });
+      }
+    }
+  }
+  return events;
+}
+
+/**
+ * Pull the text of inbound messages out of a webhook payload. Quick-reply
+ * button presses are included since templates often offer a "Stop" button.
+ */
+export function extractInboundMessages(payload: any): { phoneNumberId?: string; message: InboundMessage }[] {
+  if (payload?.object !== "whatsapp_business_account" || !Array.isArray(payload.entry)) {
+    return [];
+  }
+
+  const messages: { phoneNumberId?: string; message: InboundMessage }[] = [];
+  for (const entry of payload.entry) {
+    for (const change of entry?.changes ?? []) {
+      if (change?.field !== "messages") continue;
+
+      const phoneNumberId = change.value?.metadata?.phone_number_id;
+      for (const message of change.value?.messages ?? []) {
+        const text = message.text?.body ?? message.button?.text ?? message.interactive?.button_reply?.title;
+        if (typeof text !== "string") continue;
+
+        messages.push({ phoneNumberId, message: { id: message.id, from: message.from, text } });
+      }
+    }
+  }
+  return messages;
+}
+
+// Work out how a status event changes a message, or null if it should be ignored
+function statusUpdate(message: CampaignMessage, event: WhatsAppStatusEvent): CampaignMessageUpdate | null {
+  const at = new Date(parseInt(event.timestamp, 10) * 1000);
+
+  if (event.status === "failed") {
+    // A message that already reached the handset cannot fail afterwards
+    if ((STATUS_RANK[message.status] ?? Infinity) > STATUS_RANK.sent) return null;
+
+    const error = event.errors?.[0];
+    return {
+      status: "failed",
+      failedAt: at,
+      errorCode: error?.code?.toString() ?? null,
+      errorMessage: error?.message || error?.title || "Message failed",
+    };
+  }
+
+  const rank = STATUS_RANK[event.status];
+  if (rank === undefined || rank <= (STATUS_RANK[message.status] ?? Infinity)) return null;
+
+  const update: CampaignMessageUpdate = { status: event.status };
+  if (event.status === "sent") update.sentAt = at;
+  if (event.status === "delivered") update.deliveredAt = at;
+  if (event.status === "read") {
+    update.readAt = at;
+    // Read receipts can arrive without a separate delivered event
+    update.deliveredAt = message.deliveredAt ?? at;
+  }
+  return update;
+}
+
+// Find the campaign message a status event refers to
+async function findMessage(phoneNumberId: string | undefined, event: WhatsAppStatusEvent): Promise<CampaignMessage | undefined> {
+  const message = await storage.getCampaignMessageByProviderId(event.id);
+  if (message || !phoneNumberId) return message;
+
+  // Gateways that send in bulk do not report message IDs, so fall back to the
+  // latest unmatched message to this recipient from the same business number
+  const settings = await storage.getSettingsByPhoneNumberId(phoneNumberId);
+  if (!settings) return undefined;
+
+  const unmatched = await storage.findUnmatchedCampaignMessage(settings.accountId, event.recipient_id);
+  if (unmatched) {
+    await storage.updateCampaignMessage(unmatched.id, { providerMessageId: event.id });
+    return { ...unmatched, providerMessageId: event.id };
+  }
+  return undefined;
+}
+
+/**
+ * Apply every status event in a webhook payload to the matching campaign
+ * messages, recompute the analytics of each campaign that changed, and
+ * handle opt-out keywords in inbound messages.
+ */
+export async function processWebhookPayload(payload: any): Promise<WebhookProcessingResult> {
+  const result: WebhookProcessingResult = { processed: 0, ignored: 0 };
+  const touchedCampaigns = new Set<number>();
+
+  for (const { phoneNumberId, event } of extractStatusEvents(payload)) {
+    const message = await findMessage(phoneNumberId, event);
+    if (!message) {
+      result.ignored++;
+      continue;
+    }
+
+    const update = statusUpdate(message, event);
+    if (!update) {
+      result.ignored++;
+      continue;
+    }
+
+    await storage.updateCampaignMessage(message.id, update);
+    touchedCampaigns.add(message.campaignId);
+    result.processed++;
+  }
+
+  // Inbound replies only matter when they are opt-out or opt-in keywords
+  for (const { phoneNumberId, message } of extractInboundMessages(payload)) {
+    const settings = phoneNumberId ? await storage.getSettingsByPhoneNumberId(phoneNumberId) : undefined;
+    if (!settings || (await applyOptOutKeywords(settings, message)) === 0) {
+      result.ignored++;
+      continue;
+    }
+    result.processed++;
+  }
+
+  for (const campaignId of Array.from(touchedCampaigns)) {
+    await storage.refreshCampaignAnalytics(campaignId);
+  }
+
+  return result;
+}
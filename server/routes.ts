@@ -1,17 +1,75 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type ContactCursor, type ContactFilters } from "./storage";
 import { setupAuth } from "./auth";
-import { contactValidationSchema, campaignValidationSchema } from "@shared/schema";
+import { 
+  contactValidationSchema, 
+  normalizeMobile,
+  campaignValidationSchema, 
+  accountValidationSchema, 
+  roleValidationSchema,
+  invitationValidationSchema,
+  settingsValidationSchema,
+  segmentValidationSchema,
+  tagValidationSchema,
+  customFieldValidationSchema,
+  customFieldKey,
+  parseCustomFieldValue,
+  CUSTOM_FIELD_VARIABLE_PREFIX,
+  type ContactCustomFields,
+  type CustomField,
+  type TemplateVariable,
+  type ImportJob,
+  contactBulkSchema,
+  contactBatchDeleteSchema,
+  trashItemsSchema,
+  type TrashContents,
+  type TrashItems,
+  type TrashRestoreResult,
+  type ContactBulkResult,
+  contactMergeSchema,
+  CONTACT_SORT_COLUMNS,
+  type ContactSort,
+  CONTACT_EXPORT_FORMATS,
+  type ContactExportFormat,
+  type ContactSortColumn,
+  type DuplicateContactGroup,
+  contactImportMappingSchema,
+  suggestImportMapping,
+  isSegmentGroup,
+  type ContactTag,
+  type SegmentGroup,
+  templateDraftSchema,
+  hasPermission,
+  ROLE_LABELS,
+  type Invitation,
+  type UserRole,
+  type Permission
+} from "@shared/schema";
 import multer from "multer";
-import { parse } from "csv-parse";
 import fs from "fs";
 import crypto from 'crypto';
 import * as path from "path";
-import { sendPasswordResetEmail, sendEmail } from "./email";
+import { sendPasswordResetEmail, sendEmail, sendInvitationEmail } from "./email";
 import { scrypt, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { API_CONFIG } from "./config";
+import { SERVER_CONFIG, API_CONFIG, TRASH_CONFIG } from "./config";
+import { verifyWebhookSignature, processWebhookPayload } from "./messaging/whatsapp-webhook";
+import { GatewayError } from "./messaging";
+import {
+  deleteTemplate,
+  fetchTemplate,
+  missingTemplateSettings,
+  submitTemplate,
+  summarizeCachedTemplate,
+  toCachedTemplate
+} from "./messaging/templates";
+import { syncAccountTemplates } from "./template-sync";
+import { readImportPreview, type ImportPreview } from "./contact-import";
+import { startImportJob } from "./import-jobs";
+import { findDuplicateGroups } from "./contact-duplicates";
+import { streamContactExport } from "./contact-export";
+import { launchCampaign, templateProblem, CampaignLaunchError, LAUNCHABLE_CAMPAIGN_STATUSES } from "./campaign-launcher";
 
 // Ensure uploads directory exists
 const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -22,6 +80,171 @@ if (!fs.existsSync(uploadsDir)) {
 // Set up file upload
 const upload = multer({ dest: 'uploads/' });
 
+// Rows of an import file shown in the mapping preview
+const IMPORT_PREVIEW_ROWS = 20;
+
+// Strip the secret token before an invitation is returned to the client
+function sanitizeInvitation({ token, ...invitation }: Invitation) {
+  return invitation;
+}
+
+// Campaign dates arrive as ISO strings; an empty value clears the schedule
+function parseScheduledFor(value: string | null | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+// Campaigns referenced by "has received campaign" rules anywhere in a segment
+function segmentCampaignIds(group: SegmentGroup): number[] {
+  return group.rules.flatMap(rule => {
+    if (isSegmentGroup(rule)) return segmentCampaignIds(rule);
+    return rule.field === "campaign" ? [rule.campaignId] : [];
+  });
+}
+
+// Tags referenced by tag rules anywhere in a segment
+function segmentTagIds(group: SegmentGroup): number[] {
+  return group.rules.flatMap(rule => {
+    if (isSegmentGroup(rule)) return segmentTagIds(rule);
+    return rule.field === "tag" ? rule.tagIds : [];
+  });
+}
+
+// Custom fields referenced by custom field rules anywhere in a segment
+function segmentCustomFieldKeys(group: SegmentGroup): string[] {
+  return group.rules.flatMap(rule => {
+    if (isSegmentGroup(rule)) return segmentCustomFieldKeys(rule);
+    return rule.field === "customField" ? [rule.key] : [];
+  });
+}
+
+// Custom field rule values parsed as their field's type, so they compare with stored values as intended
+function parseSegmentRuleValues(group: SegmentGroup, fields: CustomField[]): { rules: SegmentGroup } | { error: string } {
+  const rules: SegmentGroup["rules"] = [];
+  for (const rule of group.rules) {
+    if (isSegmentGroup(rule)) {
+      const parsed = parseSegmentRuleValues(rule, fields);
+      if ("error" in parsed) return parsed;
+      rules.push(parsed.rules);
+    } else if (rule.field === "customField" && rule.value !== undefined && !["is_set", "is_not_set"].includes(rule.operator)) {
+      const field = fields.find(f => f.key === rule.key);
+      if (!field) return { error: "Segment rules refer to an unknown custom field" };
+      const parsed = parseCustomFieldValue(field, rule.value);
+      if ("error" in parsed) return { error: `${field.name}: ${parsed.error}` };
+      rules.push({ ...rule, value: parsed.value ?? undefined });
+    } else {
+      rules.push(rule);
+    }
+  }
+  return { rules: { ...group, rules } };
+}
+
+// Custom fields a campaign's template variables take their values from
+function variableCustomFieldKeys(variables: TemplateVariable[] | null | undefined): string[] {
+  return (variables || [])
+    .filter(variable => variable.source === "field" && variable.field?.startsWith(CUSTOM_FIELD_VARIABLE_PREFIX))
+    .map(variable => variable.field!.slice(CUSTOM_FIELD_VARIABLE_PREFIX.length));
+}
+
+// Check custom field values against the account's field definitions; empty values are dropped
+function parseCustomFieldValues(values: Record<string, unknown>, fields: CustomField[]) {
+  const parsed: ContactCustomFields = {};
+  const errors: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(values)) {
+    const field = fields.find(f => f.key === key);
+    if (!field) {
+      errors[key] = "Unknown field";
+      continue;
+    }
+    const result = parseCustomFieldValue(field, raw);
+    if ("error" in result) {
+      errors[key] = result.error;
+    } else if (result.value !== null) {
+      parsed[key] = result.value;
+    }
+  }
+  return { values: parsed, errors };
+}
+
+// Contacts per page of the contacts list, unless the client asks for another size
+const DEFAULT_CONTACT_PAGE_SIZE = 25;
+const MAX_CONTACT_PAGE_SIZE = 200;
+
+// Cursors travel as opaque URL-safe text
+function encodeContactCursor(cursor: ContactCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeContactCursor(text: string): ContactCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, "base64url").toString("utf8"));
+    return typeof cursor?.value === "string" && Number.isInteger(cursor?.id) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the contacts list filters from a query string: search, label, tagId,
+ * location, dateRange, ids (comma separated) and custom field filters as
+ * field.<key>=<value>, parsed as the field's type.
+ */
+async function contactFiltersFromQuery(
+  query: Request["query"],
+  accountId: number
+): Promise<{ filters: ContactFilters } | { error: string }> {
+  const customFieldFilters: Record<string, string> = {};
+  const fieldParams = Object.entries(query).filter(([param, value]) => param.startsWith("field.") && typeof value === "string" && value !== "");
+  if (fieldParams.length > 0) {
+    const fields = await storage.getCustomFields(accountId);
+    for (const [param, raw] of fieldParams) {
+      const field = fields.find(f => f.key === param.slice("field.".length));
+      if (!field) {
+        return { error: `Unknown custom field "${param.slice("field.".length)}"` };
+      }
+      const result = parseCustomFieldValue(field, raw as string);
+      if ("error" in result) {
+        return { error: `Invalid filter for ${field.name}: ${result.error}` };
+      }
+      customFieldFilters[field.key] = String(result.value);
+    }
+  }
+  
+  let ids: number[] | undefined;
+  if (typeof query.ids === "string") {
+    ids = query.ids.split(",").filter(Boolean).map(id => parseInt(id));
+    if (ids.some(id => !Number.isInteger(id))) {
+      return { error: "Contact IDs must be numbers" };
+    }
+  }
+  
+  return {
+    filters: {
+      search: query.search as string | undefined,
+      label: query.label as string | undefined,
+      tagId: query.tagId ? parseInt(query.tagId as string) : undefined,
+      customFields: customFieldFilters,
+      location: query.location as string | undefined,
+      dateRange: query.dateRange as string | undefined,
+      ids
+    }
+  };
+}
+
+// Import jobs as sent to the client, without server file paths
+function importJobResponse(job: ImportJob) {
+  const { filePath, errorReportPath, ...rest } = job;
+  return { ...rest, hasErrorReport: !!errorReportPath };
+}
+
+// Group tag assignments by contact so each listed contact can carry its tag IDs
+function tagIdsByContact(assignments: ContactTag[]): Map<number, number[]> {
+  const grouped = new Map<number, number[]>();
+  for (const { contactId, tagId } of assignments) {
+    grouped.set(contactId, [...(grouped.get(contactId) || []), tagId]);
+  }
+  return grouped;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
@@ -54,236 +277,1275 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // Middleware factory to check that the user's role grants a permission
+  // Must be mounted after checkAuth so that req.user is populated
+  const requirePermission = (permission: Permission) => (req: Request, res: Response, next: Function) => {
+    if (!hasPermission(req.user?.role, permission)) {
+      return res.status(403).json({ 
+        message: "Forbidden: Your role does not allow this action",
+        code: "FORBIDDEN" 
+      });
+    }
+    
+    next();
+  };
+
+  // ACCOUNT API
+  app.get("/api/account", checkAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const account = await storage.getAccount(user.accountId);
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      res.json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching account", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/account", checkAuth, requirePermission("account:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      // Validate account data
+      const validatedData = accountValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid account data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const account = await storage.updateAccount(user.accountId, {
+        name: validatedData.data.name.trim(),
+        ...(validatedData.data.defaultCountry && { defaultCountry: validatedData.data.defaultCountry })
+      });
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      res.json(account);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating account", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/account/members", checkAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      const members = await storage.getAccountMembers(user.accountId);
+      
+      // Never expose password hashes or reset tokens of teammates
+      res.json(members.map(({ password, resetToken, resetTokenExpiry, ...member }) => member));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching account members", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/account/members/:id/role", checkAuth, requirePermission("team:manage"), async (req, res) => {
+    try {
+      const memberId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      // Validate role data
+      const validatedData = roleValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid role data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      const { role } = validatedData.data;
+      
+      // Users cannot change their own role, so an account can never lock itself out
+      if (memberId === user.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+      
+      // Check if member exists and belongs to the user's account
+      const member = await storage.getUser(memberId);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (member.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this user" });
+      }
+      
+      // Only owners can grant or revoke ownership
+      if ((role === "owner" || member.role === "owner") && user.role !== "owner") {
+        return res.status(403).json({ 
+          message: "Only an owner can grant or revoke the owner role",
+          code: "FORBIDDEN" 
+        });
+      }
+      
+      const updatedMember = await storage.updateUserRole(memberId, role);
+      if (!updatedMember) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, resetToken, resetTokenExpiry, ...memberWithoutSecrets } = updatedMember;
+      res.json(memberWithoutSecrets);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating role", error: (error as Error).message });
+    }
+  });
+
+  // INVITATIONS API
+  // Email the invitation link, returning whether the email went out
+  const deliverInvitation = async (req: Request, invitation: Invitation): Promise<boolean> => {
+    const user = req.user!;
+    const account = await storage.getAccount(invitation.accountId);
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    
+    return sendInvitationEmail(
+      invitation.email,
+      user.name,
+      account?.name || "CampaignHub",
+      ROLE_LABELS[invitation.role as UserRole] ?? invitation.role,
+      invitation.token,
+      baseUrl
+    );
+  };
+
+  app.get("/api/invitations", checkAuth, requirePermission("team:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const pendingInvitations = await storage.getPendingInvitations(user.accountId);
+      res.json(pendingInvitations.map(sanitizeInvitation));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching invitations", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/invitations", checkAuth, requirePermission("team:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      // Validate invitation data
+      const validatedData = invitationValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid invitation data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      const email = validatedData.data.email.toLowerCase();
+      const { role } = validatedData.data;
+      
+      // Only owners can invite other owners
+      if (role === "owner" && user.role !== "owner") {
+        return res.status(403).json({ 
+          message: "Only an owner can invite another owner",
+          code: "FORBIDDEN" 
+        });
+      }
+      
+      // Check if the email already belongs to a user
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(409).json({ message: "A user with this email already exists" });
+      }
+      
+      // Check if there is already a pending invitation for this email
+      const pendingInvitations = await storage.getPendingInvitations(user.accountId);
+      if (pendingInvitations.some(invitation => invitation.email === email)) {
+        return res.status(409).json({ message: "An invitation has already been sent to this email" });
+      }
+      
+      const invitation = await storage.createInvitation({
+        accountId: user.accountId,
+        email,
+        role,
+        invitedBy: user.id
+      });
+      
+      const emailSent = await deliverInvitation(req, invitation);
+      if (!emailSent) {
+        console.error(`Failed to send invitation email to ${email}`);
+      }
+      
+      res.status(201).json({ ...sanitizeInvitation(invitation), emailSent });
+    } catch (error) {
+      res.status(500).json({ message: "Error creating invitation", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/invitations/:id/resend", checkAuth, requirePermission("team:manage"), async (req, res) => {
+    try {
+      const invitationId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      // Check if invitation exists and belongs to the user's account
+      const invitation = await storage.getInvitationById(invitationId);
+      if (!invitation || invitation.status !== "pending") {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (invitation.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this invitation" });
+      }
+      
+      // Renewing issues a new token and restarts the expiry window
+      const renewedInvitation = await storage.renewInvitation(invitationId);
+      if (!renewedInvitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const emailSent = await deliverInvitation(req, renewedInvitation);
+      if (!emailSent) {
+        return res.status(500).json({ 
+          message: "Failed to send invitation email. Please try again later.",
+          code: "EMAIL_SEND_FAILED"
+        });
+      }
+      
+      res.json({ ...sanitizeInvitation(renewedInvitation), emailSent });
+    } catch (error) {
+      res.status(500).json({ message: "Error resending invitation", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/invitations/:id", checkAuth, requirePermission("team:manage"), async (req, res) => {
+    try {
+      const invitationId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      // Check if invitation exists and belongs to the user's account
+      const invitation = await storage.getInvitationById(invitationId);
+      if (!invitation || invitation.status !== "pending") {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      if (invitation.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this invitation" });
+      }
+      
+      await storage.revokeInvitation(invitationId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error revoking invitation", error: (error as Error).message });
+    }
+  });
+
   // CONTACTS API
-  app.get("/api/contacts", checkAuth, async (req, res) => {
+  // Tag IDs sent by the client must all belong to the user's account
+  const checkTagIds = async (tagIds: number[], accountId: number): Promise<boolean> => {
+    for (const tagId of Array.from(new Set(tagIds))) {
+      const tag = await storage.getTagById(tagId);
+      if (!tag || tag.accountId !== accountId) return false;
+    }
+    return true;
+  };
+
+  app.get("/api/contacts", checkAuth, requirePermission("contacts:view"), async (req, res) => {
     try {
       const user = req.user!;
-      const filters = {
-        search: req.query.search as string | undefined,
-        label: req.query.label as string | undefined,
-        location: req.query.location as string | undefined,
-        dateRange: req.query.dateRange as string | undefined
-      };
+      const parsedFilters = await contactFiltersFromQuery(req.query, user.accountId);
+      if ("error" in parsedFilters) {
+        return res.status(400).json({ message: parsedFilters.error });
+      }
+      const filters = parsedFilters.filters;
+      
+      // Asking for a page or cursor pages the list; otherwise every matching contact is returned
+      if (req.query.page || req.query.pageSize || req.query.cursor) {
+        const sort = (req.query.sort as string | undefined) || "createdAt";
+        if (sort === "relevance") {
+          if (!filters.search?.trim()) {
+            return res.status(400).json({ message: "Sorting by relevance needs a search" });
+          }
+          if (req.query.cursor) {
+            return res.status(400).json({ message: "Results sorted by relevance are paged by page number, not cursor" });
+          }
+        } else if (!CONTACT_SORT_COLUMNS.includes(sort as ContactSortColumn)) {
+          return res.status(400).json({ message: `Unknown sort column "${sort}"` });
+        }
+        const direction = req.query.direction === "asc" || req.query.direction === "desc"
+          ? req.query.direction
+          : sort === "createdAt" ? "desc" : "asc";
+        
+        const cursor = req.query.cursor ? decodeContactCursor(req.query.cursor as string) : undefined;
+        if (cursor === null) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        
+        const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+        const pageSize = Math.min(Math.max(parseInt(req.query.pageSize as string) || DEFAULT_CONTACT_PAGE_SIZE, 1), MAX_CONTACT_PAGE_SIZE);
+        const result = await storage.getContactPage(user.accountId, filters, { page, pageSize, cursor, sort: sort as ContactSort, direction });
+        const tagIds = tagIdsByContact(await storage.getContactTags(user.accountId, result.contacts.map(contact => contact.id)));
+        return res.json({
+          contacts: result.contacts.map(contact => ({ ...contact, tagIds: tagIds.get(contact.id) || [] })),
+          total: result.total,
+          page: cursor ? null : page,
+          pageSize,
+          nextCursor: result.nextCursor ? encodeContactCursor(result.nextCursor) : null
+        });
+      }
       
       const contacts = await storage.getContacts(user.accountId, filters);
-      res.json(contacts);
+      const tagIds = tagIdsByContact(await storage.getContactTags(user.accountId, contacts.map(contact => contact.id)));
+      res.json(contacts.map(contact => ({ ...contact, tagIds: tagIds.get(contact.id) || [] })));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching contacts", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/contacts", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      // Validate contact data
+      const validatedData = contactValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid contact data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const account = await storage.getAccount(user.accountId);
+      const normalized = normalizeMobile(validatedData.data.mobile, account?.defaultCountry);
+      if ("error" in normalized) {
+        return res.status(400).json({ message: normalized.error });
+      }
+      
+      // Check if mobile number already exists
+      const existingContact = await storage.getContactByMobile(normalized.mobile, user.accountId);
+      if (existingContact) {
+        return res.status(400).json({ message: "Contact with this mobile number already exists" });
+      }
+      
+      const { tagIds = [], customFields = {}, ...contactData } = validatedData.data;
+      if (!(await checkTagIds(tagIds, user.accountId))) {
+        return res.status(400).json({ message: "Tag not found" });
+      }
+      
+      const fieldValues = parseCustomFieldValues(customFields, await storage.getCustomFields(user.accountId));
+      if (Object.keys(fieldValues.errors).length > 0) {
+        return res.status(400).json({ message: "Invalid custom field values", errors: fieldValues.errors });
+      }
+      
+      const contact = await storage.createContact({
+        ...contactData,
+        mobile: normalized.mobile,
+        customFields: fieldValues.values,
+        accountId: user.accountId
+      });
+      await storage.setContactTags(contact.id, tagIds);
+      
+      res.status(201).json({ ...contact, tagIds });
+    } catch (error) {
+      res.status(500).json({ message: "Error creating contact", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/contacts/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      // Validate contact data
+      const validatedData = contactValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid contact data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      // Check if contact exists and belongs to the user's account
+      const contact = await storage.getContactById(contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      if (contact.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this contact" });
+      }
+      
+      const account = await storage.getAccount(user.accountId);
+      const normalized = normalizeMobile(validatedData.data.mobile, account?.defaultCountry);
+      if ("error" in normalized) {
+        return res.status(400).json({ message: normalized.error });
+      }
+      
+      const existingContact = await storage.getContactByMobile(normalized.mobile, user.accountId);
+      if (existingContact && existingContact.id !== contactId) {
+        return res.status(400).json({ message: "Contact with this mobile number already exists" });
+      }
+      
+      const { tagIds, customFields, ...contactData } = validatedData.data;
+      if (tagIds && !(await checkTagIds(tagIds, user.accountId))) {
+        return res.status(400).json({ message: "Tag not found" });
+      }
+      
+      // Custom fields are replaced as a whole when sent
+      let fieldValues: ContactCustomFields | undefined;
+      if (customFields) {
+        const parsed = parseCustomFieldValues(customFields, await storage.getCustomFields(user.accountId));
+        if (Object.keys(parsed.errors).length > 0) {
+          return res.status(400).json({ message: "Invalid custom field values", errors: parsed.errors });
+        }
+        fieldValues = parsed.values;
+      }
+      
+      // Update contact; opt-out state only changes through the audited opt-out endpoint
+      const updatedContact = await storage.updateContact(contactId, {
+        ...contactData,
+        mobile: normalized.mobile,
+        ...(fieldValues && { customFields: fieldValues })
+      });
+      if (tagIds) {
+        await storage.setContactTags(contactId, tagIds);
+      }
+      res.json(updatedContact);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating contact", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/contacts/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      // Check if contact exists and belongs to the user's account
+      const contact = await storage.getContactById(contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      if (contact.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this contact" });
+      }
+      
+      // Move the contact to the trash
+      await storage.deleteContact(contactId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting contact", error: (error as Error).message });
+    }
+  });
+  
+  // Opt a contact out of (or back into) campaigns by hand
+  app.put("/api/contacts/:id/opt-out", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      if (typeof req.body.optedOut !== "boolean") {
+        return res.status(400).json({ message: "optedOut must be true or false" });
+      }
+      
+      // Check if contact exists and belongs to the user's account
+      const contact = await storage.getContactById(contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      if (contact.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this contact" });
+      }
+      
+      if (contact.optedOut === req.body.optedOut) {
+        return res.json(contact);
+      }
+      
+      const updatedContact = await storage.setContactOptOut(contactId, {
+        contactId,
+        accountId: user.accountId,
+        optedOut: req.body.optedOut,
+        source: "manual",
+        userId: user.id
+      });
+      res.json(updatedContact);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating opt-out status", error: (error as Error).message });
+    }
+  });
+  
+  // Audit trail of a contact's opt-outs and opt-ins
+  app.get("/api/contacts/:id/opt-out-events", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      // Check if contact exists and belongs to the user's account
+      const contact = await storage.getContactById(contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      if (contact.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this contact" });
+      }
+      
+      const events = await storage.getOptOutEvents(contactId);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching opt-out history", error: (error as Error).message });
+    }
+  });
+  
+  /**
+   * Delete, relabel, tag, untag, relocate, or opt out or in many contacts at
+   * once: the chosen IDs, or every contact matching contacts list filters.
+   * It all happens in one transaction, so on an error no contact changes.
+   */
+  app.post("/api/contacts/bulk", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = contactBulkSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bulk operation", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const { target, operation } = validatedData.data;
+      if ((operation.action === "addTags" || operation.action === "removeTags") && !(await checkTagIds(operation.tagIds, user.accountId))) {
+        return res.status(400).json({ message: "Tag not found" });
+      }
+      
+      // Chosen IDs of other accounts' contacts are left out, as if they didn't exist
+      let filters: ContactFilters;
+      let requested: number | undefined;
+      if ("ids" in target) {
+        const ids = Array.from(new Set(target.ids));
+        filters = { ids };
+        requested = ids.length;
+      } else {
+        const parsedFilters = await contactFiltersFromQuery(target.filter, user.accountId);
+        if ("error" in parsedFilters) {
+          return res.status(400).json({ message: parsedFilters.error });
+        }
+        filters = parsedFilters.filters;
+      }
+      
+      const { matched, changed } = await storage.bulkUpdateContacts(user.accountId, filters, operation, user.id);
+      const results: ContactBulkResult = {
+        action: operation.action,
+        matched,
+        changed,
+        notFound: requested === undefined ? 0 : requested - matched
+      };
+      res.json({ message: "Bulk operation completed", results });
+    } catch (error) {
+      res.status(500).json({ message: "Error performing bulk operation", error: (error as Error).message });
+    }
+  });
+
+  // Older clients delete chosen contacts here; it runs as a bulk delete and keeps the old response
+  app.post("/api/contacts/batch-delete", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = contactBatchDeleteSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid contact IDs", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const ids = Array.from(new Set(validatedData.data.ids));
+      const { matched, changed } = await storage.bulkUpdateContacts(user.accountId, { ids }, { action: "delete" }, user.id);
+      
+      // Other accounts' contacts count as not found, as in the bulk endpoint
+      res.status(200).json({ 
+        message: "Batch delete operation completed", 
+        results: { success: changed, notFound: ids.length - matched, unauthorized: 0, error: 0 }
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error performing batch delete", error: (error as Error).message });
+    }
+  });
+
+  // Labels and locations in use, for filtering a paged contact list
+  app.get("/api/contacts/filter-options", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      res.json(await storage.getContactFilterOptions(user.accountId));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching contact filter options", error: (error as Error).message });
+    }
+  });
+
+  // Download the contacts matching the list filters, or the selected ones, as CSV or XLSX
+  app.get("/api/contacts/export", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const format = (req.query.format as string | undefined) || "csv";
+      if (!CONTACT_EXPORT_FORMATS.includes(format as ContactExportFormat)) {
+        return res.status(400).json({ message: `Unknown export format "${format}"` });
+      }
+      
+      const parsedFilters = await contactFiltersFromQuery(req.query, user.accountId);
+      if ("error" in parsedFilters) {
+        return res.status(400).json({ message: parsedFilters.error });
+      }
+      
+      await streamContactExport(res, user.accountId, parsedFilters.filters, format as ContactExportFormat);
+    } catch (error) {
+      // Once the file has started downloading, all that can be done is to cut it short
+      if (res.headersSent) {
+        console.error("Contact export failed:", error);
+        res.destroy(error as Error);
+        return;
+      }
+      res.status(500).json({ message: "Error exporting contacts", error: (error as Error).message });
+    }
+  });
+
+  // Groups of contacts that are likely the same person, for review before merging
+  app.get("/api/contacts/duplicates", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const [account, contacts] = await Promise.all([
+        storage.getAccount(user.accountId),
+        storage.getContacts(user.accountId)
+      ]);
+      const duplicates = findDuplicateGroups(contacts, account?.defaultCountry);
+      const tagIds = tagIdsByContact(await storage.getContactTags(
+        user.accountId,
+        duplicates.flatMap(group => group.contacts.map(contact => contact.id))
+      ));
+      const groups: DuplicateContactGroup[] = duplicates.map(group => ({
+        reasons: group.reasons,
+        contacts: group.contacts.map(contact => ({ ...contact, tagIds: tagIds.get(contact.id) || [] }))
+      }));
+      
+      res.json(groups);
+    } catch (error) {
+      res.status(500).json({ message: "Error finding duplicate contacts", error: (error as Error).message });
+    }
+  });
+
+  // Merge duplicates into one surviving contact, keeping their tags and history
+  app.post("/api/contacts/merge", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = contactMergeSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid merge", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const { survivorId, mergedIds, values } = validatedData.data;
+      for (const id of [survivorId, ...mergedIds]) {
+        const contact = await storage.getContactById(id);
+        if (!contact) {
+          return res.status(404).json({ message: "Contact not found" });
+        }
+        if (contact.accountId !== user.accountId) {
+          return res.status(403).json({ message: "Unauthorized access to this contact" });
+        }
+      }
+      
+      const account = await storage.getAccount(user.accountId);
+      const normalized = normalizeMobile(values.mobile, account?.defaultCountry);
+      if ("error" in normalized) {
+        return res.status(400).json({ message: normalized.error });
+      }
+      
+      // The number may belong to one of the merged contacts, but to no one else
+      const sameMobile = await storage.findContactsByMobile(user.accountId, normalized.mobile);
+      if (sameMobile.some(contact => contact.id !== survivorId && !mergedIds.includes(contact.id))) {
+        return res.status(400).json({ message: "Contact with this mobile number already exists" });
+      }
+      
+      const { customFields = {}, ...contactData } = values;
+      const fieldValues = parseCustomFieldValues(customFields, await storage.getCustomFields(user.accountId));
+      if (Object.keys(fieldValues.errors).length > 0) {
+        return res.status(400).json({ message: "Invalid custom field values", errors: fieldValues.errors });
+      }
+      
+      const contact = await storage.mergeContacts(survivorId, mergedIds, {
+        ...contactData,
+        mobile: normalized.mobile,
+        customFields: fieldValues.values
+      });
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      
+      const tagIds = tagIdsByContact(await storage.getContactTags(user.accountId, [contact.id]));
+      res.json({ ...contact, tagIds: tagIds.get(contact.id) || [] });
+    } catch (error) {
+      res.status(500).json({ message: "Error merging contacts", error: (error as Error).message });
+    }
+  });
+
+  // Read an uploaded file for the import wizard: its columns, the first rows and a suggested mapping
+  app.post("/api/contacts/import/preview", checkAuth, requirePermission("contacts:manage"), upload.single('file'), async (req, res) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    
+    try {
+      const user = req.user!;
+      let preview: ImportPreview;
+      try {
+        preview = await readImportPreview(file.path, file.originalname, { sheet: req.body.sheet || undefined }, IMPORT_PREVIEW_ROWS);
+      } catch (error) {
+        return res.status(400).json({ message: "Could not read file", error: (error as Error).message });
+      }
+      
+      const fields = await storage.getCustomFields(user.accountId);
+      res.json({ ...preview, mapping: suggestImportMapping(preview.columns, fields) });
+    } catch (error) {
+      res.status(500).json({ message: "Error reading import file", error: (error as Error).message });
+    } finally {
+      fs.promises.unlink(file.path).catch(() => {});
+    }
+  });
+
+  // Contact import from CSV, Excel (.xlsx, optionally a named "sheet") or vCard (.vcf) files
+  // The optional "mapping" field (JSON) says which column fills each contact field; without it
+  // columns are matched to fields by name. The import runs as a background job; this responds
+  // with the job to poll.
+  app.post("/api/contacts/import", checkAuth, requirePermission("contacts:manage"), upload.single('file'), async (req, res) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    
+    // The job owns the uploaded file once it is created
+    let jobCreated = false;
+    try {
+      const user = req.user!;
+      const deduplicate = req.body.deduplicate === 'true';
+      const sheet = req.body.sheet || undefined;
+      
+      let importFile: ImportPreview;
+      try {
+        importFile = await readImportPreview(file.path, file.originalname, { sheet }, 0);
+      } catch (error) {
+        return res.status(400).json({ message: "Could not read file", error: (error as Error).message });
+      }
+      
+      const fields = await storage.getCustomFields(user.accountId);
+      let mapping = suggestImportMapping(importFile.columns, fields);
+      if (req.body.mapping) {
+        let rawMapping: unknown;
+        try {
+          rawMapping = JSON.parse(req.body.mapping);
+        } catch {
+          return res.status(400).json({ message: "Invalid column mapping" });
+        }
+        
+        const validatedMapping = contactImportMappingSchema.safeParse(rawMapping);
+        if (!validatedMapping.success) {
+          return res.status(400).json({ 
+            message: "Invalid column mapping", 
+            errors: validatedMapping.error.format() 
+          });
+        }
+        mapping = validatedMapping.data;
+      }
+      
+      // Mapped columns must exist in the file and mapped custom fields in the account
+      const unknownColumn = Object.values(mapping).find(target => target.column && !importFile.columns.includes(target.column));
+      if (unknownColumn) {
+        return res.status(400).json({ message: `Column "${unknownColumn.column}" is not in the file` });
+      }
+      const unknownField = Object.keys(mapping).find(target =>
+        target.startsWith(CUSTOM_FIELD_VARIABLE_PREFIX) &&
+        !fields.some(field => field.key === target.slice(CUSTOM_FIELD_VARIABLE_PREFIX.length))
+      );
+      if (unknownField) {
+        return res.status(400).json({ message: `Unknown custom field "${unknownField.slice(CUSTOM_FIELD_VARIABLE_PREFIX.length)}"` });
+      }
+      if (!mapping.mobile?.column) {
+        return res.status(400).json({ message: "The file needs a mobile column" });
+      }
+      
+      const job = await storage.createImportJob({
+        accountId: user.accountId,
+        userId: user.id,
+        fileName: file.originalname,
+        filePath: file.path,
+        sheet: importFile.sheet ?? null,
+        mapping,
+        deduplicate,
+        totalRows: importFile.totalRows
+      });
+      jobCreated = true;
+      startImportJob(job.id);
+      
+      res.status(202).json(importJobResponse(job));
+    } catch (error) {
+      res.status(500).json({ message: "Error importing contacts", error: (error as Error).message });
+    } finally {
+      if (!jobCreated) fs.promises.unlink(file.path).catch(() => {});
+    }
+  });
+
+  // Recent imports of the account, newest first
+  app.get("/api/contacts/import/jobs", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const jobs = await storage.getImportJobs(user.accountId);
+      res.json(jobs.map(importJobResponse));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching import jobs", error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/contacts/import/jobs/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const job = await storage.getImportJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      
+      if (job.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this import job" });
+      }
+      
+      res.json(importJobResponse(job));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching import job", error: (error as Error).message });
+    }
+  });
+
+  // CSV of the rows an import rejected, with the reasons
+  app.get("/api/contacts/import/jobs/:id/errors", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const job = await storage.getImportJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      
+      if (job.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this import job" });
+      }
+      
+      if (!job.errorReportPath || !fs.existsSync(job.errorReportPath)) {
+        return res.status(404).json({ message: "This import has no error report" });
+      }
+      
+      res.download(path.resolve(job.errorReportPath), `import-${job.id}-errors.csv`);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching error report", error: (error as Error).message });
+    }
+  });
+
+  // CUSTOM FIELDS API
+  const checkCustomFieldKeys = async (keys: string[], accountId: number): Promise<boolean> => {
+    for (const key of Array.from(new Set(keys))) {
+      if (!(await storage.getCustomFieldByKey(accountId, key))) return false;
+    }
+    return true;
+  };
+
+  app.get("/api/custom-fields", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const fields = await storage.getCustomFields(user.accountId);
+      res.json(fields);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching custom fields", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/custom-fields", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      // Without an explicit key, derive one from the name and validate that too
+      const validatedData = customFieldValidationSchema.safeParse({
+        ...req.body,
+        key: req.body.key || (typeof req.body.name === "string" ? customFieldKey(req.body.name) : undefined)
+      });
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid custom field", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const { key, type, options, name } = validatedData.data;
+      if (await storage.getCustomFieldByKey(user.accountId, key!)) {
+        return res.status(409).json({ message: `A custom field with the key "${key}" already exists` });
+      }
+      
+      const field = await storage.createCustomField({
+        key: key!,
+        name,
+        type,
+        options: type === "enum" ? Array.from(new Set(options)) : null,
+        accountId: user.accountId
+      });
+      res.status(201).json(field);
+    } catch (error) {
+      res.status(500).json({ message: "Error creating custom field", error: (error as Error).message });
+    }
+  });
+
+  // Rename a field or change its choices; the key and type stay fixed so stored values keep their meaning
+  app.put("/api/custom-fields/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const fieldId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const field = await storage.getCustomFieldById(fieldId);
+      if (!field) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      
+      if (field.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this custom field" });
+      }
+      
+      const validatedData = customFieldValidationSchema.safeParse({ ...req.body, key: field.key, type: field.type });
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid custom field", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const updatedField = await storage.updateCustomField(fieldId, {
+        name: validatedData.data.name,
+        ...(field.type === "enum" && { options: Array.from(new Set(validatedData.data.options)) })
+      });
+      res.json(updatedField);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating custom field", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/custom-fields/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const fieldId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const field = await storage.getCustomFieldById(fieldId);
+      if (!field) {
+        return res.status(404).json({ message: "Custom field not found" });
+      }
+      
+      if (field.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this custom field" });
+      }
+      
+      // Unsent campaigns would send fallbacks and segments would stop matching
+      const [campaigns, segments] = await Promise.all([
+        storage.getCampaigns(user.accountId),
+        storage.getSegments(user.accountId)
+      ]);
+      const campaignsInUse = campaigns.filter(campaign =>
+        LAUNCHABLE_CAMPAIGN_STATUSES.includes(campaign.status) &&
+        variableCustomFieldKeys(campaign.templateVariables).includes(field.key)
+      );
+      const segmentsInUse = segments.filter(segment => segmentCustomFieldKeys(segment.rules).includes(field.key));
+      if (campaignsInUse.length > 0 || segmentsInUse.length > 0) {
+        return res.status(409).json({
+          message: "Custom field is used by unsent campaigns or segments",
+          code: "CUSTOM_FIELD_IN_USE",
+          campaigns: campaignsInUse.map(campaign => campaign.name),
+          segments: segmentsInUse.map(segment => segment.name)
+        });
+      }
+      
+      // Deleting the field also deletes every contact's value for it
+      await storage.deleteCustomField(fieldId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting custom field", error: (error as Error).message });
+    }
+  });
+
+  // TAGS API
+  app.get("/api/tags", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const [tags, counts] = await Promise.all([
+        storage.getTags(user.accountId),
+        storage.getTagContactCounts(user.accountId)
+      ]);
+      
+      res.json(tags.map(tag => ({ ...tag, contactCount: counts.get(tag.id) || 0 })));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching tags", error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/tags", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = tagValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tag data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      // Tag names are unique per account, ignoring case
+      const existingTag = await storage.getTagByName(user.accountId, validatedData.data.name);
+      if (existingTag) {
+        return res.status(409).json({ message: `A tag named "${existingTag.name}" already exists` });
+      }
+      
+      const tag = await storage.createTag({
+        ...validatedData.data,
+        accountId: user.accountId
+      });
+      res.status(201).json(tag);
+    } catch (error) {
+      res.status(500).json({ message: "Error creating tag", error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/tags/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const validatedData = tagValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tag data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const tag = await storage.getTagById(tagId);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      if (tag.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this tag" });
+      }
+      
+      const existingTag = await storage.getTagByName(user.accountId, validatedData.data.name);
+      if (existingTag && existingTag.id !== tagId) {
+        return res.status(409).json({ message: `A tag named "${existingTag.name}" already exists` });
+      }
+      
+      const updatedTag = await storage.updateTag(tagId, validatedData.data);
+      res.json(updatedTag);
+    } catch (error) {
+      res.status(500).json({ message: "Error updating tag", error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/tags/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const tag = await storage.getTagById(tagId);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      
+      if (tag.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this tag" });
+      }
+      
+      // Unsent campaigns and saved segments would silently change audience
+      const [campaigns, segments] = await Promise.all([
+        storage.getCampaigns(user.accountId),
+        storage.getSegments(user.accountId)
+      ]);
+      const campaignsInUse = campaigns.filter(campaign =>
+        LAUNCHABLE_CAMPAIGN_STATUSES.includes(campaign.status) &&
+        [...(campaign.includeTagIds || []), ...(campaign.excludeTagIds || [])].includes(tagId)
+      );
+      const segmentsInUse = segments.filter(segment => segmentTagIds(segment.rules).includes(tagId));
+      if (campaignsInUse.length > 0 || segmentsInUse.length > 0) {
+        return res.status(409).json({
+          message: "Tag is used by unsent campaigns or segments",
+          code: "TAG_IN_USE",
+          campaigns: campaignsInUse.map(campaign => campaign.name),
+          segments: segmentsInUse.map(segment => segment.name)
+        });
+      }
+      
+      await storage.deleteTag(tagId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting tag", error: (error as Error).message });
+    }
+  });
+
+  // SEGMENTS API
+  // Rules may only point at campaigns, tags and custom fields of the same account, and
+  // custom field values must suit their field; the rules come back with those values parsed
+  const checkSegmentRules = async (rules: SegmentGroup, accountId: number): Promise<{ rules: SegmentGroup } | { error: string }> => {
+    for (const campaignId of segmentCampaignIds(rules)) {
+      const campaign = await storage.getCampaignById(campaignId);
+      if (!campaign || campaign.accountId !== accountId) return { error: "Segment rules refer to an unknown campaign" };
+    }
+    if (!(await checkTagIds(segmentTagIds(rules), accountId))) {
+      return { error: "Segment rules refer to an unknown tag" };
+    }
+    if (!(await checkCustomFieldKeys(segmentCustomFieldKeys(rules), accountId))) {
+      return { error: "Segment rules refer to an unknown custom field" };
+    }
+    return parseSegmentRuleValues(rules, await storage.getCustomFields(accountId));
+  };
+
+  app.get("/api/segments", checkAuth, requirePermission("contacts:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const segments = await storage.getSegments(user.accountId);
+      
+      // Counts are computed now, so they reflect contacts added since the segment was saved
+      const withCounts = await Promise.all(segments.map(async segment => ({
+        ...segment,
+        contactCount: await storage.countSegmentContacts(user.accountId, segment.rules)
+      })));
+      res.json(withCounts);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching contacts", error: (error as Error).message });
+      res.status(500).json({ message: "Error fetching segments", error: (error as Error).message });
     }
   });
 
-  app.post("/api/contacts", checkAuth, async (req, res) => {
+  // Count the contacts a set of rules matches, for the segment editor's live count
+  app.post("/api/segments/preview", checkAuth, requirePermission("contacts:view"), async (req, res) => {
     try {
       const user = req.user!;
       
-      // Validate contact data
-      const validatedData = contactValidationSchema.safeParse(req.body);
+      const validatedData = segmentValidationSchema.shape.rules.safeParse(req.body.rules);
       if (!validatedData.success) {
         return res.status(400).json({ 
-          message: "Invalid contact data", 
+          message: "Invalid segment rules", 
           errors: validatedData.error.format() 
         });
       }
       
-      // Check if mobile number already exists
-      const existingContact = await storage.getContactByMobile(req.body.mobile, user.accountId);
-      if (existingContact) {
-        return res.status(400).json({ message: "Contact with this mobile number already exists" });
+      const checked = await checkSegmentRules(validatedData.data, user.accountId);
+      if ("error" in checked) {
+        return res.status(400).json({ message: checked.error });
       }
       
-      const contact = await storage.createContact({
-        ...req.body,
-        accountId: user.accountId
-      });
-      
-      res.status(201).json(contact);
+      const count = await storage.countSegmentContacts(user.accountId, checked.rules);
+      res.json({ count });
     } catch (error) {
-      res.status(500).json({ message: "Error creating contact", error: (error as Error).message });
+      res.status(500).json({ message: "Error previewing segment", error: (error as Error).message });
     }
   });
 
-  app.put("/api/contacts/:id", checkAuth, async (req, res) => {
+  app.post("/api/segments", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
     try {
-      const contactId = parseInt(req.params.id);
       const user = req.user!;
       
-      // Validate contact data
-      const validatedData = contactValidationSchema.safeParse(req.body);
+      const validatedData = segmentValidationSchema.safeParse(req.body);
       if (!validatedData.success) {
         return res.status(400).json({ 
-          message: "Invalid contact data", 
+          message: "Invalid segment data", 
           errors: validatedData.error.format() 
         });
       }
       
-      // Check if contact exists and belongs to the user's account
-      const contact = await storage.getContactById(contactId);
-      if (!contact) {
-        return res.status(404).json({ message: "Contact not found" });
-      }
-      
-      if (contact.accountId !== user.accountId) {
-        return res.status(403).json({ message: "Unauthorized access to this contact" });
+      const checked = await checkSegmentRules(validatedData.data.rules, user.accountId);
+      if ("error" in checked) {
+        return res.status(400).json({ message: checked.error });
       }
       
-      // Update contact
-      const updatedContact = await storage.updateContact(contactId, req.body);
-      res.json(updatedContact);
+      const segment = await storage.createSegment({
+        ...validatedData.data,
+        rules: checked.rules,
+        accountId: user.accountId
+      });
+      res.status(201).json(segment);
     } catch (error) {
-      res.status(500).json({ message: "Error updating contact", error: (error as Error).message });
+      res.status(500).json({ message: "Error creating segment", error: (error as Error).message });
     }
   });
 
-  app.delete("/api/contacts/:id", checkAuth, async (req, res) => {
+  app.put("/api/segments/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
     try {
-      const contactId = parseInt(req.params.id);
+      const segmentId = parseInt(req.params.id);
       const user = req.user!;
       
-      // Check if contact exists and belongs to the user's account
-      const contact = await storage.getContactById(contactId);
-      if (!contact) {
-        return res.status(404).json({ message: "Contact not found" });
+      const validatedData = segmentValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid segment data", 
+          errors: validatedData.error.format() 
+        });
       }
       
-      if (contact.accountId !== user.accountId) {
-        return res.status(403).json({ message: "Unauthorized access to this contact" });
+      const segment = await storage.getSegmentById(segmentId);
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
       }
       
-      // Delete contact
-      await storage.deleteContact(contactId);
-      res.status(204).send();
-    } catch (error) {
-      res.status(500).json({ message: "Error deleting contact", error: (error as Error).message });
-    }
-  });
-  
-  app.post("/api/contacts/batch-delete", checkAuth, async (req, res) => {
-    try {
-      const { ids } = req.body;
-      const user = req.user!;
-      
-      if (!Array.isArray(ids) || ids.length === 0) {
-        return res.status(400).json({ message: "No contact IDs provided for deletion" });
+      if (segment.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this segment" });
       }
       
-      const results = { 
-        success: 0, 
-        notFound: 0, 
-        unauthorized: 0, 
-        error: 0 
-      };
-      
-      // Process each contact
-      for (const id of ids) {
-        try {
-          const contactId = parseInt(id);
-          
-          // Check if contact exists and belongs to the user's account
-          const contact = await storage.getContactById(contactId);
-          if (!contact) {
-            results.notFound++;
-            continue;
-          }
-          
-          if (contact.accountId !== user.accountId) {
-            results.unauthorized++;
-            continue;
-          }
-          
-          // Delete contact
-          await storage.deleteContact(contactId);
-          results.success++;
-        } catch (err) {
-          results.error++;
-        }
+      const checked = await checkSegmentRules(validatedData.data.rules, user.accountId);
+      if ("error" in checked) {
+        return res.status(400).json({ message: checked.error });
       }
       
-      res.status(200).json({ 
-        message: "Batch delete operation completed", 
-        results 
-      });
+      const updatedSegment = await storage.updateSegment(segmentId, { ...validatedData.data, rules: checked.rules });
+      res.json(updatedSegment);
     } catch (error) {
-      res.status(500).json({ message: "Error performing batch delete", error: (error as Error).message });
+      res.status(500).json({ message: "Error updating segment", error: (error as Error).message });
     }
   });
 
-  // CSV Import
-  app.post("/api/contacts/import", checkAuth, upload.single('file'), async (req, res) => {
+  app.delete("/api/segments/:id", checkAuth, requirePermission("contacts:manage"), async (req, res) => {
     try {
+      const segmentId = parseInt(req.params.id);
       const user = req.user!;
-      const file = req.file;
-      const deduplicate = req.body.deduplicate === 'true';
       
-      if (!file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const segment = await storage.getSegmentById(segmentId);
+      if (!segment) {
+        return res.status(404).json({ message: "Segment not found" });
       }
       
-      // Parse CSV file
-      const parser = parse({
-        columns: true,
-        skip_empty_lines: true
-      });
+      if (segment.accountId !== user.accountId) {
+        return res.status(403).json({ message: "Unauthorized access to this segment" });
+      }
       
-      const records: any[] = [];
-      
-      fs.createReadStream(file.path)
-        .pipe(parser)
-        .on('data', (data) => {
-          records.push(data);
-        })
-        .on('end', async () => {
-          // Process and validate each contact - filter out rows with empty name, mobile, or location
-          const contacts = records
-            .filter(record => {
-              return (
-                record.name && record.name.trim() !== "" && 
-                record.mobile && record.mobile.trim() !== "" && 
-                record.location && record.location.trim() !== ""
-              );
-            })
-            .map(record => ({
-              name: record.name.trim(),
-              mobile: record.mobile.trim(),
-              location: record.location.trim(),
-              label: record.label ? record.label.trim() : "",
-              accountId: user.accountId
-            }));
-          
-          // Import contacts
-          const result = await storage.importContacts(contacts, deduplicate);
-          
-          // Clean up temp file
-          fs.unlinkSync(file.path);
-          
-          // Calculate skipped rows due to missing required fields
-          const skippedDueToMissingFields = records.length - contacts.length;
-          
-          res.status(200).json({ 
-            message: "Import completed",
-            imported: result.imported,
-            duplicates: result.duplicates,
-            skipped: skippedDueToMissingFields,
-            total: contacts.length
-          });
-        })
-        .on('error', (err) => {
-          // Clean up temp file
-          if (fs.existsSync(file.path)) {
-            fs.unlinkSync(file.path);
-          }
-          throw err;
+      // Campaigns that have not been sent yet would lose their audience
+      const campaigns = await storage.getCampaigns(user.accountId);
+      const inUse = campaigns.filter(campaign =>
+        campaign.segmentId === segmentId && LAUNCHABLE_CAMPAIGN_STATUSES.includes(campaign.status)
+      );
+      if (inUse.length > 0) {
+        return res.status(409).json({
+          message: `Segment is targeted by ${inUse.length} unsent campaign${inUse.length === 1 ? "" : "s"}`,
+          code: "SEGMENT_IN_USE",
+          campaigns: inUse.map(campaign => campaign.name)
         });
-    } catch (error) {
-      // Clean up temp file if it exists
-      if (req.file && fs.existsSync(req.file.path)) {
-        fs.unlinkSync(req.file.path);
       }
-      res.status(500).json({ message: "Error importing contacts", error: (error as Error).message });
+      
+      await storage.deleteSegment(segmentId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting segment", error: (error as Error).message });
     }
   });
 
   // CAMPAIGNS API
-  app.get("/api/campaigns", checkAuth, async (req, res) => {
+  app.get("/api/campaigns", checkAuth, requirePermission("campaigns:view"), async (req, res) => {
     try {
       const user = req.user!;
       const filters = {
@@ -299,7 +1561,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/campaigns", checkAuth, async (req, res) => {
+  app.post("/api/campaigns", checkAuth, requirePermission("campaigns:manage"), async (req, res) => {
     try {
       const user = req.user!;
       
@@ -312,8 +1574,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (validatedData.data.segmentId) {
+        const segment = await storage.getSegmentById(validatedData.data.segmentId);
+        if (!segment || segment.accountId !== user.accountId) {
+          return res.status(400).json({ message: "Segment not found" });
+        }
+      }
+      
+      const { includeTagIds = [], excludeTagIds = [] } = validatedData.data;
+      if (!(await checkTagIds([...includeTagIds, ...excludeTagIds], user.accountId))) {
+        return res.status(400).json({ message: "Tag not found" });
+      }
+      
+      if (!(await checkCustomFieldKeys(variableCustomFieldKeys(validatedData.data.templateVariables), user.accountId))) {
+        return res.status(400).json({ message: "Template variables refer to an unknown custom field" });
+      }
+      
+      const problem = templateProblem(await storage.getMessageTemplateByExternalId(user.accountId, validatedData.data.template));
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      // Only validated fields are stored; status and launch details are the server's to set
       const campaign = await storage.createCampaign({
-        ...req.body,
+        ...validatedData.data,
+        scheduledFor: parseScheduledFor(validatedData.data.scheduledFor),
         accountId: user.accountId
       });
       
@@ -323,7 +1608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/campaigns/:id", checkAuth, async (req, res) => {
+  app.put("/api/campaigns/:id", checkAuth, requirePermission("campaigns:manage"), async (req, res) => {
     try {
       const campaignId = parseInt(req.params.id);
       const user = req.user!;
@@ -347,15 +1632,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized access to this campaign" });
       }
       
+      if (validatedData.data.segmentId) {
+        const segment = await storage.getSegmentById(validatedData.data.segmentId);
+        if (!segment || segment.accountId !== user.accountId) {
+          return res.status(400).json({ message: "Segment not found" });
+        }
+      }
+      
+      const { includeTagIds = [], excludeTagIds = [] } = validatedData.data;
+      if (!(await checkTagIds([...includeTagIds, ...excludeTagIds], user.accountId))) {
+        return res.status(400).json({ message: "Tag not found" });
+      }
+      
+      if (!(await checkCustomFieldKeys(variableCustomFieldKeys(validatedData.data.templateVariables), user.accountId))) {
+        return res.status(400).json({ message: "Template variables refer to an unknown custom field" });
+      }
+      
+      const problem = templateProblem(await storage.getMessageTemplateByExternalId(user.accountId, validatedData.data.template));
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
       // Update campaign
-      const updatedCampaign = await storage.updateCampaign(campaignId, req.body);
+      const { scheduledFor, ...campaignData } = validatedData.data;
+      const updatedCampaign = await storage.updateCampaign(campaignId, {
+        ...campaignData,
+        ...(scheduledFor !== undefined && { scheduledFor: parseScheduledFor(scheduledFor) })
+      });
       res.json(updatedCampaign);
     } catch (error) {
       res.status(500).json({ message: "Error updating campaign", error: (error as Error).message });
     }
   });
 
-  app.delete("/api/campaigns/:id", checkAuth, async (req, res) => {
+  app.delete("/api/campaigns/:id", checkAuth, requirePermission("campaigns:manage"), async (req, res) => {
     try {
       const campaignId = parseInt(req.params.id);
       const user = req.user!;
@@ -370,7 +1680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized access to this campaign" });
       }
       
-      // Delete campaign
+      // Move the campaign to the trash; its messages stay so a restored campaign keeps its results
       await storage.deleteCampaign(campaignId);
       res.status(204).send();
     } catch (error) {
@@ -379,7 +1689,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Launch campaign
-  app.post("/api/campaigns/:id/launch", checkAuth, async (req, res) => {
+  app.post("/api/campaigns/:id/launch", checkAuth, requirePermission("campaigns:launch"), async (req, res) => {
     try {
       const campaignId = parseInt(req.params.id);
       const user = req.user!;
@@ -394,107 +1704,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized access to this campaign" });
       }
       
-      // Check if campaign is already active
-      if (campaign.status === "active") {
-        return res.status(400).json({ message: "Campaign is already active" });
+      // Only campaigns that have not been sent yet (or whose last launch failed) can be launched
+      if (!LAUNCHABLE_CAMPAIGN_STATUSES.includes(campaign.status)) {
+        return res.status(400).json({ message: `Campaign is already ${campaign.status}` });
       }
 
-      // Get campaign settings
-      const settings = await storage.getSettings(user.accountId);
-      if (!settings || !settings.partnerMobile || !settings.wabaId) {
-        return res.status(400).json({ 
-          message: "Campaign settings are incomplete. Please configure Partner Mobile and WABA ID in settings.",
-          code: "SETTINGS_MISSING" 
+      const result = await launchCampaign(campaign, LAUNCHABLE_CAMPAIGN_STATUSES);
+      res.status(200).json({ 
+        message: "Campaign launched successfully",
+        accepted: result.accepted,
+        failed: result.failed,
+        apiResponse: result.providerResponse
+      });
+    } catch (error) {
+      if (error instanceof CampaignLaunchError) {
+        return res.status(error.status).json({
+          message: error.message,
+          code: error.code,
+          ...error.details
         });
       }
+      console.error("Error launching campaign:", error);
+      res.status(500).json({ message: "Error launching campaign", error: (error as Error).message });
+    }
+  });
 
-      // Get contacts for this campaign's label
-      let contacts;
-      if (campaign.contactLabel) {
-        contacts = await storage.getContacts(user.accountId, { label: campaign.contactLabel });
-      } else {
-        contacts = await storage.getContacts(user.accountId);
-      }
-
-      if (contacts.length === 0) {
-        return res.status(400).json({ message: "No contacts found for this campaign" });
-      }
+  // TRASH API
+  // Restoring or purging contacts needs contacts:manage, and campaigns campaigns:manage
+  function canManageTrashItems(role: string | undefined, items: TrashItems): boolean {
+    return (items.contactIds.length === 0 || hasPermission(role, "contacts:manage")) &&
+      (items.campaignIds.length === 0 || hasPermission(role, "campaigns:manage"));
+  }
 
-      // Format contacts data for the API
-      const contactsData = contacts.map(contact => [contact.mobile, contact.name]);
+  // Deleted contacts and campaigns, most recently deleted first, kept until the retention period ends
+  app.get("/api/trash", checkAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const [contacts, campaigns] = await Promise.all([
+        hasPermission(user.role, "contacts:view") ? storage.getDeletedContacts(user.accountId) : [],
+        hasPermission(user.role, "campaigns:view") ? storage.getDeletedCampaigns(user.accountId) : []
+      ]);
+      const contents: TrashContents = { contacts, campaigns, retentionDays: TRASH_CONFIG.retentionDays };
+      res.json(contents);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching trash", error: (error as Error).message });
+    }
+  });
 
-      // Get campaign API key from settings
-      const apiKey = settings.campaignApiKey;
-      if (!apiKey) {
-        console.error("Campaign API key not found in settings");
-        return res.status(500).json({ message: "Campaign API key not configured in settings. Please configure it in Settings > API Access." });
+  // Take contacts and campaigns back out of the trash
+  app.post("/api/trash/restore", checkAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = trashItemsSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid trash items", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const items = validatedData.data;
+      if (!canManageTrashItems(user.role, items)) {
+        return res.status(403).json({ message: "Forbidden: Your role does not allow this action", code: "FORBIDDEN" });
       }
-
-      // Get campaign API URL from environment config
-      const apiUrl = API_CONFIG.campaign.apiUrl;
-      console.log(`Using campaign API URL: ${apiUrl}`);
       
-      // Prepare request to campaign API
-      const requestData = {
-        campaignName: campaign.name,
-        campaignId: campaign.id.toString(),
-        templateName: campaign.template,
-        partnerMobile: settings.partnerMobile,
-        data: contactsData,
-        WABAID: settings.wabaId
+      const { restored, conflicts } = await storage.restoreContacts(user.accountId, items.contactIds);
+      const results: TrashRestoreResult = {
+        contacts: restored,
+        campaigns: await storage.restoreCampaigns(user.accountId, items.campaignIds),
+        conflicts: conflicts.map(({ id, name, mobile }) => ({ id, name, mobile }))
       };
+      res.json({ message: "Items restored", ...results });
+    } catch (error) {
+      res.status(500).json({ message: "Error restoring items", error: (error as Error).message });
+    }
+  });
 
-      console.log("Sending campaign to API:", JSON.stringify(requestData, null, 2));
-
-      try {
-        const apiResponse = await fetch(apiUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "x-api-key": apiKey
-          },
-          body: JSON.stringify(requestData)
-        });
-
-        const apiResult = await apiResponse.json();
-        
-        if (!apiResponse.ok) {
-          console.error("Campaign API error:", apiResult);
-          return res.status(apiResponse.status).json({ 
-            message: "Campaign API error", 
-            apiError: apiResult 
-          });
-        }
-
-        // Update campaign status in database
-        const success = await storage.launchCampaign(campaignId);
-        
-        if (success) {
-          res.status(200).json({ 
-            message: "Campaign launched successfully",
-            apiResponse: apiResult
-          });
-        } else {
-          res.status(500).json({ 
-            message: "Campaign API call succeeded but failed to update local database",
-            apiResponse: apiResult
-          });
-        }
-      } catch (apiError) {
-        console.error("Campaign API call failed:", apiError);
-        return res.status(500).json({ 
-          message: "Failed to connect to campaign API", 
-          error: (apiError as Error).message 
+  // Permanently delete contacts and campaigns in the trash, without waiting for the retention period
+  app.post("/api/trash/purge", checkAuth, async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = trashItemsSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid trash items", 
+          errors: validatedData.error.format() 
         });
       }
+      
+      const items = validatedData.data;
+      if (!canManageTrashItems(user.role, items)) {
+        return res.status(403).json({ message: "Forbidden: Your role does not allow this action", code: "FORBIDDEN" });
+      }
+      
+      const contacts = await storage.purgeContacts(user.accountId, items.contactIds);
+      const campaigns = await storage.purgeCampaigns(user.accountId, items.campaignIds);
+      res.json({ message: "Items permanently deleted", contacts, campaigns });
     } catch (error) {
-      console.error("Error launching campaign:", error);
-      res.status(500).json({ message: "Error launching campaign", error: (error as Error).message });
+      res.status(500).json({ message: "Error permanently deleting items", error: (error as Error).message });
     }
   });
 
   // SETTINGS API
-  app.get("/api/settings", checkAuth, async (req, res) => {
+  app.get("/api/settings", checkAuth, requirePermission("settings:view"), async (req, res) => {
     try {
       const user = req.user!;
       const settings = await storage.getSettings(user.accountId);
@@ -504,14 +1819,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/settings", checkAuth, async (req, res) => {
+  app.put("/api/settings", checkAuth, requirePermission("settings:manage"), async (req, res) => {
     try {
       const user = req.user!;
+      
+      // Validate settings data
+      const validatedData = settingsValidationSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid settings data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      // The mock gateway never delivers anything, so keep it out of production
+      if (validatedData.data.messagingGateway === "mock" && SERVER_CONFIG.environment === "production") {
+        return res.status(400).json({ message: "The mock gateway is only available in development" });
+      }
+      
       const settingsData = {
-        ...req.body,
+        ...validatedData.data,
         accountId: user.accountId
       };
       
+      // Templates cached for another business account are stale; refetch on next use
+      const existing = await storage.getSettings(user.accountId);
+      const wabaChanged = existing && (
+        (validatedData.data.wabaApiUrl !== undefined && (validatedData.data.wabaApiUrl || null) !== (existing.wabaApiUrl || null)) ||
+        (validatedData.data.wabaId !== undefined && (validatedData.data.wabaId || null) !== (existing.wabaId || null))
+      );
+      if (wabaChanged) {
+        await storage.replaceMessageTemplates(user.accountId, []);
+        Object.assign(settingsData, { templatesSyncedAt: null, templatesSyncError: null });
+      }
+      
       const settings = await storage.updateSettings(user.accountId, settingsData);
       res.json(settings);
     } catch (error) {
@@ -520,44 +1861,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Templates API - Facebook Graph API
-  app.get("/api/templates", checkAuth, async (req, res) => {
+  app.get("/api/templates", checkAuth, requirePermission("templates:view"), async (req, res) => {
     try {
       const user = req.user!;
       
       // Get settings for the user's account
       const settings = await storage.getSettings(user.accountId);
       
-      if (!settings || !settings.wabaApiUrl || !settings.facebookAccessToken) {
+      if (!settings || missingTemplateSettings(settings).length > 0) {
         return res.status(400).json({ 
           message: "Facebook API settings not configured", 
           code: "SETTINGS_MISSING" 
         });
       }
       
-      // Facebook Graph API call using account-specific settings
-      const response = await fetch(
-        `${settings.wabaApiUrl}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${settings.facebookAccessToken}`
-          }
+      // Fill the cache on first use; later refreshes come from the sync job
+      let current = settings;
+      if (!settings.templatesSyncedAt && !settings.templatesSyncError) {
+        try {
+          await syncAccountTemplates(settings);
+        } catch (error) {
+          console.error("Initial template sync failed:", error);
         }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Facebook API returned ${response.status}: ${await response.text()}`);
+        current = (await storage.getSettings(user.accountId)) ?? settings;
       }
       
-      const fbData = await response.json();
-      
-      // Transform response to match our expected format
-      const templates = fbData.data.map((template: any) => ({
-        id: template.id,
-        name: template.name,
-        description: template.category || 'Marketing template'
-      }));
-      
-      res.json(templates);
+      const templates = await storage.getMessageTemplates(user.accountId);
+      res.json({
+        templates: templates.map(summarizeCachedTemplate),
+        lastSyncedAt: current.templatesSyncedAt,
+        syncError: current.templatesSyncError
+      });
     } catch (error) {
       console.error("Error fetching Facebook templates:", error);
       res.status(500).json({ 
@@ -581,8 +1915,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Refresh the account's templates from the Graph API now
+  app.post("/api/templates/sync", checkAuth, requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const settings = await storage.getSettings(user.accountId);
+      if (!settings || missingTemplateSettings(settings).length > 0) {
+        return res.status(400).json({ message: "Facebook API settings not configured", code: "SETTINGS_MISSING" });
+      }
+      
+      const count = await syncAccountTemplates(settings);
+      const updated = await storage.getSettings(user.accountId);
+      res.json({ synced: count, lastSyncedAt: updated?.templatesSyncedAt ?? null });
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Error syncing templates", error: (error as Error).message });
+    }
+  });
+  
+  // Submit a new message template to Meta for review
+  app.post("/api/templates", checkAuth, requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const validatedData = templateDraftSchema.safeParse(req.body);
+      if (!validatedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid template data", 
+          errors: validatedData.error.format() 
+        });
+      }
+      
+      const settings = await storage.getSettings(user.accountId);
+      const missing = missingTemplateSettings(settings);
+      if (!settings || missing.length > 0) {
+        return res.status(400).json({ 
+          message: `Please configure ${missing.join(", ")} in settings.`, 
+          code: "SETTINGS_MISSING" 
+        });
+      }
+      
+      const template = await submitTemplate(settings, validatedData.data);
+      await storage.upsertMessageTemplate(toCachedTemplate(user.accountId, template));
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Error submitting template", error: (error as Error).message });
+    }
+  });
+  
+  // Current review status of a single template
+  app.get("/api/templates/:id", checkAuth, requirePermission("templates:view"), async (req, res) => {
+    try {
+      const user = req.user!;
+      
+      const settings = await storage.getSettings(user.accountId);
+      if (!settings || missingTemplateSettings(settings).length > 0) {
+        return res.status(400).json({ message: "Facebook API settings not configured", code: "SETTINGS_MISSING" });
+      }
+      
+      // Check with Meta and keep the cache in step, e.g. when a review finishes
+      const template = await fetchTemplate(settings, req.params.id);
+      await storage.upsertMessageTemplate(toCachedTemplate(user.accountId, template));
+      res.json(template);
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Error fetching template", error: (error as Error).message });
+    }
+  });
+  
+  app.delete("/api/templates/:id", checkAuth, requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const name = req.query.name as string | undefined;
+      
+      if (!name) {
+        return res.status(400).json({ message: "Template name is required" });
+      }
+      
+      const settings = await storage.getSettings(user.accountId);
+      if (!settings || missingTemplateSettings(settings).length > 0) {
+        return res.status(400).json({ message: "Facebook API settings not configured", code: "SETTINGS_MISSING" });
+      }
+      
+      await deleteTemplate(settings, name, req.params.id);
+      await storage.deleteMessageTemplate(user.accountId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof GatewayError) {
+        return res.status(error.status).json({ message: error.message, ...error.details });
+      }
+      res.status(500).json({ message: "Error deleting template", error: (error as Error).message });
+    }
+  });
+
+  // WHATSAPP WEBHOOK
+  // Public endpoints called by Meta; they authenticate with the verify token and request signature
+  app.get("/api/webhooks/whatsapp", (req, res) => {
+    const mode = req.query["hub.mode"];
+    const token = req.query["hub.verify_token"];
+    const challenge = req.query["hub.challenge"];
+    
+    if (mode === "subscribe" && API_CONFIG.whatsapp.webhookVerifyToken && token === API_CONFIG.whatsapp.webhookVerifyToken) {
+      return res.status(200).send(challenge);
+    }
+    
+    res.status(403).json({ message: "Webhook verification failed", code: "INVALID_VERIFY_TOKEN" });
+  });
+  
+  app.post("/api/webhooks/whatsapp", async (req, res) => {
+    try {
+      const appSecret = API_CONFIG.whatsapp.appSecret;
+      if (!appSecret) {
+        console.error("WhatsApp webhook received but WHATSAPP_APP_SECRET is not configured");
+        return res.status(503).json({ message: "Webhook is not configured" });
+      }
+      
+      if (!req.rawBody || !verifyWebhookSignature(req.rawBody, req.get("X-Hub-Signature-256"), appSecret)) {
+        return res.status(401).json({ message: "Invalid webhook signature", code: "INVALID_SIGNATURE" });
+      }
+      
+      const result = await processWebhookPayload(req.body);
+      console.log(`WhatsApp webhook: ${result.processed} status updates applied, ${result.ignored} ignored`);
+      res.status(200).json(result);
+    } catch (error) {
+      console.error("Error processing WhatsApp webhook:", error);
+      res.status(500).json({ message: "Error processing webhook", error: (error as Error).message });
+    }
+  });
+
   // ANALYTICS API
-  app.get("/api/analytics", checkAuth, async (req, res) => {
+  app.get("/api/analytics", checkAuth, requirePermission("analytics:view"), async (req, res) => {
     try {
       const user = req.user!;
       const campaignId = req.query.campaignId ? parseInt(req.query.campaignId as string) : undefined;
@@ -594,17 +2064,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Update campaign metrics
-  app.post("/api/analytics/update-metrics", checkAuth, async (req, res) => {
+  // Per-recipient messages for a campaign, optionally narrowed to one status
+  app.get("/api/analytics/campaigns/:id/messages", checkAuth, requirePermission("analytics:view"), async (req, res) => {
     try {
+      const campaignId = parseInt(req.params.id);
       const user = req.user!;
-      const { campaignId, metrics } = req.body;
-      
-      if (!campaignId || !metrics) {
-        return res.status(400).json({ 
-          message: "Campaign ID and metrics are required" 
-        });
-      }
       
       // Check if campaign exists and belongs to the user's account
       const campaign = await storage.getCampaignById(campaignId);
@@ -616,22 +2080,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized access to this campaign" });
       }
       
-      // Update analytics with provided metrics
-      const analyticsData = {
-        campaignId,
-        accountId: user.accountId,
-        ...metrics
-      };
-      
-      const updatedAnalytics = await storage.createOrUpdateAnalytics(analyticsData);
-      res.json(updatedAnalytics);
+      const result = await storage.getCampaignMessages(campaignId, {
+        status: req.query.status as string | undefined,
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string), 200) : undefined
+      });
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Error updating metrics", error: (error as Error).message });
+      res.status(500).json({ message: "Error fetching campaign messages", error: (error as Error).message });
     }
   });
   
   // Export analytics as CSV
-  app.get("/api/analytics/export/csv", checkAuth, async (req, res) => {
+  app.get("/api/analytics/export/csv", checkAuth, requirePermission("analytics:view"), async (req, res) => {
     try {
       const user = req.user!;
       const campaignId = req.query.campaignId ? parseInt(req.query.campaignId as string) : undefined;
@@ -708,7 +2169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Export analytics as PDF
-  app.get("/api/analytics/export/pdf", checkAuth, async (req, res) => {
+  app.get("/api/analytics/export/pdf", checkAuth, requirePermission("analytics:view"), async (req, res) => {
     try {
       const user = req.user!;
       const campaignId = req.query.campaignId ? parseInt(req.query.campaignId as string) : undefined;
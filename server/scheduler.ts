@@ -0,0 +1,89 @@
+import { storage, INTERRUPTED_LAUNCH_ERROR } from "./storage";
+import { SCHEDULER_CONFIG } from "./config";
+import { launchCampaign, CampaignLaunchError } from "./campaign-launcher";
+import { log } from "./vite";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Launch every scheduled campaign whose time has come.
+ * Each campaign is claimed before it is sent, so overlapping ticks or
+ * several server processes never send the same campaign twice.
+ */
+export async function dispatchDueCampaigns(now = new Date()): Promise<void> {
+  const dueCampaigns = await storage.getDueScheduledCampaigns(now);
+
+  for (const campaign of dueCampaigns) {
+    try {
+      await launchCampaign(campaign, ["scheduled"]);
+      log(`launched scheduled campaign ${campaign.id}`, "scheduler");
+    } catch (error) {
+      if (error instanceof CampaignLaunchError && error.code === "ALREADY_LAUNCHED") {
+        continue;
+      }
+
+      const message = (error as Error).message;
+      console.error(`Scheduled launch of campaign ${campaign.id} failed:`, message);
+
+      // Failures after the claim are recorded by the launcher; record the rest
+      // here so the campaign does not retry on every tick
+      if (!(error instanceof CampaignLaunchError && error.launchStarted)) {
+        const claimed = await storage.claimCampaignForLaunch(campaign.id, ["scheduled"]);
+        if (claimed) {
+          await storage.markCampaignLaunchFailed(campaign.id, message);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Campaigns left in "launching" were interrupted by a restart while talking
+ * to the campaign API. We cannot tell whether they were sent, so they are
+ * marked failed for a person to review instead of being sent again.
+ * Campaigns in the trash are skipped; they are marked failed if restored.
+ */
+async function recoverInterruptedLaunches(): Promise<void> {
+  const interrupted = await storage.getCampaignsByStatus("launching");
+  for (const campaign of interrupted) {
+    await storage.markCampaignLaunchFailed(campaign.id, INTERRUPTED_LAUNCH_ERROR);
+    log(`marked interrupted campaign ${campaign.id} as failed`, "scheduler");
+  }
+}
+
+async function tick(): Promise<void> {
+  // Skip this tick if the previous one is still sending
+  if (running) return;
+  running = true;
+  try {
+    await dispatchDueCampaigns();
+  } catch (error) {
+    console.error("Campaign scheduler tick failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export async function startCampaignScheduler(): Promise<void> {
+  if (!SCHEDULER_CONFIG.enabled || timer) return;
+
+  try {
+    await recoverInterruptedLaunches();
+  } catch (error) {
+    console.error("Failed to recover interrupted campaign launches:", error);
+  }
+
+  timer = setInterval(tick, SCHEDULER_CONFIG.pollIntervalMs);
+  log(`campaign scheduler polling every ${SCHEDULER_CONFIG.pollIntervalMs}ms`, "scheduler");
+
+  // Pick up anything that came due while the server was down
+  void tick();
+}
+
+export function stopCampaignScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
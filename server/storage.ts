@@ -1,16 +1,27 @@
 import { 
   users, type User, type InsertUser, 
+  accounts, type Account, type InsertAccount,
+  invitations, type Invitation, type InsertInvitation,
   contacts, type Contact, type InsertContact, 
+  tags, type Tag, type InsertTag, contactTags, type ContactTag,
+  customFields, type CustomField, type InsertCustomField,
+  optOutEvents, type OptOutEvent, type InsertOptOutEvent,
+  importJobs, type ImportJob, type InsertImportJob,
+  segments, type Segment, type InsertSegment, type SegmentGroup, type SegmentRule, isSegmentGroup,
   campaigns, type Campaign, type InsertCampaign, 
   analytics, type Analytics, type InsertAnalytics,
-  settings, type Settings, type InsertSettings
+  campaignMessages, type CampaignMessage, type InsertCampaignMessage,
+  messageTemplates, type MessageTemplate, type InsertMessageTemplate,
+  settings, type Settings, type InsertSettings,
+  normalizeMobile, DEFAULT_COUNTRY, type ContactSort, type ContactSortColumn, type ContactBulkOperation
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPgSimple from "connect-pg-simple";
 import { db } from "./db";
-import { eq, and, like, gte, or, desc } from "drizzle-orm";
+import { eq, and, like, ilike, gt, gte, lt, lte, or, desc, inArray, notInArray, isNull, isNotNull, sql, getTableColumns, type SQL } from "drizzle-orm";
 import { pool } from "./db";
+import { contactSearchCondition, contactSearchRank, scoreContactSearch } from "./contact-search";
 import crypto from 'crypto';
 import { DB_CONFIG } from './config';
 
@@ -37,15 +48,87 @@ export interface IStorage {
   createResetToken(userId: number): Promise<string>;
   verifyResetToken(token: string): Promise<User | undefined>;
   updatePassword(userId: number, password: string): Promise<boolean>;
+  updateUserRole(userId: number, role: string): Promise<User | undefined>;
+  
+  // Account methods
+  getAccount(id: number): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  createAccountWithUser(account: InsertAccount, user: Omit<InsertUser, "accountId">): Promise<{ account: Account, user: User }>;
+  updateAccount(id: number, account: Partial<InsertAccount>): Promise<Account | undefined>;
+  getAccountMembers(accountId: number): Promise<User[]>;
+  
+  // Invitation methods
+  getPendingInvitations(accountId: number): Promise<Invitation[]>;
+  getInvitationById(id: number): Promise<Invitation | undefined>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  renewInvitation(id: number): Promise<Invitation | undefined>;
+  verifyInvitationToken(token: string): Promise<Invitation | undefined>;
+  acceptInvitation(id: number, user: InsertUser): Promise<User | undefined>;
+  revokeInvitation(id: number): Promise<boolean>;
   
   // Contact methods
   getContacts(accountId: number, filters?: ContactFilters): Promise<Contact[]>;
+  getContactPage(accountId: number, filters: ContactFilters | undefined, options: ContactPageOptions): Promise<ContactPage>;
+  getContactFilterOptions(accountId: number): Promise<{ labels: string[], locations: string[] }>;
+  getContactExportBatch(accountId: number, filters: ContactFilters | undefined, afterId: number, limit: number): Promise<ContactExportRow[]>;
   getContactById(id: number): Promise<Contact | undefined>;
   getContactByMobile(mobile: string, accountId: number): Promise<Contact | undefined>;
   createContact(contact: InsertContact): Promise<Contact>;
   updateContact(id: number, contact: Partial<InsertContact>): Promise<Contact | undefined>;
   deleteContact(id: number): Promise<boolean>;
-  importContacts(contacts: InsertContact[], deduplicateByMobile: boolean): Promise<{ imported: number, duplicates: number }>;
+  importContacts(contacts: ContactImport[], deduplicateByMobile: boolean, checkpoint?: ImportCheckpoint): Promise<{ imported: number, duplicates: number }>;
+  findContactsByMobile(accountId: number, mobile: string, includeDeleted?: boolean): Promise<Contact[]>;
+  setContactOptOut(contactId: number, event: InsertOptOutEvent): Promise<Contact | undefined>;
+  getOptOutEvents(contactId: number): Promise<OptOutEvent[]>;
+  mergeContacts(survivorId: number, mergedIds: number[], values: Partial<InsertContact>): Promise<Contact | undefined>;
+  bulkUpdateContacts(accountId: number, filters: ContactFilters, operation: ContactBulkOperation, userId: number): Promise<{ matched: number, changed: number }>;
+  
+  // Trash methods
+  getDeletedContacts(accountId: number): Promise<Contact[]>;
+  getDeletedCampaigns(accountId: number): Promise<Campaign[]>;
+  restoreContacts(accountId: number, ids: number[]): Promise<ContactRestoreResult>;
+  restoreCampaigns(accountId: number, ids: number[]): Promise<number>;
+  purgeContacts(accountId: number, ids: number[]): Promise<number>;
+  purgeCampaigns(accountId: number, ids: number[]): Promise<number>;
+  purgeTrash(deletedBefore: Date): Promise<{ contacts: number, campaigns: number }>;
+  
+  // Import job methods
+  createImportJob(job: InsertImportJob & { totalRows?: number | null }): Promise<ImportJob>;
+  getImportJobById(id: number): Promise<ImportJob | undefined>;
+  getImportJobs(accountId: number, limit?: number): Promise<ImportJob[]>;
+  getImportJobsByStatus(statuses: string[]): Promise<ImportJob[]>;
+  updateImportJob(id: number, job: Partial<ImportJob>): Promise<ImportJob | undefined>;
+  
+  // Custom field methods
+  getCustomFields(accountId: number): Promise<CustomField[]>;
+  getCustomFieldById(id: number): Promise<CustomField | undefined>;
+  getCustomFieldByKey(accountId: number, key: string): Promise<CustomField | undefined>;
+  createCustomField(field: InsertCustomField): Promise<CustomField>;
+  updateCustomField(id: number, field: Partial<InsertCustomField>): Promise<CustomField | undefined>;
+  deleteCustomField(id: number): Promise<boolean>;
+  
+  // Tag methods
+  getTags(accountId: number): Promise<Tag[]>;
+  getTagById(id: number): Promise<Tag | undefined>;
+  getTagByName(accountId: number, name: string): Promise<Tag | undefined>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: number, tag: Partial<InsertTag>): Promise<Tag | undefined>;
+  deleteTag(id: number): Promise<boolean>;
+  findOrCreateTags(accountId: number, names: string[]): Promise<Tag[]>;
+  getContactTags(accountId: number, contactIds?: number[]): Promise<ContactTag[]>;
+  getTagContactCounts(accountId: number): Promise<Map<number, number>>;
+  setContactTags(contactId: number, tagIds: number[]): Promise<void>;
+  addContactTags(contactIds: number[], tagIds: number[]): Promise<number>;
+  removeContactTags(contactIds: number[], tagIds: number[]): Promise<number>;
+  
+  // Segment methods
+  getSegments(accountId: number): Promise<Segment[]>;
+  getSegmentById(id: number): Promise<Segment | undefined>;
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  updateSegment(id: number, segment: Partial<InsertSegment>): Promise<Segment | undefined>;
+  deleteSegment(id: number): Promise<boolean>;
+  getSegmentContacts(accountId: number, rules: SegmentGroup): Promise<Contact[]>;
+  countSegmentContacts(accountId: number, rules: SegmentGroup): Promise<number>;
   
   // Campaign methods
   getCampaigns(accountId: number, filters?: CampaignFilters): Promise<Campaign[]>;
@@ -54,22 +137,164 @@ export interface IStorage {
   updateCampaign(id: number, campaign: Partial<InsertCampaign>): Promise<Campaign | undefined>;
   deleteCampaign(id: number): Promise<boolean>;
   launchCampaign(id: number): Promise<boolean>;
+  getDueScheduledCampaigns(now: Date): Promise<Campaign[]>;
+  getCampaignsByStatus(status: string): Promise<Campaign[]>;
+  claimCampaignForLaunch(id: number, fromStatuses: string[]): Promise<Campaign | undefined>;
+  markCampaignLaunchFailed(id: number, error: string): Promise<void>;
+  
+  // Campaign message methods
+  replaceCampaignMessages(campaignId: number, messages: InsertCampaignMessage[]): Promise<number>;
+  getCampaignMessages(campaignId: number, filters?: CampaignMessageFilters): Promise<{ messages: CampaignMessageWithContact[], total: number }>;
+  getCampaignMessageByProviderId(providerMessageId: string): Promise<CampaignMessage | undefined>;
+  findUnmatchedCampaignMessage(accountId: number, mobile: string): Promise<CampaignMessage | undefined>;
+  getLatestCampaignMessageForContact(contactId: number): Promise<CampaignMessage | undefined>;
+  updateCampaignMessage(id: number, update: CampaignMessageUpdate): Promise<CampaignMessage | undefined>;
   
   // Analytics methods
   getAnalytics(accountId: number, campaignId?: number): Promise<Analytics[]>;
   createOrUpdateAnalytics(analytics: InsertAnalytics): Promise<Analytics>;
+  refreshCampaignAnalytics(campaignId: number): Promise<Analytics | undefined>;
+  
+  // Message template cache methods
+  getMessageTemplates(accountId: number): Promise<MessageTemplate[]>;
+  getMessageTemplateByExternalId(accountId: number, externalId: string): Promise<MessageTemplate | undefined>;
+  upsertMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
+  replaceMessageTemplates(accountId: number, templates: InsertMessageTemplate[]): Promise<number>;
+  deleteMessageTemplate(accountId: number, externalId: string): Promise<boolean>;
   
   // Settings methods
   getSettings(accountId: number): Promise<Settings | undefined>;
+  getAllSettings(): Promise<Settings[]>;
   updateSettings(accountId: number, settings: Partial<InsertSettings>): Promise<Settings>;
+  getSettingsByPhoneNumberId(phoneNumberId: string): Promise<Settings | undefined>;
 }
 
 // Filter types
 export interface ContactFilters {
   search?: string;
   label?: string;
+  tagId?: number;
+  customFields?: Record<string, string>; // Field key to value, matched ignoring case
   location?: string;
   dateRange?: string;
+  ids?: number[]; // Only these contacts, such as a selection in the list
+}
+
+// A contact row from an import, with the names of the tags to give it
+export type ContactImport = InsertContact & { tags?: string[] };
+
+// Import job progress saved together with the contacts of one batch
+export interface ImportCheckpoint {
+  jobId: number;
+  progress: (result: { imported: number, duplicates: number }) => Partial<ImportJob>;
+}
+
+// One page of contacts, by page number or, for stable paging through changing lists, after a cursor
+export interface ContactPageOptions {
+  page: number; // 1-based; ignored when a cursor is given
+  pageSize: number;
+  cursor?: ContactCursor;
+  sort: ContactSort; // "relevance" orders a search best match first, and pages by number only
+  direction: "asc" | "desc";
+}
+
+// A contact as exported, with the names of its tags and when it was last sent a message
+export type ContactExportRow = Contact & { tags: string[]; lastMessagedAt: Date | null };
+
+// The sort value and ID of the last contact of the previous page
+export interface ContactCursor {
+  value: string;
+  id: number;
+}
+
+export interface ContactPage {
+  contacts: Contact[];
+  total: number; // Contacts matching the filters, on all pages
+  nextCursor: ContactCursor | null;
+}
+
+// Start of a contact date range filter: today, last-week, last-month or last-year
+function dateRangeStart(dateRange: string): Date | undefined {
+  const startDate = new Date();
+  switch (dateRange) {
+    case 'today':
+      startDate.setHours(0, 0, 0, 0);
+      return startDate;
+    case 'last-week':
+      startDate.setDate(startDate.getDate() - 7);
+      return startDate;
+    case 'last-month':
+      startDate.setMonth(startDate.getMonth() - 1);
+      return startDate;
+    case 'last-year':
+      startDate.setFullYear(startDate.getFullYear() - 1);
+      return startDate;
+  }
+  return undefined;
+}
+
+// Every filter narrows the result, so any combination of them can be applied
+function contactFilterConditions(accountId: number, filters?: ContactFilters): SQL[] {
+  const conditions: SQL[] = [eq(contacts.accountId, accountId), isNull(contacts.deletedAt)];
+  if (!filters) return conditions;
+  
+  if (filters.search) {
+    conditions.push(contactSearchCondition(filters.search));
+  }
+  if (filters.label) {
+    conditions.push(eq(contacts.label, filters.label));
+  }
+  if (filters.tagId) {
+    conditions.push(sql`exists (
+      select 1 from ${contactTags}
+      where ${contactTags.contactId} = ${contacts.id} and ${contactTags.tagId} = ${filters.tagId}
+    )`);
+  }
+  for (const [key, value] of Object.entries(filters.customFields || {})) {
+    conditions.push(sql`lower(${contacts.customFields} ->> ${key}::text) = lower(${value})`);
+  }
+  if (filters.location) {
+    conditions.push(eq(contacts.location, filters.location));
+  }
+  const startDate = filters.dateRange ? dateRangeStart(filters.dateRange) : undefined;
+  if (startDate) {
+    conditions.push(gte(contacts.createdAt, startDate));
+  }
+  if (filters.ids) {
+    conditions.push(filters.ids.length > 0 ? inArray(contacts.id, filters.ids) : sql`false`);
+  }
+  return conditions;
+}
+
+// A contact's value in the sort column, as the text a cursor holds
+function contactSortValue(contact: Contact, sort: ContactSortColumn): string {
+  if (sort === "createdAt") return new Date(contact.createdAt).toISOString();
+  return contact[sort] ?? "";
+}
+
+// A full page may have more contacts after it; a short one is the last
+function nextContactCursor(rows: Contact[], options: ContactPageOptions): ContactCursor | null {
+  const last = rows[rows.length - 1];
+  if (!last || rows.length < options.pageSize || options.sort === "relevance") return null;
+  return { value: contactSortValue(last, options.sort), id: last.id };
+}
+
+// Invitation links stay valid for 7 days
+const INVITATION_EXPIRY_DAYS = 7;
+
+function generateInvitationToken(): { token: string, expiresAt: Date } {
+  const token = Buffer.from(crypto.getRandomValues(new Uint8Array(24))).toString('hex');
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITATION_EXPIRY_DAYS);
+  return { token, expiresAt };
+}
+
+// Draft and scheduled campaigns move between the two states as their schedule is set or cleared
+function scheduledStatusFor(campaign: Campaign, updateData: Partial<InsertCampaign>): string {
+  if (updateData.scheduledFor === undefined || (campaign.status !== "draft" && campaign.status !== "scheduled")) {
+    return campaign.status;
+  }
+  return updateData.scheduledFor ? "scheduled" : "draft";
 }
 
 export interface CampaignFilters {
@@ -78,6 +303,219 @@ export interface CampaignFilters {
   dateRange?: string;
 }
 
+export interface CampaignMessageFilters {
+  status?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type CampaignMessageWithContact = CampaignMessage & { contactName: string | null };
+
+export type CampaignMessageUpdate = Partial<Omit<CampaignMessage, "id" | "campaignId" | "contactId" | "accountId" | "createdAt">>;
+
+// Contacts taken out of the trash, and those left there because an active contact has their mobile
+export interface ContactRestoreResult {
+  restored: number;
+  conflicts: Contact[];
+}
+
+// Compare phone numbers by digits only, since providers drop the leading + and spacing
+function mobileDigits(mobile: string): string {
+  return mobile.replace(/\D/g, "");
+}
+
+// Message statuses that mean a campaign reached the contact, for "has received campaign" rules
+const RECEIVED_MESSAGE_STATUSES = ["sent", "delivered", "read", "optout", "hold"];
+
+// Segment dates are whole days: "before" excludes the day itself, "after" starts the next day
+function segmentDateBoundary(rule: Extract<SegmentRule, { field: "createdAt" }>): Date {
+  const day = new Date(rule.value);
+  day.setUTCHours(0, 0, 0, 0);
+  if (rule.operator === "after") {
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return day;
+}
+
+// Translate a segment rule group into a WHERE condition on the contacts table
+function segmentCondition(group: SegmentGroup): SQL {
+  const conditions = group.rules.map(rule => isSegmentGroup(rule) ? segmentCondition(rule) : segmentRuleCondition(rule));
+  if (conditions.length === 0) return sql`true`;
+  return (group.combinator === "or" ? or(...conditions) : and(...conditions))!;
+}
+
+function segmentRuleCondition(rule: SegmentRule): SQL {
+  switch (rule.field) {
+    case "label":
+      return rule.operator === "in"
+        ? inArray(contacts.label, rule.values)
+        : or(isNull(contacts.label), notInArray(contacts.label, rule.values))!;
+    case "tag": {
+      const tagged = sql`exists (
+        select 1 from ${contactTags}
+        where ${contactTags.contactId} = ${contacts.id}
+          and ${inArray(contactTags.tagId, rule.tagIds)}
+      )`;
+      return rule.operator === "in" ? tagged : sql`not ${tagged}`;
+    }
+    case "location":
+      return rule.operator === "equals"
+        ? sql`lower(${contacts.location}) = lower(${rule.value})`
+        : ilike(contacts.location, `%${rule.value.replace(/[%_\\]/g, "\\$&")}%`);
+    case "createdAt":
+      return rule.operator === "before"
+        ? lt(contacts.createdAt, segmentDateBoundary(rule))
+        : gte(contacts.createdAt, segmentDateBoundary(rule));
+    case "campaign": {
+      const received = sql`exists (
+        select 1 from ${campaignMessages}
+        where ${campaignMessages.contactId} = ${contacts.id}
+          and ${campaignMessages.campaignId} = ${rule.campaignId}
+          and ${inArray(campaignMessages.status, RECEIVED_MESSAGE_STATUSES)}
+      )`;
+      return rule.operator === "received" ? received : sql`not ${received}`;
+    }
+    case "optedOut":
+      return eq(contacts.optedOut, rule.value);
+    case "customField":
+      return customFieldRuleCondition(rule);
+  }
+}
+
+// Custom field values are compared as JSON, so numbers order numerically and YYYY-MM-DD dates by day
+function customFieldRuleCondition(rule: Extract<SegmentRule, { field: "customField" }>): SQL {
+  const text = sql`(${contacts.customFields} ->> ${rule.key}::text)`;
+  const json = sql`(${contacts.customFields} -> ${rule.key}::text)`;
+  const value = sql`${JSON.stringify(rule.value ?? null)}::jsonb`;
+  const equals = typeof rule.value === "string"
+    ? sql`lower(${text}) = lower(${rule.value})`
+    : sql`${json} = ${value}`;
+  
+  switch (rule.operator) {
+    case "is_set":
+      return sql`coalesce(${text}, '') <> ''`;
+    case "is_not_set":
+      return sql`coalesce(${text}, '') = ''`;
+    case "equals":
+      return equals;
+    case "not_equals":
+      return sql`not coalesce(${equals}, false)`;
+    case "contains":
+      return sql`${text} ilike ${`%${String(rule.value).replace(/[%_\\]/g, "\\$&")}%`}`;
+    case "greater_than":
+      return sql`jsonb_typeof(${json}) = jsonb_typeof(${value}) and ${json} > ${value}`;
+    case "less_than":
+      return sql`jsonb_typeof(${json}) = jsonb_typeof(${value}) and ${json} < ${value}`;
+  }
+}
+
+// What the in-memory storage knows about contacts beyond their own row, keyed "<id>:<contactId>"
+interface SegmentFacts {
+  received: Set<string>; // campaignId:contactId
+  tagged: Set<string>; // tagId:contactId
+}
+
+// Evaluate a segment rule group against one contact, for the in-memory storage
+function matchesSegment(contact: Contact, group: SegmentGroup, facts: SegmentFacts): boolean {
+  const results = group.rules.map(rule =>
+    isSegmentGroup(rule) ? matchesSegment(contact, rule, facts) : matchesSegmentRule(contact, rule, facts)
+  );
+  if (results.length === 0) return true;
+  return group.combinator === "or" ? results.some(Boolean) : results.every(Boolean);
+}
+
+function matchesSegmentRule(contact: Contact, rule: SegmentRule, facts: SegmentFacts): boolean {
+  switch (rule.field) {
+    case "label": {
+      const inSet = !!contact.label && rule.values.includes(contact.label);
+      return rule.operator === "in" ? inSet : !inSet;
+    }
+    case "tag": {
+      const hasTag = rule.tagIds.some(tagId => facts.tagged.has(`${tagId}:${contact.id}`));
+      return rule.operator === "in" ? hasTag : !hasTag;
+    }
+    case "location": {
+      const location = (contact.location || "").toLowerCase();
+      const value = rule.value.toLowerCase();
+      return rule.operator === "equals" ? location === value : location.includes(value);
+    }
+    case "createdAt":
+      return rule.operator === "before"
+        ? contact.createdAt < segmentDateBoundary(rule)
+        : contact.createdAt >= segmentDateBoundary(rule);
+    case "campaign": {
+      const hasReceived = facts.received.has(`${rule.campaignId}:${contact.id}`);
+      return rule.operator === "received" ? hasReceived : !hasReceived;
+    }
+    case "optedOut":
+      return contact.optedOut === rule.value;
+    case "customField":
+      return matchesCustomFieldRule(contact.customFields?.[rule.key], rule);
+  }
+}
+
+function matchesCustomFieldRule(stored: unknown, rule: Extract<SegmentRule, { field: "customField" }>): boolean {
+  const isSet = stored !== undefined && stored !== null && stored !== "";
+  const equals = isSet && (typeof rule.value === "string"
+    ? String(stored).toLowerCase() === rule.value.toLowerCase()
+    : stored === rule.value);
+  const order = isSet ? compareCustomFieldValues(stored, rule.value) : undefined;
+  
+  switch (rule.operator) {
+    case "is_set":
+      return isSet;
+    case "is_not_set":
+      return !isSet;
+    case "equals":
+      return equals;
+    case "not_equals":
+      return !equals;
+    case "contains":
+      return isSet && String(stored).toLowerCase().includes(String(rule.value).toLowerCase());
+    case "greater_than":
+      return order !== undefined && order > 0;
+    case "less_than":
+      return order !== undefined && order < 0;
+  }
+}
+
+// Order two custom field values as jsonb does, or undefined when their types differ.
+// Date fields hold ISO dates, which sort as text in date order.
+function compareCustomFieldValues(stored: unknown, value: unknown): number | undefined {
+  if (typeof stored === "number" && typeof value === "number") return stored - value;
+  if (typeof stored === "string" && typeof value === "string") return stored < value ? -1 : stored > value ? 1 : 0;
+  if (typeof stored === "boolean" && typeof value === "boolean") return Number(stored) - Number(value);
+  return undefined;
+}
+
+// Number of contacts written per insert statement when importing
+const CONTACT_IMPORT_BATCH_SIZE = 500;
+
+// Opt-out events written per insert statement by a bulk opt-out or opt-in
+const OPT_OUT_EVENT_BATCH_SIZE = 500;
+
+// Number of rows written per insert statement when recording campaign messages
+const CAMPAIGN_MESSAGE_BATCH_SIZE = 1000;
+
+// Why a campaign left in "launching" by a restart was marked failed
+export const INTERRUPTED_LAUNCH_ERROR = "Launch was interrupted by a server restart. Check delivery before relaunching.";
+
+// Contact IDs per query when reading the tags of given contacts, well under Postgres' parameter limit
+const CONTACT_TAG_LOOKUP_BATCH_SIZE = 10000;
+
+// Roll per-recipient message statuses up into the campaign-level analytics counters
+function summarizeMessageStatuses(counts: Record<string, number>) {
+  const count = (...statuses: string[]) => statuses.reduce((sum, status) => sum + (counts[status] || 0), 0);
+  return {
+    sent: count("sent", "delivered", "read", "optout", "hold"),
+    delivered: count("delivered", "read"),
+    read: count("read"),
+    optout: count("optout"),
+    hold: count("hold"),
+    failed: count("failed")
+  };
+}
+
 // Database storage implementation
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
@@ -119,8 +557,9 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0 ? result[0] : undefined;
   }
 
+  // Emails are matched ignoring case
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.email, email));
+    const result = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
     return result.length > 0 ? result[0] : undefined;
   }
 
@@ -190,154 +629,810 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async updateUserRole(userId: number, role: string): Promise<User | undefined> {
+    const result = await db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // ACCOUNT METHODS
+  async getAccount(id: number): Promise<Account | undefined> {
+    const result = await db.select().from(accounts).where(eq(accounts.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const result = await db
+      .insert(accounts)
+      .values({ ...insertAccount, createdAt: new Date() })
+      .returning();
+    return result[0];
+  }
+
+  // Create an account and its first member together, so a failed user insert leaves no empty account behind
+  async createAccountWithUser(insertAccount: InsertAccount, insertUser: Omit<InsertUser, "accountId">): Promise<{ account: Account, user: User }> {
+    return await db.transaction(async (tx) => {
+      const [account] = await tx.insert(accounts).values({ ...insertAccount, createdAt: new Date() }).returning();
+      const [user] = await tx.insert(users)
+        .values({ ...insertUser, accountId: account.id, createdAt: new Date() })
+        .returning();
+      return { account, user };
+    });
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    const result = await db
+      .update(accounts)
+      .set(updateData)
+      .where(eq(accounts.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getAccountMembers(accountId: number): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.accountId, accountId));
+  }
+
+  // INVITATION METHODS
+  async getPendingInvitations(accountId: number): Promise<Invitation[]> {
+    return await db.select().from(invitations)
+      .where(
+        and(
+          eq(invitations.accountId, accountId),
+          eq(invitations.status, "pending")
+        )
+      )
+      .orderBy(desc(invitations.createdAt));
+  }
+
+  async getInvitationById(id: number): Promise<Invitation | undefined> {
+    const result = await db.select().from(invitations).where(eq(invitations.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const { token, expiresAt } = generateInvitationToken();
+    const result = await db
+      .insert(invitations)
+      .values({ 
+        ...insertInvitation, 
+        email: insertInvitation.email.toLowerCase(),
+        token,
+        expiresAt,
+        status: "pending",
+        createdAt: new Date() 
+      })
+      .returning();
+    return result[0];
+  }
+
+  async renewInvitation(id: number): Promise<Invitation | undefined> {
+    // Issue a fresh token so any previously sent link stops working
+    const { token, expiresAt } = generateInvitationToken();
+    const result = await db
+      .update(invitations)
+      .set({ token, expiresAt })
+      .where(
+        and(
+          eq(invitations.id, id),
+          eq(invitations.status, "pending")
+        )
+      )
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async verifyInvitationToken(token: string): Promise<Invitation | undefined> {
+    const result = await db
+      .select()
+      .from(invitations)
+      .where(eq(invitations.token, token));
+    
+    if (result.length === 0) return undefined;
+    
+    const invitation = result[0];
+    
+    // Only pending, unexpired invitations can be used
+    if (invitation.status !== "pending" || invitation.expiresAt < new Date()) {
+      return undefined;
+    }
+    
+    return invitation;
+  }
+
+  // Accept a pending invitation by creating the invitee's user; only one of several concurrent accepts succeeds
+  async acceptInvitation(id: number, insertUser: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const accepted = await tx
+        .update(invitations)
+        .set({ status: "accepted", acceptedAt: new Date() })
+        .where(and(eq(invitations.id, id), eq(invitations.status, "pending")))
+        .returning({ id: invitations.id });
+      if (accepted.length === 0) return undefined;
+      
+      const [user] = await tx.insert(users).values({ ...insertUser, createdAt: new Date() }).returning();
+      return user;
+    });
+  }
+
+  async revokeInvitation(id: number): Promise<boolean> {
+    const result = await db
+      .update(invitations)
+      .set({ status: "revoked" })
+      .where(
+        and(
+          eq(invitations.id, id),
+          eq(invitations.status, "pending")
+        )
+      )
+      .returning();
+    return result.length > 0;
+  }
+
   // CONTACT METHODS
   async getContacts(accountId: number, filters?: ContactFilters): Promise<Contact[]> {
-    let query = db.select().from(contacts).where(eq(contacts.accountId, accountId));
+    return await db.select().from(contacts).where(and(...contactFilterConditions(accountId, filters)));
+  }
+
+  async getContactPage(accountId: number, filters: ContactFilters | undefined, options: ContactPageOptions): Promise<ContactPage> {
+    const conditions = contactFilterConditions(accountId, filters);
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(contacts)
+      .where(and(...conditions));
     
-    if (filters) {
-      if (filters.search) {
-        const searchTerm = `%${filters.search}%`;
-        // Apply search filters
-        const searchResults = await db.select().from(contacts)
-          .where(
-            and(
-              eq(contacts.accountId, accountId),
-              or(
-                like(contacts.name, searchTerm),
-                like(contacts.mobile, searchTerm)
-              )
-            )
-          );
-        return searchResults;
+    if (options.sort === "relevance") {
+      const rows = await db.select().from(contacts)
+        .where(and(...conditions))
+        .orderBy(sql`${contactSearchRank(filters?.search ?? "")} desc`, desc(contacts.id))
+        .limit(options.pageSize)
+        .offset((options.page - 1) * options.pageSize);
+      return { contacts: rows, total, nextCursor: null };
+    }
+    
+    // Sort values match what a cursor holds: nullable columns as empty text, times to the millisecond
+    const sortExpr = options.sort === "createdAt"
+      ? sql`date_trunc('milliseconds', ${contacts.createdAt})`
+      : sql`coalesce(${contacts[options.sort]}, '')`;
+    const after = options.direction === "asc" ? sql`>` : sql`<`;
+    if (options.cursor) {
+      const value = options.sort === "createdAt" ? new Date(options.cursor.value) : options.cursor.value;
+      conditions.push(sql`(${sortExpr}, ${contacts.id}) ${after} (${value}, ${options.cursor.id})`);
+    }
+    
+    const order = options.direction === "asc" ? sql`asc` : sql`desc`;
+    const rows = await db.select().from(contacts)
+      .where(and(...conditions))
+      .orderBy(sql`${sortExpr} ${order}`, sql`${contacts.id} ${order}`)
+      .limit(options.pageSize)
+      .offset(options.cursor ? 0 : (options.page - 1) * options.pageSize);
+    
+    return { contacts: rows, total, nextCursor: nextContactCursor(rows, options) };
+  }
+
+  // Every label and location in use, for the filter dropdowns of a paged list
+  async getContactFilterOptions(accountId: number): Promise<{ labels: string[], locations: string[] }> {
+    const distinctValues = async (column: typeof contacts.label | typeof contacts.location) => {
+      const rows = await db.selectDistinct({ value: column }).from(contacts)
+        .where(and(eq(contacts.accountId, accountId), isNull(contacts.deletedAt), sql`coalesce(${column}, '') <> ''`))
+        .orderBy(column);
+      return rows.map(row => row.value!);
+    };
+    return { labels: await distinctValues(contacts.label), locations: await distinctValues(contacts.location) };
+  }
+
+  // The next contacts by ID after `afterId`, so an export can walk any number of them a batch at a time
+  async getContactExportBatch(accountId: number, filters: ContactFilters | undefined, afterId: number, limit: number): Promise<ContactExportRow[]> {
+    return await db.select({
+      ...getTableColumns(contacts),
+      tags: sql<string[]>`array(
+        select ${tags.name} from ${contactTags} join ${tags} on ${tags.id} = ${contactTags.tagId}
+        where ${contactTags.contactId} = ${contacts.id} order by ${tags.name}
+      )`,
+      lastMessagedAt: sql<Date | null>`(
+        select max(${campaignMessages.sentAt}) from ${campaignMessages}
+        where ${campaignMessages.contactId} = ${contacts.id}
+      )`.mapWith(campaignMessages.sentAt),
+    })
+      .from(contacts)
+      .where(and(...contactFilterConditions(accountId, filters), gt(contacts.id, afterId)))
+      .orderBy(contacts.id)
+      .limit(limit);
+  }
+
+  async getContactById(id: number): Promise<Contact | undefined> {
+    const result = await db.select().from(contacts).where(and(eq(contacts.id, id), isNull(contacts.deletedAt)));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getContactByMobile(mobile: string, accountId: number): Promise<Contact | undefined> {
+    // Mobiles are stored normalized, so look the number up the same way
+    const account = await this.getAccount(accountId);
+    const normalized = normalizeMobile(mobile, account?.defaultCountry);
+    const result = await db.select()
+      .from(contacts)
+      .where(
+        and(
+          eq(contacts.mobile, "mobile" in normalized ? normalized.mobile : mobile.trim()),
+          eq(contacts.accountId, accountId),
+          isNull(contacts.deletedAt)
+        )
+      );
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createContact(insertContact: InsertContact): Promise<Contact> {
+    const result = await db
+      .insert(contacts)
+      .values({ 
+        ...insertContact, 
+        location: insertContact.location || null,
+        label: insertContact.label || null,
+        customFields: insertContact.customFields || {},
+        createdAt: new Date() 
+      })
+      .returning();
+    return result[0];
+  }
+
+  async updateContact(id: number, updateData: Partial<InsertContact>): Promise<Contact | undefined> {
+    const result = await db
+      .update(contacts)
+      .set(updateData)
+      .where(eq(contacts.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // Move a contact to the trash; it is purged for good once the retention period has passed
+  async deleteContact(id: number): Promise<boolean> {
+    const result = await db.update(contacts)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(contacts.id, id), isNull(contacts.deletedAt)))
+      .returning({ id: contacts.id });
+    return result.length > 0;
+  }
+
+  // Contacts in the trash are left out unless asked for, as opt-outs must still reach them
+  async findContactsByMobile(accountId: number, mobile: string, includeDeleted = false): Promise<Contact[]> {
+    return await db.select().from(contacts)
+      .where(
+        and(
+          eq(contacts.accountId, accountId),
+          sql`regexp_replace(${contacts.mobile}, '\\D', '', 'g') = ${mobileDigits(mobile)}`,
+          includeDeleted ? undefined : isNull(contacts.deletedAt)
+        )
+      );
+  }
+
+  async setContactOptOut(contactId: number, event: InsertOptOutEvent): Promise<Contact | undefined> {
+    return await db.transaction(async (tx) => {
+      const result = await tx
+        .update(contacts)
+        .set({
+          optedOut: event.optedOut,
+          optedOutAt: event.optedOut ? new Date() : null
+        })
+        .where(eq(contacts.id, contactId))
+        .returning();
+      
+      if (result.length === 0) return undefined;
+      
+      await tx.insert(optOutEvents).values({ ...event, contactId, createdAt: new Date() });
+      return result[0];
+    });
+  }
+
+  async getOptOutEvents(contactId: number): Promise<OptOutEvent[]> {
+    return await db.select().from(optOutEvents)
+      .where(eq(optOutEvents.contactId, contactId))
+      .orderBy(desc(optOutEvents.createdAt));
+  }
+
+  /**
+   * Merge contacts into the surviving one, which takes `values` and every
+   * merged contact's tags, opt-out history and campaign messages. Where
+   * two of them were sent the same campaign, the survivor's message is
+   * kept and the other dropped, so that campaign's analytics are
+   * recounted. A contact that opted out keeps the survivor opted out.
+   */
+  async mergeContacts(survivorId: number, mergedIds: number[], values: Partial<InsertContact>): Promise<Contact | undefined> {
+    const recounted = new Set<number>();
+    const updated = await db.transaction(async (tx) => {
+      const [survivor] = await tx.select().from(contacts).where(eq(contacts.id, survivorId));
+      if (!survivor) return undefined;
+      const merged = await tx.select().from(contacts).where(inArray(contacts.id, mergedIds));
+      
+      const mergedTags = await tx.select().from(contactTags).where(inArray(contactTags.contactId, mergedIds));
+      if (mergedTags.length > 0) {
+        await tx.insert(contactTags)
+          .values(mergedTags.map(({ tagId }) => ({ contactId: survivorId, tagId })))
+          .onConflictDoNothing();
       }
       
-      if (filters.label) {
-        // Apply label filter
-        const labelResults = await db.select().from(contacts)
-          .where(
-            and(
-              eq(contacts.accountId, accountId),
-              eq(contacts.label, filters.label)
-            )
-          );
-        return labelResults;
+      await tx.update(optOutEvents).set({ contactId: survivorId }).where(inArray(optOutEvents.contactId, mergedIds));
+      
+      // A contact has one message per campaign, so only messages of campaigns the survivor wasn't sent move over
+      const sentCampaigns = new Set((await tx.select({ campaignId: campaignMessages.campaignId })
+        .from(campaignMessages)
+        .where(eq(campaignMessages.contactId, survivorId))).map(message => message.campaignId));
+      const mergedMessages = await tx.select({ id: campaignMessages.id, campaignId: campaignMessages.campaignId })
+        .from(campaignMessages)
+        .where(inArray(campaignMessages.contactId, mergedIds))
+        .orderBy(campaignMessages.id);
+      const moved: number[] = [];
+      for (const message of mergedMessages) {
+        if (sentCampaigns.has(message.campaignId)) {
+          recounted.add(message.campaignId);
+          continue;
+        }
+        sentCampaigns.add(message.campaignId);
+        moved.push(message.id);
       }
+      if (moved.length > 0) {
+        await tx.update(campaignMessages)
+          .set({ contactId: survivorId, updatedAt: new Date() })
+          .where(inArray(campaignMessages.id, moved));
+      }
+      await tx.delete(campaignMessages).where(inArray(campaignMessages.contactId, mergedIds));
       
-      if (filters.location) {
-        // Apply location filter
-        const locationResults = await db.select().from(contacts)
-          .where(
-            and(
-              eq(contacts.accountId, accountId),
-              eq(contacts.location, filters.location)
+      const optedOut = [survivor, ...merged].filter(contact => contact.optedOut);
+      const [updated] = await tx.update(contacts)
+        .set({
+          ...values,
+          ...(optedOut.length > 0 && {
+            optedOut: true,
+            optedOutAt: survivor.optedOutAt ?? optedOut[0].optedOutAt
+          })
+        })
+        .where(eq(contacts.id, survivorId))
+        .returning();
+      
+      await tx.delete(contacts).where(inArray(contacts.id, mergedIds));
+      return updated;
+    });
+    
+    for (const campaignId of Array.from(recounted)) await this.refreshCampaignAnalytics(campaignId);
+    return updated;
+  }
+
+  /**
+   * Apply one operation to every contact of the account matching `filters`
+   * in a single transaction, so either all of them change or, on an error,
+   * none do. Contacts opted out or in by hand get an opt-out event each, as
+   * when it is done one contact at a time.
+   */
+  async bulkUpdateContacts(accountId: number, filters: ContactFilters, operation: ContactBulkOperation, userId: number): Promise<{ matched: number, changed: number }> {
+    return await db.transaction(async (tx) => {
+      const matching = and(...contactFilterConditions(accountId, filters))!;
+      const [{ matched }] = await tx
+        .select({ matched: sql<number>`count(*)::int` })
+        .from(contacts)
+        .where(matching);
+      
+      switch (operation.action) {
+        case "delete": {
+          const deleted = await tx.update(contacts)
+            .set({ deletedAt: new Date() })
+            .where(matching)
+            .returning({ id: contacts.id });
+          return { matched, changed: deleted.length };
+        }
+        case "setLabel":
+        case "setLocation": {
+          const [column, value] = operation.action === "setLabel"
+            ? [contacts.label, operation.label || null]
+            : [contacts.location, operation.location || null];
+          const updated = await tx.update(contacts)
+            .set(operation.action === "setLabel" ? { label: value } : { location: value })
+            .where(and(matching, sql`${column} is distinct from ${value}`))
+            .returning({ id: contacts.id });
+          return { matched, changed: updated.length };
+        }
+        case "addTags": {
+          let added = 0;
+          for (const tagId of operation.tagIds) {
+            const result = await tx.execute(sql`
+              insert into ${contactTags} (contact_id, tag_id)
+              select ${contacts.id}, ${tagId} from ${contacts} where ${matching}
+              on conflict do nothing
+            `);
+            added += result.rowCount ?? 0;
+          }
+          return { matched, changed: added };
+        }
+        case "removeTags": {
+          const removed = await tx.delete(contactTags)
+            .where(
+              and(
+                inArray(contactTags.tagId, operation.tagIds),
+                inArray(contactTags.contactId, tx.select({ id: contacts.id }).from(contacts).where(matching))
+              )
             )
-          );
-        return locationResults;
+            .returning({ contactId: contactTags.contactId });
+          return { matched, changed: removed.length };
+        }
+        case "setOptOut": {
+          const updated = await tx.update(contacts)
+            .set({ optedOut: operation.optedOut, optedOutAt: operation.optedOut ? new Date() : null })
+            .where(and(matching, sql`${contacts.optedOut} <> ${operation.optedOut}`))
+            .returning({ id: contacts.id });
+          for (let start = 0; start < updated.length; start += OPT_OUT_EVENT_BATCH_SIZE) {
+            await tx.insert(optOutEvents).values(
+              updated.slice(start, start + OPT_OUT_EVENT_BATCH_SIZE).map(({ id }) => ({
+                contactId: id,
+                accountId,
+                optedOut: operation.optedOut,
+                source: "manual",
+                userId,
+                createdAt: new Date()
+              }))
+            );
+          }
+          return { matched, changed: updated.length };
+        }
       }
+    });
+  }
+
+  /**
+   * Insert contacts in batches, all in one transaction; they must belong to
+   * the same account and have normalized mobiles. A `checkpoint` is saved on
+   * its import job in that transaction, so the job's progress never runs
+   * ahead of or behind the contacts it imported.
+   */
+  async importContacts(contactsList: ContactImport[], deduplicateByMobile: boolean, checkpoint?: ImportCheckpoint): Promise<{ imported: number, duplicates: number }> {
+    if (contactsList.length === 0 && !checkpoint) return { imported: 0, duplicates: 0 };
+    
+    // Tags are created up front; one left unused by a failed import does no harm
+    const accountId = contactsList[0]?.accountId;
+    const tagNames = Array.from(new Set(contactsList.flatMap(contact => contact.tags || [])));
+    const tagIds = new Map(tagNames.length > 0
+      ? (await this.findOrCreateTags(accountId, tagNames)).map(tag => [tag.name.toLowerCase(), tag.id])
+      : []);
+    
+    return await db.transaction(async (tx) => {
+      let imported = 0;
+      let duplicates = 0;
       
-      if (filters.dateRange) {
-        const now = new Date();
-        let startDate = new Date();
+      for (let start = 0; start < contactsList.length; start += CONTACT_IMPORT_BATCH_SIZE) {
+        let batch = contactsList.slice(start, start + CONTACT_IMPORT_BATCH_SIZE);
         
-        switch (filters.dateRange) {
-          case 'today':
-            startDate.setHours(0, 0, 0, 0);
-            break;
-          case 'last-week':
-            startDate.setDate(now.getDate() - 7);
-            break;
-          case 'last-month':
-            startDate.setMonth(now.getMonth() - 1);
-            break;
-          case 'last-year':
-            startDate.setFullYear(now.getFullYear() - 1);
-            break;
+        if (deduplicateByMobile) {
+          // Skip mobiles the account already has, and repeats within the batch
+          const existing = await tx
+            .select({ mobile: contacts.mobile })
+            .from(contacts)
+            .where(and(
+              eq(contacts.accountId, accountId),
+              inArray(contacts.mobile, batch.map(contact => contact.mobile)),
+              isNull(contacts.deletedAt)
+            ));
+          const seen = new Set(existing.map(contact => contact.mobile));
+          const unique = batch.filter(contact => {
+            if (seen.has(contact.mobile)) return false;
+            seen.add(contact.mobile);
+            return true;
+          });
+          duplicates += batch.length - unique.length;
+          batch = unique;
         }
+        if (batch.length === 0) continue;
         
-        // Apply date range filter
-        const dateResults = await db.select().from(contacts)
-          .where(
-            and(
-              eq(contacts.accountId, accountId),
-              gte(contacts.createdAt, startDate)
-            )
-          );
-        return dateResults;
+        // Rows come back in the order they were inserted
+        const created = await tx
+          .insert(contacts)
+          .values(batch.map(({ tags: _, ...contact }) => ({ ...contact, customFields: contact.customFields || {} })))
+          .returning({ id: contacts.id });
+        imported += created.length;
+        
+        const assignments = created.flatMap((row, i) =>
+          (batch[i].tags || []).map(name => ({ contactId: row.id, tagId: tagIds.get(name.trim().toLowerCase())! }))
+        );
+        if (assignments.length > 0) {
+          await tx.insert(contactTags).values(assignments).onConflictDoNothing();
+        }
       }
+      
+      if (checkpoint) {
+        await tx.update(importJobs)
+          .set(checkpoint.progress({ imported, duplicates }))
+          .where(eq(importJobs.id, checkpoint.jobId));
+      }
+      return { imported, duplicates };
+    });
+  }
+
+  // IMPORT JOB METHODS
+  async createImportJob(job: InsertImportJob & { totalRows?: number | null }): Promise<ImportJob> {
+    const result = await db.insert(importJobs).values(job).returning();
+    return result[0];
+  }
+
+  async getImportJobById(id: number): Promise<ImportJob | undefined> {
+    const result = await db.select().from(importJobs).where(eq(importJobs.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getImportJobs(accountId: number, limit = 20): Promise<ImportJob[]> {
+    return await db
+      .select()
+      .from(importJobs)
+      .where(eq(importJobs.accountId, accountId))
+      .orderBy(desc(importJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getImportJobsByStatus(statuses: string[]): Promise<ImportJob[]> {
+    return await db.select().from(importJobs).where(inArray(importJobs.status, statuses));
+  }
+
+  async updateImportJob(id: number, updateData: Partial<ImportJob>): Promise<ImportJob | undefined> {
+    const { id: _, ...data } = updateData;
+    const result = await db
+      .update(importJobs)
+      .set(data)
+      .where(eq(importJobs.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // CUSTOM FIELD METHODS
+  async getCustomFields(accountId: number): Promise<CustomField[]> {
+    return await db
+      .select()
+      .from(customFields)
+      .where(eq(customFields.accountId, accountId))
+      .orderBy(customFields.id);
+  }
+
+  async getCustomFieldById(id: number): Promise<CustomField | undefined> {
+    const result = await db.select().from(customFields).where(eq(customFields.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getCustomFieldByKey(accountId: number, key: string): Promise<CustomField | undefined> {
+    const result = await db.select().from(customFields)
+      .where(
+        and(
+          eq(customFields.accountId, accountId),
+          eq(customFields.key, key)
+        )
+      );
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createCustomField(insertField: InsertCustomField): Promise<CustomField> {
+    const result = await db
+      .insert(customFields)
+      .values({ ...insertField, options: insertField.options || null })
+      .returning();
+    return result[0];
+  }
+
+  async updateCustomField(id: number, updateData: Partial<InsertCustomField>): Promise<CustomField | undefined> {
+    const result = await db
+      .update(customFields)
+      .set(updateData)
+      .where(eq(customFields.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteCustomField(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(customFields).where(eq(customFields.id, id)).returning();
+      if (result.length === 0) return false;
+      
+      // Drop the field's values so they don't come back if the key is reused
+      const { accountId, key } = result[0];
+      await tx
+        .update(contacts)
+        .set({ customFields: sql`${contacts.customFields} - ${key}::text` })
+        .where(eq(contacts.accountId, accountId));
+      return true;
+    });
+  }
+
+  // TAG METHODS
+  async getTags(accountId: number): Promise<Tag[]> {
+    return await db
+      .select()
+      .from(tags)
+      .where(eq(tags.accountId, accountId))
+      .orderBy(tags.name);
+  }
+
+  async getTagById(id: number): Promise<Tag | undefined> {
+    const result = await db.select().from(tags).where(eq(tags.id, id));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getTagByName(accountId: number, name: string): Promise<Tag | undefined> {
+    const result = await db.select().from(tags)
+      .where(
+        and(
+          eq(tags.accountId, accountId),
+          sql`lower(${tags.name}) = lower(${name.trim()})`
+        )
+      );
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const result = await db
+      .insert(tags)
+      .values({ ...insertTag, name: insertTag.name.trim() })
+      .returning();
+    return result[0];
+  }
+
+  async updateTag(id: number, updateData: Partial<InsertTag>): Promise<Tag | undefined> {
+    const result = await db
+      .update(tags)
+      .set(updateData.name ? { ...updateData, name: updateData.name.trim() } : updateData)
+      .where(eq(tags.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    // Assignments go with the tag through the contact_tags foreign key
+    const result = await db.delete(tags).where(eq(tags.id, id)).returning({ id: tags.id });
+    return result.length > 0;
+  }
+
+  async findOrCreateTags(accountId: number, names: string[]): Promise<Tag[]> {
+    const found: Tag[] = [];
+    for (const name of names) {
+      const existing = await this.getTagByName(accountId, name);
+      if (existing) {
+        found.push(existing);
+        continue;
+      }
+      
+      // Another import may create the same tag first; fall back to theirs
+      const created = await db
+        .insert(tags)
+        .values({ accountId, name: name.trim() })
+        .onConflictDoNothing()
+        .returning();
+      found.push(created[0] ?? (await this.getTagByName(accountId, name))!);
     }
-    
-    // Default query with no filters
-    const results = await query;
-    return results;
+    return found;
+  }
+
+  // Tag assignments of the account, or only of the given contacts
+  async getContactTags(accountId: number, contactIds?: number[]): Promise<ContactTag[]> {
+    const select = () => db
+      .select({
+        contactId: contactTags.contactId,
+        tagId: contactTags.tagId,
+        createdAt: contactTags.createdAt
+      })
+      .from(contactTags)
+      .innerJoin(tags, eq(contactTags.tagId, tags.id));
+    if (!contactIds) return await select().where(eq(tags.accountId, accountId));
+
+    const found: ContactTag[] = [];
+    for (let i = 0; i < contactIds.length; i += CONTACT_TAG_LOOKUP_BATCH_SIZE) {
+      const batch = contactIds.slice(i, i + CONTACT_TAG_LOOKUP_BATCH_SIZE);
+      found.push(...await select().where(and(eq(tags.accountId, accountId), inArray(contactTags.contactId, batch))));
+    }
+    return found;
+  }
+
+  // How many contacts outside the trash carry each tag
+  async getTagContactCounts(accountId: number): Promise<Map<number, number>> {
+    const rows = await db
+      .select({ tagId: contactTags.tagId, count: sql<number>`count(*)`.mapWith(Number) })
+      .from(contactTags)
+      .innerJoin(tags, eq(contactTags.tagId, tags.id))
+      .innerJoin(contacts, eq(contactTags.contactId, contacts.id))
+      .where(and(eq(tags.accountId, accountId), isNull(contacts.deletedAt)))
+      .groupBy(contactTags.tagId);
+    return new Map(rows.map(row => [row.tagId, row.count]));
+  }
+
+  async setContactTags(contactId: number, tagIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(contactTags).where(
+        tagIds.length > 0
+          ? and(eq(contactTags.contactId, contactId), notInArray(contactTags.tagId, tagIds))
+          : eq(contactTags.contactId, contactId)
+      );
+      if (tagIds.length > 0) {
+        await tx
+          .insert(contactTags)
+          .values(tagIds.map(tagId => ({ contactId, tagId })))
+          .onConflictDoNothing();
+      }
+    });
   }
 
-  async getContactById(id: number): Promise<Contact | undefined> {
-    const result = await db.select().from(contacts).where(eq(contacts.id, id));
-    return result.length > 0 ? result[0] : undefined;
+  async addContactTags(contactIds: number[], tagIds: number[]): Promise<number> {
+    if (contactIds.length === 0 || tagIds.length === 0) return 0;
+    
+    const result = await db
+      .insert(contactTags)
+      .values(contactIds.flatMap(contactId => tagIds.map(tagId => ({ contactId, tagId }))))
+      .onConflictDoNothing()
+      .returning({ contactId: contactTags.contactId });
+    return result.length;
   }
 
-  async getContactByMobile(mobile: string, accountId: number): Promise<Contact | undefined> {
-    const result = await db.select()
-      .from(contacts)
+  async removeContactTags(contactIds: number[], tagIds: number[]): Promise<number> {
+    if (contactIds.length === 0 || tagIds.length === 0) return 0;
+    
+    const result = await db
+      .delete(contactTags)
       .where(
         and(
-          eq(contacts.mobile, mobile),
-          eq(contacts.accountId, accountId)
+          inArray(contactTags.contactId, contactIds),
+          inArray(contactTags.tagId, tagIds)
         )
-      );
+      )
+      .returning({ contactId: contactTags.contactId });
+    return result.length;
+  }
+
+  // SEGMENT METHODS
+  async getSegments(accountId: number): Promise<Segment[]> {
+    return await db
+      .select()
+      .from(segments)
+      .where(eq(segments.accountId, accountId))
+      .orderBy(segments.name);
+  }
+
+  async getSegmentById(id: number): Promise<Segment | undefined> {
+    const result = await db.select().from(segments).where(eq(segments.id, id));
     return result.length > 0 ? result[0] : undefined;
   }
 
-  async createContact(insertContact: InsertContact): Promise<Contact> {
+  async createSegment(insertSegment: InsertSegment): Promise<Segment> {
     const result = await db
-      .insert(contacts)
-      .values({ 
-        ...insertContact, 
-        location: insertContact.location || null,
-        label: insertContact.label || null,
-        createdAt: new Date() 
-      })
+      .insert(segments)
+      .values({ ...insertSegment, description: insertSegment.description || null })
       .returning();
     return result[0];
   }
 
-  async updateContact(id: number, updateData: Partial<InsertContact>): Promise<Contact | undefined> {
+  async updateSegment(id: number, updateData: Partial<InsertSegment>): Promise<Segment | undefined> {
     const result = await db
-      .update(contacts)
-      .set(updateData)
-      .where(eq(contacts.id, id))
+      .update(segments)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(segments.id, id))
       .returning();
     return result.length > 0 ? result[0] : undefined;
   }
 
-  async deleteContact(id: number): Promise<boolean> {
-    const result = await db.delete(contacts).where(eq(contacts.id, id)).returning();
+  async deleteSegment(id: number): Promise<boolean> {
+    const result = await db.delete(segments).where(eq(segments.id, id)).returning({ id: segments.id });
     return result.length > 0;
   }
 
-  async importContacts(contactsList: InsertContact[], deduplicateByMobile: boolean): Promise<{ imported: number, duplicates: number }> {
-    let imported = 0;
-    let duplicates = 0;
-    
-    for (const contact of contactsList) {
-      if (deduplicateByMobile) {
-        const existing = await this.getContactByMobile(contact.mobile, contact.accountId);
-        if (existing) {
-          duplicates++;
-          continue;
-        }
-      }
-      
-      await this.createContact(contact);
-      imported++;
-    }
-    
-    return { imported, duplicates };
+  async getSegmentContacts(accountId: number, rules: SegmentGroup): Promise<Contact[]> {
+    return await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.accountId, accountId), isNull(contacts.deletedAt), segmentCondition(rules)));
+  }
+
+  async countSegmentContacts(accountId: number, rules: SegmentGroup): Promise<number> {
+    const result = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(contacts)
+      .where(and(eq(contacts.accountId, accountId), isNull(contacts.deletedAt), segmentCondition(rules)));
+    return result[0]?.count ?? 0;
   }
 
   // CAMPAIGN METHODS
   async getCampaigns(accountId: number, filters?: CampaignFilters): Promise<Campaign[]> {
-    let query = db.select().from(campaigns).where(eq(campaigns.accountId, accountId));
+    let query = db.select().from(campaigns).where(and(eq(campaigns.accountId, accountId), isNull(campaigns.deletedAt)));
     
     if (filters) {
       if (filters.search) {
@@ -347,6 +1442,7 @@ export class DatabaseStorage implements IStorage {
           .where(
             and(
               eq(campaigns.accountId, accountId),
+              isNull(campaigns.deletedAt),
               like(campaigns.name, searchTerm)
             )
           );
@@ -359,6 +1455,7 @@ export class DatabaseStorage implements IStorage {
           .where(
             and(
               eq(campaigns.accountId, accountId),
+              isNull(campaigns.deletedAt),
               eq(campaigns.status, filters.status)
             )
           );
@@ -389,6 +1486,7 @@ export class DatabaseStorage implements IStorage {
           .where(
             and(
               eq(campaigns.accountId, accountId),
+              isNull(campaigns.deletedAt),
               gte(campaigns.createdAt, startDate)
             )
           );
@@ -402,7 +1500,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getCampaignById(id: number): Promise<Campaign | undefined> {
-    const result = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    const result = await db.select().from(campaigns).where(and(eq(campaigns.id, id), isNull(campaigns.deletedAt)));
     return result.length > 0 ? result[0] : undefined;
   }
 
@@ -412,7 +1510,7 @@ export class DatabaseStorage implements IStorage {
       .values({ 
         ...insertCampaign, 
         contactLabel: insertCampaign.contactLabel || null,
-        status: "draft", 
+        status: insertCampaign.scheduledFor ? "scheduled" : "draft", 
         createdAt: new Date() 
       })
       .returning();
@@ -420,59 +1518,294 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateCampaign(id: number, updateData: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const campaign = await this.getCampaignById(id);
+    if (!campaign) return undefined;
+    
     const result = await db
       .update(campaigns)
-      .set(updateData)
+      .set({
+        ...updateData,
+        status: scheduledStatusFor(campaign, updateData)
+      })
       .where(eq(campaigns.id, id))
       .returning();
     return result.length > 0 ? result[0] : undefined;
   }
 
+  // Move a campaign to the trash, keeping its messages in case it is restored
   async deleteCampaign(id: number): Promise<boolean> {
-    const result = await db.delete(campaigns).where(eq(campaigns.id, id)).returning();
+    const result = await db.update(campaigns)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(campaigns.id, id), isNull(campaigns.deletedAt)))
+      .returning({ id: campaigns.id });
     return result.length > 0;
   }
   
   async launchCampaign(id: number): Promise<boolean> {
     const result = await db
       .update(campaigns)
-      .set({ status: "active" })
+      .set({ status: "active", launchedAt: new Date(), launchError: null })
       .where(eq(campaigns.id, id))
       .returning();
     
     if (result.length === 0) return false;
     
-    // Create initial analytics entry
-    await this.createOrUpdateAnalytics({
-      campaignId: id,
-      sent: 0,
-      delivered: 0,
-      read: 0,
-      optout: 0,
-      hold: 0,
-      failed: 0,
-      accountId: result[0].accountId
-    });
+    // Create the analytics entry from the messages recorded at launch
+    await this.refreshCampaignAnalytics(id);
     
     return true;
   }
 
-  // ANALYTICS METHODS
-  async getAnalytics(accountId: number, campaignId?: number): Promise<Analytics[]> {
-    if (campaignId) {
-      const result = await db.select().from(analytics)
-        .where(
-          and(
-            eq(analytics.accountId, accountId),
-            eq(analytics.campaignId, campaignId)
-          )
+  async getDueScheduledCampaigns(now: Date): Promise<Campaign[]> {
+    return await db.select().from(campaigns)
+      .where(
+        and(
+          eq(campaigns.status, "scheduled"),
+          lte(campaigns.scheduledFor, now),
+          isNull(campaigns.deletedAt)
+        )
+      );
+  }
+
+  async getCampaignsByStatus(status: string): Promise<Campaign[]> {
+    return await db.select().from(campaigns).where(and(eq(campaigns.status, status), isNull(campaigns.deletedAt)));
+  }
+
+  async claimCampaignForLaunch(id: number, fromStatuses: string[]): Promise<Campaign | undefined> {
+    // Conditional update so only one caller can move a campaign into "launching"
+    const result = await db
+      .update(campaigns)
+      .set({ status: "launching", launchError: null })
+      .where(
+        and(
+          eq(campaigns.id, id),
+          inArray(campaigns.status, fromStatuses),
+          isNull(campaigns.deletedAt)
+        )
+      )
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async markCampaignLaunchFailed(id: number, error: string): Promise<void> {
+    await db
+      .update(campaigns)
+      .set({ status: "failed", launchError: error })
+      .where(eq(campaigns.id, id));
+  }
+
+  // TRASH METHODS
+  async getDeletedContacts(accountId: number): Promise<Contact[]> {
+    return await db.select().from(contacts)
+      .where(and(eq(contacts.accountId, accountId), isNotNull(contacts.deletedAt)))
+      .orderBy(desc(contacts.deletedAt));
+  }
+
+  async getDeletedCampaigns(accountId: number): Promise<Campaign[]> {
+    return await db.select().from(campaigns)
+      .where(and(eq(campaigns.accountId, accountId), isNotNull(campaigns.deletedAt)))
+      .orderBy(desc(campaigns.deletedAt));
+  }
+
+  // Take contacts of the account back out of the trash; IDs of other contacts are ignored.
+  // A contact whose mobile was added again while it was in the trash stays there, so restoring never makes a duplicate
+  async restoreContacts(accountId: number, ids: number[]): Promise<ContactRestoreResult> {
+    if (ids.length === 0) return { restored: 0, conflicts: [] };
+    return await db.transaction(async (tx) => {
+      const trashed = await tx.select().from(contacts)
+        .where(and(eq(contacts.accountId, accountId), inArray(contacts.id, ids), isNotNull(contacts.deletedAt)))
+        .orderBy(contacts.id)
+        .for("update");
+      if (trashed.length === 0) return { restored: 0, conflicts: [] };
+
+      const digits = sql<string>`regexp_replace(${contacts.mobile}, '\\D', '', 'g')`;
+      const active = await tx.select({ digits }).from(contacts)
+        .where(and(
+          eq(contacts.accountId, accountId),
+          isNull(contacts.deletedAt),
+          inArray(digits, Array.from(new Set(trashed.map(contact => mobileDigits(contact.mobile)))))
+        ));
+      const taken = new Set(active.map(row => row.digits));
+
+      const restoring: number[] = [];
+      const conflicts: Contact[] = [];
+      for (const contact of trashed) {
+        const key = mobileDigits(contact.mobile);
+        if (taken.has(key)) {
+          conflicts.push(contact);
+          continue;
+        }
+        taken.add(key);
+        restoring.push(contact.id);
+      }
+      if (restoring.length > 0) {
+        await tx.update(contacts).set({ deletedAt: null }).where(inArray(contacts.id, restoring));
+      }
+      return { restored: restoring.length, conflicts };
+    });
+  }
+
+  // Scheduled campaigns whose time passed while they were in the trash come back as drafts, so they don't send unexpectedly;
+  // launches interrupted while in the trash, which restart recovery skips, come back failed
+  async restoreCampaigns(accountId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await db.update(campaigns)
+      .set({
+        deletedAt: null,
+        status: sql`case
+          when ${campaigns.status} = 'scheduled' and ${campaigns.scheduledFor} <= now() then 'draft'
+          when ${campaigns.status} = 'launching' then 'failed'
+          else ${campaigns.status} end`,
+        launchError: sql`case when ${campaigns.status} = 'launching' then ${INTERRUPTED_LAUNCH_ERROR} else ${campaigns.launchError} end`
+      })
+      .where(and(eq(campaigns.accountId, accountId), inArray(campaigns.id, ids), isNotNull(campaigns.deletedAt)))
+      .returning({ id: campaigns.id });
+    return result.length;
+  }
+
+  // Delete contacts in the trash for good; only contacts already in the trash can be purged
+  async purgeContacts(accountId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    const result = await db.delete(contacts)
+      .where(and(eq(contacts.accountId, accountId), inArray(contacts.id, ids), isNotNull(contacts.deletedAt)))
+      .returning({ id: contacts.id });
+    return result.length;
+  }
+
+  async purgeCampaigns(accountId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(campaigns)
+        .where(and(eq(campaigns.accountId, accountId), inArray(campaigns.id, ids), isNotNull(campaigns.deletedAt)))
+        .returning({ id: campaigns.id });
+      const purged = result.map(campaign => campaign.id);
+      if (purged.length > 0) {
+        await tx.delete(campaignMessages).where(inArray(campaignMessages.campaignId, purged));
+        await tx.delete(analytics).where(inArray(analytics.campaignId, purged));
+      }
+      return purged.length;
+    });
+  }
+
+  // Purge everything, in every account, that went into the trash before `deletedBefore`
+  async purgeTrash(deletedBefore: Date): Promise<{ contacts: number, campaigns: number }> {
+    return await db.transaction(async (tx) => {
+      const purgedContacts = await tx.delete(contacts)
+        .where(lt(contacts.deletedAt, deletedBefore))
+        .returning({ id: contacts.id });
+      const purgedCampaigns = await tx.delete(campaigns)
+        .where(lt(campaigns.deletedAt, deletedBefore))
+        .returning({ id: campaigns.id });
+      if (purgedCampaigns.length > 0) {
+        const purged = purgedCampaigns.map(campaign => campaign.id);
+        await tx.delete(campaignMessages).where(inArray(campaignMessages.campaignId, purged));
+        await tx.delete(analytics).where(inArray(analytics.campaignId, purged));
+      }
+      return { contacts: purgedContacts.length, campaigns: purgedCampaigns.length };
+    });
+  }
+
+  // CAMPAIGN MESSAGE METHODS
+  async replaceCampaignMessages(campaignId: number, messages: InsertCampaignMessage[]): Promise<number> {
+    // Relaunching a failed campaign starts its recipient list over
+    await db.transaction(async (tx) => {
+      await tx.delete(campaignMessages).where(eq(campaignMessages.campaignId, campaignId));
+      
+      for (let i = 0; i < messages.length; i += CAMPAIGN_MESSAGE_BATCH_SIZE) {
+        const now = new Date();
+        await tx.insert(campaignMessages).values(
+          messages.slice(i, i + CAMPAIGN_MESSAGE_BATCH_SIZE).map(message => ({
+            ...message,
+            campaignId,
+            createdAt: now,
+            updatedAt: now
+          }))
         );
-      return result;
+      }
+    });
+    
+    return messages.length;
+  }
+
+  async getCampaignMessages(campaignId: number, filters?: CampaignMessageFilters): Promise<{ messages: CampaignMessageWithContact[], total: number }> {
+    const page = filters?.page && filters.page > 0 ? filters.page : 1;
+    const limit = filters?.limit && filters.limit > 0 ? filters.limit : 50;
+    
+    const conditions = [eq(campaignMessages.campaignId, campaignId)];
+    if (filters?.status) {
+      conditions.push(eq(campaignMessages.status, filters.status));
     }
     
-    const result = await db.select().from(analytics)
-      .where(eq(analytics.accountId, accountId));
-    return result;
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(campaignMessages)
+      .where(and(...conditions));
+    
+    const rows = await db
+      .select({ message: campaignMessages, contactName: contacts.name })
+      .from(campaignMessages)
+      .leftJoin(contacts, eq(campaignMessages.contactId, contacts.id))
+      .where(and(...conditions))
+      .orderBy(campaignMessages.id)
+      .limit(limit)
+      .offset((page - 1) * limit);
+    
+    return {
+      messages: rows.map(row => ({ ...row.message, contactName: row.contactName })),
+      total
+    };
+  }
+
+  async getCampaignMessageByProviderId(providerMessageId: string): Promise<CampaignMessage | undefined> {
+    const result = await db.select().from(campaignMessages)
+      .where(eq(campaignMessages.providerMessageId, providerMessageId));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async findUnmatchedCampaignMessage(accountId: number, mobile: string): Promise<CampaignMessage | undefined> {
+    // Latest message to this number that the gateway did not give us an ID for
+    const result = await db.select().from(campaignMessages)
+      .where(
+        and(
+          eq(campaignMessages.accountId, accountId),
+          isNull(campaignMessages.providerMessageId),
+          sql`regexp_replace(${campaignMessages.mobile}, '\\D', '', 'g') = ${mobileDigits(mobile)}`
+        )
+      )
+      .orderBy(desc(campaignMessages.id))
+      .limit(1);
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async getLatestCampaignMessageForContact(contactId: number): Promise<CampaignMessage | undefined> {
+    const result = await db.select().from(campaignMessages)
+      .where(eq(campaignMessages.contactId, contactId))
+      .orderBy(desc(campaignMessages.id))
+      .limit(1);
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async updateCampaignMessage(id: number, update: CampaignMessageUpdate): Promise<CampaignMessage | undefined> {
+    const result = await db
+      .update(campaignMessages)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(campaignMessages.id, id))
+      .returning();
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  // ANALYTICS METHODS
+  // Analytics of campaigns outside the trash
+  async getAnalytics(accountId: number, campaignId?: number): Promise<Analytics[]> {
+    return await db.select(getTableColumns(analytics)).from(analytics)
+      .innerJoin(campaigns, eq(analytics.campaignId, campaigns.id))
+      .where(
+        and(
+          eq(analytics.accountId, accountId),
+          isNull(campaigns.deletedAt),
+          campaignId ? eq(analytics.campaignId, campaignId) : undefined
+        )
+      );
   }
 
   async createOrUpdateAnalytics(insertAnalytics: InsertAnalytics): Promise<Analytics> {
@@ -518,6 +1851,88 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
   
+  async refreshCampaignAnalytics(campaignId: number): Promise<Analytics | undefined> {
+    const campaign = await this.getCampaignById(campaignId);
+    if (!campaign) return undefined;
+    
+    const rows = await db
+      .select({ status: campaignMessages.status, count: sql<number>`count(*)::int` })
+      .from(campaignMessages)
+      .where(eq(campaignMessages.campaignId, campaignId))
+      .groupBy(campaignMessages.status);
+    
+    const counts = Object.fromEntries(rows.map(row => [row.status, row.count]));
+    return this.createOrUpdateAnalytics({
+      campaignId,
+      accountId: campaign.accountId,
+      ...summarizeMessageStatuses(counts)
+    });
+  }
+  
+  // MESSAGE TEMPLATE METHODS
+  async getMessageTemplates(accountId: number): Promise<MessageTemplate[]> {
+    return await db
+      .select()
+      .from(messageTemplates)
+      .where(eq(messageTemplates.accountId, accountId))
+      .orderBy(messageTemplates.name, messageTemplates.language);
+  }
+
+  async getMessageTemplateByExternalId(accountId: number, externalId: string): Promise<MessageTemplate | undefined> {
+    const result = await db
+      .select()
+      .from(messageTemplates)
+      .where(and(eq(messageTemplates.accountId, accountId), eq(messageTemplates.externalId, externalId)));
+    return result.length > 0 ? result[0] : undefined;
+  }
+
+  async upsertMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate> {
+    const syncedAt = new Date();
+    const result = await db
+      .insert(messageTemplates)
+      .values({ ...template, syncedAt })
+      .onConflictDoUpdate({
+        target: [messageTemplates.accountId, messageTemplates.externalId],
+        set: { ...template, syncedAt }
+      })
+      .returning();
+    return result[0];
+  }
+
+  async replaceMessageTemplates(accountId: number, templates: InsertMessageTemplate[]): Promise<number> {
+    const syncedAt = new Date();
+
+    await db.transaction(async (tx) => {
+      for (const template of templates) {
+        await tx
+          .insert(messageTemplates)
+          .values({ ...template, accountId, syncedAt })
+          .onConflictDoUpdate({
+            target: [messageTemplates.accountId, messageTemplates.externalId],
+            set: { ...template, accountId, syncedAt }
+          });
+      }
+
+      // Templates that are no longer on Meta's side were deleted there
+      await tx
+        .delete(messageTemplates)
+        .where(and(
+          eq(messageTemplates.accountId, accountId),
+          sql`${messageTemplates.syncedAt} < ${syncedAt}`
+        ));
+    });
+
+    return templates.length;
+  }
+
+  async deleteMessageTemplate(accountId: number, externalId: string): Promise<boolean> {
+    const result = await db
+      .delete(messageTemplates)
+      .where(and(eq(messageTemplates.accountId, accountId), eq(messageTemplates.externalId, externalId)))
+      .returning({ id: messageTemplates.id });
+    return result.length > 0;
+  }
+
   // SETTINGS METHODS
   async getSettings(accountId: number): Promise<Settings | undefined> {
     const result = await db
@@ -528,6 +1943,10 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0 ? result[0] : undefined;
   }
   
+  async getAllSettings(): Promise<Settings[]> {
+    return await db.select().from(settings);
+  }
+  
   async updateSettings(accountId: number, settingsData: Partial<InsertSettings>): Promise<Settings> {
     // Check if settings already exist for this account
     const existing = await this.getSettings(accountId);
@@ -556,33 +1975,80 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return result[0];
   }
+
+  async getSettingsByPhoneNumberId(phoneNumberId: string): Promise<Settings | undefined> {
+    const result = await db
+      .select()
+      .from(settings)
+      .where(eq(settings.phoneNumberId, phoneNumberId));
+    
+    return result.length > 0 ? result[0] : undefined;
+  }
 }
 
 // In-memory storage implementation for local development
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private accounts: Map<number, Account>;
+  private invitations: Map<number, Invitation>;
   private contacts: Map<number, Contact>;
+  private customFieldsData: Map<number, CustomField>;
+  private tagsData: Map<number, Tag>;
+  private contactTagsData: Map<string, ContactTag>; // keyed "contactId:tagId"
+  private optOutEventsData: Map<number, OptOutEvent>;
+  private importJobsData: Map<number, ImportJob>;
+  private segmentsData: Map<number, Segment>;
   private campaigns: Map<number, Campaign>;
+  private campaignMessagesData: Map<number, CampaignMessage>;
+  private messageTemplatesData: Map<number, MessageTemplate>;
   private analyticsData: Map<number, Analytics>;
   private settingsData: Map<number, Settings>;
   sessionStore: session.Store;
   
   private userCurrentId: number;
+  private accountCurrentId: number;
+  private invitationCurrentId: number;
   private contactCurrentId: number;
+  private customFieldCurrentId: number;
+  private tagCurrentId: number;
+  private optOutEventCurrentId: number;
+  private importJobCurrentId: number;
+  private segmentCurrentId: number;
   private campaignCurrentId: number;
+  private campaignMessageCurrentId: number;
+  private messageTemplateCurrentId: number;
   private analyticsCurrentId: number;
   private settingsCurrentId: number;
 
   constructor() {
     this.users = new Map();
+    this.accounts = new Map();
+    this.invitations = new Map();
     this.contacts = new Map();
+    this.customFieldsData = new Map();
+    this.tagsData = new Map();
+    this.contactTagsData = new Map();
+    this.optOutEventsData = new Map();
+    this.importJobsData = new Map();
+    this.segmentsData = new Map();
     this.campaigns = new Map();
+    this.campaignMessagesData = new Map();
+    this.messageTemplatesData = new Map();
     this.analyticsData = new Map();
     this.settingsData = new Map();
     
     this.userCurrentId = 1;
+    this.accountCurrentId = 1;
+    this.invitationCurrentId = 1;
     this.contactCurrentId = 1;
+    this.customFieldCurrentId = 1;
+    this.tagCurrentId = 1;
+    this.optOutEventCurrentId = 1;
+    this.importJobCurrentId = 1;
+    this.segmentCurrentId = 1;
     this.campaignCurrentId = 1;
+    this.campaignMessageCurrentId = 1;
+    this.messageTemplateCurrentId = 1;
     this.analyticsCurrentId = 1;
     this.settingsCurrentId = 1;
     
@@ -604,7 +2070,7 @@ export class MemStorage implements IStorage {
   
   async getUserByEmail(email: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.email === email,
+      (user) => user.email?.toLowerCase() === email.toLowerCase(),
     );
   }
 
@@ -616,6 +2082,7 @@ export class MemStorage implements IStorage {
       id, 
       createdAt,
       email: insertUser.email || null,
+      role: insertUser.role || "admin",
       resetToken: null, 
       resetTokenExpiry: null 
     };
@@ -676,64 +2143,246 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  async updateUserRole(userId: number, role: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, role };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  // ACCOUNT METHODS
+  async getAccount(id: number): Promise<Account | undefined> {
+    return this.accounts.get(id);
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const id = this.accountCurrentId++;
+    const account: Account = { ...insertAccount, defaultCountry: insertAccount.defaultCountry ?? DEFAULT_COUNTRY, id, createdAt: new Date() };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  async createAccountWithUser(insertAccount: InsertAccount, insertUser: Omit<InsertUser, "accountId">): Promise<{ account: Account, user: User }> {
+    const account = await this.createAccount(insertAccount);
+    const user = await this.createUser({ ...insertUser, accountId: account.id });
+    return { account, user };
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    const account = this.accounts.get(id);
+    if (!account) return undefined;
+    
+    const updatedAccount = { ...account, ...updateData };
+    this.accounts.set(id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async getAccountMembers(accountId: number): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.accountId === accountId
+    );
+  }
+
+  // INVITATION METHODS
+  async getPendingInvitations(accountId: number): Promise<Invitation[]> {
+    return Array.from(this.invitations.values())
+      .filter(invitation => invitation.accountId === accountId && invitation.status === "pending")
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getInvitationById(id: number): Promise<Invitation | undefined> {
+    return this.invitations.get(id);
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const id = this.invitationCurrentId++;
+    const { token, expiresAt } = generateInvitationToken();
+    const invitation: Invitation = {
+      id,
+      accountId: insertInvitation.accountId,
+      email: insertInvitation.email.toLowerCase(),
+      role: insertInvitation.role || "viewer",
+      invitedBy: insertInvitation.invitedBy,
+      token,
+      expiresAt,
+      status: "pending",
+      acceptedAt: null,
+      createdAt: new Date()
+    };
+    this.invitations.set(id, invitation);
+    return invitation;
+  }
+
+  async renewInvitation(id: number): Promise<Invitation | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.status !== "pending") return undefined;
+    
+    // Issue a fresh token so any previously sent link stops working
+    const updatedInvitation = { ...invitation, ...generateInvitationToken() };
+    this.invitations.set(id, updatedInvitation);
+    return updatedInvitation;
+  }
+
+  async verifyInvitationToken(token: string): Promise<Invitation | undefined> {
+    const invitation = Array.from(this.invitations.values()).find(
+      (invitation) => invitation.token === token
+    );
+    
+    // Only pending, unexpired invitations can be used
+    if (!invitation || invitation.status !== "pending" || invitation.expiresAt < new Date()) {
+      return undefined;
+    }
+    
+    return invitation;
+  }
+
+  async acceptInvitation(id: number, insertUser: InsertUser): Promise<User | undefined> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.status !== "pending") return undefined;
+    
+    this.invitations.set(id, { ...invitation, status: "accepted", acceptedAt: new Date() });
+    return await this.createUser(insertUser);
+  }
+
+  async revokeInvitation(id: number): Promise<boolean> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitation.status !== "pending") return false;
+    
+    this.invitations.set(id, { ...invitation, status: "revoked" });
+    return true;
+  }
+
+  // Names of the tags a contact has, for searching and exporting
+  private contactTagNames(contactId: number): string[] {
+    return Array.from(this.contactTagsData.values())
+      .filter(assignment => assignment.contactId === contactId)
+      .map(assignment => this.tagsData.get(assignment.tagId)?.name)
+      .filter((name): name is string => !!name);
+  }
+
   // CONTACT METHODS
   async getContacts(accountId: number, filters?: ContactFilters): Promise<Contact[]> {
     let contacts = Array.from(this.contacts.values()).filter(
-      (contact) => contact.accountId === accountId
+      (contact) => contact.accountId === accountId && !contact.deletedAt
     );
     
     if (filters) {
-      if (filters.search) {
-        const searchTerm = filters.search.toLowerCase();
-        contacts = contacts.filter(contact => 
-          contact.name.toLowerCase().includes(searchTerm) || 
-          contact.mobile.toLowerCase().includes(searchTerm)
-        );
-      }
-      
-      if (filters.label) {
-        contacts = contacts.filter(contact => contact.label === filters.label);
-      }
-      
-      if (filters.location) {
-        contacts = contacts.filter(contact => contact.location === filters.location);
-      }
-      
-      if (filters.dateRange) {
-        const now = new Date();
-        let startDate = new Date();
-        
-        switch (filters.dateRange) {
-          case 'today':
-            startDate.setHours(0, 0, 0, 0);
-            break;
-          case 'last-week':
-            startDate.setDate(now.getDate() - 7);
-            break;
-          case 'last-month':
-            startDate.setMonth(now.getMonth() - 1);
-            break;
-          case 'last-year':
-            startDate.setFullYear(now.getFullYear() - 1);
-            break;
-        }
-        
+      if (filters.search) {
+        const search = filters.search;
+        contacts = contacts.filter(contact => scoreContactSearch(contact, search, this.contactTagNames(contact.id)) > 0);
+      }
+      
+      if (filters.label) {
+        contacts = contacts.filter(contact => contact.label === filters.label);
+      }
+      
+      if (filters.tagId) {
+        contacts = contacts.filter(contact => this.contactTagsData.has(`${contact.id}:${filters.tagId}`));
+      }
+      
+      for (const [key, value] of Object.entries(filters.customFields || {})) {
+        contacts = contacts.filter(contact => {
+          const stored = contact.customFields?.[key];
+          return stored !== undefined && String(stored).toLowerCase() === value.toLowerCase();
+        });
+      }
+      
+      if (filters.location) {
+        contacts = contacts.filter(contact => contact.location === filters.location);
+      }
+      
+      const startDate = filters.dateRange ? dateRangeStart(filters.dateRange) : undefined;
+      if (startDate) {
         contacts = contacts.filter(contact => 
           new Date(contact.createdAt) >= startDate
         );
       }
+      
+      if (filters.ids) {
+        const ids = new Set(filters.ids);
+        contacts = contacts.filter(contact => ids.has(contact.id));
+      }
     }
     
     return contacts;
   }
 
+  async getContactPage(accountId: number, filters: ContactFilters | undefined, options: ContactPageOptions): Promise<ContactPage> {
+    const matching = await this.getContacts(accountId, filters);
+    if (options.sort === "relevance") {
+      const search = filters?.search ?? "";
+      const ranked = matching
+        .map(contact => ({ contact, score: scoreContactSearch(contact, search, this.contactTagNames(contact.id)) }))
+        .sort((a, b) => b.score - a.score || b.contact.id - a.contact.id)
+        .map(({ contact }) => contact);
+      const rows = ranked.slice((options.page - 1) * options.pageSize, options.page * options.pageSize);
+      return { contacts: rows, total: matching.length, nextCursor: null };
+    }
+    
+    const sortColumn = options.sort;
+    const sign = options.direction === "asc" ? 1 : -1;
+    const compare = (a: Contact, b: Contact) =>
+      sign * (contactSortValue(a, sortColumn).localeCompare(contactSortValue(b, sortColumn)) || a.id - b.id);
+    matching.sort(compare);
+    
+    let rows: Contact[];
+    if (options.cursor) {
+      const { value, id } = options.cursor;
+      rows = matching
+        .filter(contact => {
+          const order = contactSortValue(contact, sortColumn).localeCompare(value) || contact.id - id;
+          return sign * order > 0;
+        })
+        .slice(0, options.pageSize);
+    } else {
+      rows = matching.slice((options.page - 1) * options.pageSize, options.page * options.pageSize);
+    }
+    
+    return { contacts: rows, total: matching.length, nextCursor: nextContactCursor(rows, options) };
+  }
+
+  async getContactFilterOptions(accountId: number): Promise<{ labels: string[], locations: string[] }> {
+    const contacts = await this.getContacts(accountId);
+    const distinctValues = (values: (string | null)[]) =>
+      Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+    return {
+      labels: distinctValues(contacts.map(contact => contact.label)),
+      locations: distinctValues(contacts.map(contact => contact.location))
+    };
+  }
+
+  async getContactExportBatch(accountId: number, filters: ContactFilters | undefined, afterId: number, limit: number): Promise<ContactExportRow[]> {
+    const batch = (await this.getContacts(accountId, filters))
+      .filter(contact => contact.id > afterId)
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+    
+    return batch.map(contact => {
+      const tagNames = this.contactTagNames(contact.id).sort();
+      const sentTimes = Array.from(this.campaignMessagesData.values())
+        .filter(message => message.contactId === contact.id && message.sentAt)
+        .map(message => new Date(message.sentAt!).getTime());
+      return {
+        ...contact,
+        tags: tagNames,
+        lastMessagedAt: sentTimes.length > 0 ? new Date(Math.max(...sentTimes)) : null
+      };
+    });
+  }
+
   async getContactById(id: number): Promise<Contact | undefined> {
-    return this.contacts.get(id);
+    const contact = this.contacts.get(id);
+    return contact && !contact.deletedAt ? contact : undefined;
   }
 
   async getContactByMobile(mobile: string, accountId: number): Promise<Contact | undefined> {
+    const account = await this.getAccount(accountId);
+    const normalized = normalizeMobile(mobile, account?.defaultCountry);
+    const key = "mobile" in normalized ? normalized.mobile : mobile.trim();
     return Array.from(this.contacts.values()).find(
-      (contact) => contact.mobile === mobile && contact.accountId === accountId
+      (contact) => contact.mobile === key && contact.accountId === accountId && !contact.deletedAt
     );
   }
 
@@ -745,7 +2394,11 @@ export class MemStorage implements IStorage {
       id, 
       createdAt,
       location: insertContact.location || null,
-      label: insertContact.label || null
+      label: insertContact.label || null,
+      customFields: insertContact.customFields || {},
+      optedOut: false,
+      optedOutAt: null,
+      deletedAt: null
     };
     this.contacts.set(id, contact);
     return contact;
@@ -761,14 +2414,154 @@ export class MemStorage implements IStorage {
   }
 
   async deleteContact(id: number): Promise<boolean> {
+    const contact = this.contacts.get(id);
+    if (!contact || contact.deletedAt) return false;
+    this.contacts.set(id, { ...contact, deletedAt: new Date() });
+    return true;
+  }
+
+  // Remove a contact and its tag assignments for good
+  private removeContact(id: number): boolean {
+    for (const [key, assignment] of Array.from(this.contactTagsData.entries())) {
+      if (assignment.contactId === id) this.contactTagsData.delete(key);
+    }
     return this.contacts.delete(id);
   }
 
-  async importContacts(contacts: InsertContact[], deduplicateByMobile: boolean): Promise<{ imported: number, duplicates: number }> {
+  async findContactsByMobile(accountId: number, mobile: string, includeDeleted = false): Promise<Contact[]> {
+    return Array.from(this.contacts.values()).filter(
+      (contact) => contact.accountId === accountId && mobileDigits(contact.mobile) === mobileDigits(mobile) &&
+        (includeDeleted || !contact.deletedAt)
+    );
+  }
+
+  async setContactOptOut(contactId: number, event: InsertOptOutEvent): Promise<Contact | undefined> {
+    const contact = this.contacts.get(contactId);
+    if (!contact) return undefined;
+    
+    const updatedContact = {
+      ...contact,
+      optedOut: event.optedOut,
+      optedOutAt: event.optedOut ? new Date() : null
+    };
+    this.contacts.set(contactId, updatedContact);
+    
+    const id = this.optOutEventCurrentId++;
+    this.optOutEventsData.set(id, {
+      id,
+      contactId,
+      accountId: event.accountId,
+      optedOut: event.optedOut,
+      source: event.source,
+      keyword: event.keyword || null,
+      message: event.message || null,
+      providerMessageId: event.providerMessageId || null,
+      userId: event.userId || null,
+      createdAt: new Date()
+    });
+    
+    return updatedContact;
+  }
+
+  async getOptOutEvents(contactId: number): Promise<OptOutEvent[]> {
+    return Array.from(this.optOutEventsData.values())
+      .filter(event => event.contactId === contactId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async mergeContacts(survivorId: number, mergedIds: number[], values: Partial<InsertContact>): Promise<Contact | undefined> {
+    const survivor = this.contacts.get(survivorId);
+    if (!survivor) return undefined;
+    const merged = mergedIds.map(id => this.contacts.get(id)).filter((contact): contact is Contact => !!contact);
+    
+    for (const assignment of Array.from(this.contactTagsData.values())) {
+      if (mergedIds.includes(assignment.contactId)) await this.addContactTags([survivorId], [assignment.tagId]);
+    }
+    
+    for (const event of Array.from(this.optOutEventsData.values())) {
+      if (mergedIds.includes(event.contactId)) event.contactId = survivorId;
+    }
+    
+    const messages = Array.from(this.campaignMessagesData.values()).sort((a, b) => a.id - b.id);
+    const sentCampaigns = new Set(messages.filter(m => m.contactId === survivorId).map(m => m.campaignId));
+    const recounted = new Set<number>();
+    for (const message of messages) {
+      if (!mergedIds.includes(message.contactId)) continue;
+      if (sentCampaigns.has(message.campaignId)) {
+        this.campaignMessagesData.delete(message.id);
+        recounted.add(message.campaignId);
+      } else {
+        sentCampaigns.add(message.campaignId);
+        this.campaignMessagesData.set(message.id, { ...message, contactId: survivorId, updatedAt: new Date() });
+      }
+    }
+    
+    const optedOut = [survivor, ...merged].filter(contact => contact.optedOut);
+    const updated = {
+      ...survivor,
+      ...values,
+      ...(optedOut.length > 0 && {
+        optedOut: true,
+        optedOutAt: survivor.optedOutAt ?? optedOut[0].optedOutAt
+      })
+    };
+    this.contacts.set(survivorId, updated);
+    
+    for (const id of mergedIds) this.removeContact(id);
+    for (const campaignId of Array.from(recounted)) await this.refreshCampaignAnalytics(campaignId);
+    return updated;
+  }
+
+  async bulkUpdateContacts(accountId: number, filters: ContactFilters, operation: ContactBulkOperation, userId: number): Promise<{ matched: number, changed: number }> {
+    const matching = await this.getContacts(accountId, filters);
+    const ids = matching.map(contact => contact.id);
+    let changed = 0;
+    
+    switch (operation.action) {
+      case "delete":
+        for (const id of ids) {
+          if (await this.deleteContact(id)) changed++;
+        }
+        break;
+      case "setLabel":
+      case "setLocation": {
+        const field = operation.action === "setLabel" ? "label" : "location";
+        const value = (operation.action === "setLabel" ? operation.label : operation.location) || null;
+        for (const contact of matching) {
+          if (contact[field] === value) continue;
+          this.contacts.set(contact.id, { ...contact, [field]: value });
+          changed++;
+        }
+        break;
+      }
+      case "addTags":
+        changed = await this.addContactTags(ids, operation.tagIds);
+        break;
+      case "removeTags":
+        changed = await this.removeContactTags(ids, operation.tagIds);
+        break;
+      case "setOptOut":
+        for (const contact of matching) {
+          if (contact.optedOut === operation.optedOut) continue;
+          await this.setContactOptOut(contact.id, {
+            contactId: contact.id,
+            accountId,
+            optedOut: operation.optedOut,
+            source: "manual",
+            userId
+          });
+          changed++;
+        }
+        break;
+    }
+    return { matched: matching.length, changed };
+  }
+
+  async importContacts(contacts: ContactImport[], deduplicateByMobile: boolean, checkpoint?: ImportCheckpoint): Promise<{ imported: number, duplicates: number }> {
     let imported = 0;
     let duplicates = 0;
     
-    for (const contact of contacts) {
+    for (const { tags: tagNames, ...contact } of contacts) {
       if (deduplicateByMobile) {
         const existing = await this.getContactByMobile(contact.mobile, contact.accountId);
         if (existing) {
@@ -777,17 +2570,306 @@ export class MemStorage implements IStorage {
         }
       }
       
-      await this.createContact(contact);
+      const created = await this.createContact(contact);
+      if (tagNames && tagNames.length > 0) {
+        const contactTagList = await this.findOrCreateTags(contact.accountId, tagNames);
+        await this.addContactTags([created.id], contactTagList.map(tag => tag.id));
+      }
       imported++;
     }
     
+    if (checkpoint) await this.updateImportJob(checkpoint.jobId, checkpoint.progress({ imported, duplicates }));
     return { imported, duplicates };
   }
 
+  // IMPORT JOB METHODS
+  async createImportJob(job: InsertImportJob & { totalRows?: number | null }): Promise<ImportJob> {
+    const id = this.importJobCurrentId++;
+    const importJob: ImportJob = {
+      id,
+      accountId: job.accountId,
+      userId: job.userId ?? null,
+      fileName: job.fileName,
+      filePath: job.filePath,
+      sheet: job.sheet ?? null,
+      mapping: job.mapping,
+      deduplicate: job.deduplicate ?? true,
+      status: "queued",
+      totalRows: job.totalRows ?? null,
+      processedRows: 0,
+      imported: 0,
+      duplicates: 0,
+      skipped: 0,
+      errorReportPath: null,
+      error: null,
+      createdAt: new Date(),
+      startedAt: null,
+      completedAt: null
+    };
+    this.importJobsData.set(id, importJob);
+    return importJob;
+  }
+
+  async getImportJobById(id: number): Promise<ImportJob | undefined> {
+    return this.importJobsData.get(id);
+  }
+
+  async getImportJobs(accountId: number, limit = 20): Promise<ImportJob[]> {
+    return Array.from(this.importJobsData.values())
+      .filter(job => job.accountId === accountId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getImportJobsByStatus(statuses: string[]): Promise<ImportJob[]> {
+    return Array.from(this.importJobsData.values()).filter(job => statuses.includes(job.status));
+  }
+
+  async updateImportJob(id: number, updateData: Partial<ImportJob>): Promise<ImportJob | undefined> {
+    const job = this.importJobsData.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...updateData, id };
+    this.importJobsData.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  // CUSTOM FIELD METHODS
+  async getCustomFields(accountId: number): Promise<CustomField[]> {
+    return Array.from(this.customFieldsData.values())
+      .filter(field => field.accountId === accountId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getCustomFieldById(id: number): Promise<CustomField | undefined> {
+    return this.customFieldsData.get(id);
+  }
+
+  async getCustomFieldByKey(accountId: number, key: string): Promise<CustomField | undefined> {
+    return Array.from(this.customFieldsData.values()).find(
+      field => field.accountId === accountId && field.key === key
+    );
+  }
+
+  async createCustomField(insertField: InsertCustomField): Promise<CustomField> {
+    const id = this.customFieldCurrentId++;
+    const field: CustomField = {
+      id,
+      key: insertField.key,
+      name: insertField.name,
+      type: insertField.type,
+      options: insertField.options || null,
+      accountId: insertField.accountId,
+      createdAt: new Date()
+    };
+    this.customFieldsData.set(id, field);
+    return field;
+  }
+
+  async updateCustomField(id: number, updateData: Partial<InsertCustomField>): Promise<CustomField | undefined> {
+    const field = this.customFieldsData.get(id);
+    if (!field) return undefined;
+    
+    const updated: CustomField = {
+      ...field,
+      name: updateData.name ?? field.name,
+      options: updateData.options !== undefined ? updateData.options || null : field.options
+    };
+    this.customFieldsData.set(id, updated);
+    return updated;
+  }
+
+  async deleteCustomField(id: number): Promise<boolean> {
+    const field = this.customFieldsData.get(id);
+    if (!field) return false;
+    
+    // Drop the field's values so they don't come back if the key is reused
+    for (const contact of Array.from(this.contacts.values())) {
+      if (contact.accountId !== field.accountId || !(field.key in contact.customFields)) continue;
+      const { [field.key]: _removed, ...rest } = contact.customFields;
+      this.contacts.set(contact.id, { ...contact, customFields: rest });
+    }
+    return this.customFieldsData.delete(id);
+  }
+
+  // TAG METHODS
+  async getTags(accountId: number): Promise<Tag[]> {
+    return Array.from(this.tagsData.values())
+      .filter(tag => tag.accountId === accountId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTagById(id: number): Promise<Tag | undefined> {
+    return this.tagsData.get(id);
+  }
+
+  async getTagByName(accountId: number, name: string): Promise<Tag | undefined> {
+    const wanted = name.trim().toLowerCase();
+    return Array.from(this.tagsData.values()).find(
+      tag => tag.accountId === accountId && tag.name.toLowerCase() === wanted
+    );
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const id = this.tagCurrentId++;
+    const tag: Tag = {
+      id,
+      name: insertTag.name.trim(),
+      color: insertTag.color || "gray",
+      accountId: insertTag.accountId,
+      createdAt: new Date()
+    };
+    this.tagsData.set(id, tag);
+    return tag;
+  }
+
+  async updateTag(id: number, updateData: Partial<InsertTag>): Promise<Tag | undefined> {
+    const tag = this.tagsData.get(id);
+    if (!tag) return undefined;
+    
+    const updated: Tag = {
+      ...tag,
+      name: updateData.name ? updateData.name.trim() : tag.name,
+      color: updateData.color || tag.color
+    };
+    this.tagsData.set(id, updated);
+    return updated;
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    for (const [key, assignment] of Array.from(this.contactTagsData.entries())) {
+      if (assignment.tagId === id) this.contactTagsData.delete(key);
+    }
+    return this.tagsData.delete(id);
+  }
+
+  async findOrCreateTags(accountId: number, names: string[]): Promise<Tag[]> {
+    const found: Tag[] = [];
+    for (const name of names) {
+      found.push((await this.getTagByName(accountId, name)) ?? (await this.createTag({ accountId, name })));
+    }
+    return found;
+  }
+
+  async getContactTags(accountId: number, contactIds?: number[]): Promise<ContactTag[]> {
+    const wanted = contactIds && new Set(contactIds);
+    return Array.from(this.contactTagsData.values()).filter(
+      assignment => this.tagsData.get(assignment.tagId)?.accountId === accountId &&
+        (!wanted || wanted.has(assignment.contactId))
+    );
+  }
+
+  async getTagContactCounts(accountId: number): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    for (const { contactId, tagId } of await this.getContactTags(accountId)) {
+      if (this.contacts.get(contactId)?.deletedAt) continue;
+      counts.set(tagId, (counts.get(tagId) || 0) + 1);
+    }
+    return counts;
+  }
+
+  async setContactTags(contactId: number, tagIds: number[]): Promise<void> {
+    for (const [key, assignment] of Array.from(this.contactTagsData.entries())) {
+      if (assignment.contactId === contactId && !tagIds.includes(assignment.tagId)) {
+        this.contactTagsData.delete(key);
+      }
+    }
+    await this.addContactTags([contactId], tagIds);
+  }
+
+  async addContactTags(contactIds: number[], tagIds: number[]): Promise<number> {
+    let added = 0;
+    for (const contactId of contactIds) {
+      for (const tagId of tagIds) {
+        const key = `${contactId}:${tagId}`;
+        if (this.contactTagsData.has(key)) continue;
+        this.contactTagsData.set(key, { contactId, tagId, createdAt: new Date() });
+        added++;
+      }
+    }
+    return added;
+  }
+
+  async removeContactTags(contactIds: number[], tagIds: number[]): Promise<number> {
+    let removed = 0;
+    for (const contactId of contactIds) {
+      for (const tagId of tagIds) {
+        if (this.contactTagsData.delete(`${contactId}:${tagId}`)) removed++;
+      }
+    }
+    return removed;
+  }
+
+  // SEGMENT METHODS
+  async getSegments(accountId: number): Promise<Segment[]> {
+    return Array.from(this.segmentsData.values())
+      .filter(segment => segment.accountId === accountId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSegmentById(id: number): Promise<Segment | undefined> {
+    return this.segmentsData.get(id);
+  }
+
+  async createSegment(insertSegment: InsertSegment): Promise<Segment> {
+    const id = this.segmentCurrentId++;
+    const now = new Date();
+    const segment: Segment = {
+      id,
+      name: insertSegment.name,
+      description: insertSegment.description || null,
+      rules: insertSegment.rules,
+      accountId: insertSegment.accountId,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.segmentsData.set(id, segment);
+    return segment;
+  }
+
+  async updateSegment(id: number, updateData: Partial<InsertSegment>): Promise<Segment | undefined> {
+    const segment = this.segmentsData.get(id);
+    if (!segment) return undefined;
+
+    const updated: Segment = {
+      ...segment,
+      name: updateData.name ?? segment.name,
+      description: updateData.description !== undefined ? updateData.description || null : segment.description,
+      rules: updateData.rules ?? segment.rules,
+      updatedAt: new Date()
+    };
+    this.segmentsData.set(id, updated);
+    return updated;
+  }
+
+  async deleteSegment(id: number): Promise<boolean> {
+    return this.segmentsData.delete(id);
+  }
+
+  async getSegmentContacts(accountId: number, rules: SegmentGroup): Promise<Contact[]> {
+    const facts: SegmentFacts = {
+      received: new Set(
+        Array.from(this.campaignMessagesData.values())
+          .filter(message => message.accountId === accountId && RECEIVED_MESSAGE_STATUSES.includes(message.status))
+          .map(message => `${message.campaignId}:${message.contactId}`)
+      ),
+      tagged: new Set(
+        Array.from(this.contactTagsData.values()).map(assignment => `${assignment.tagId}:${assignment.contactId}`)
+      )
+    };
+    return Array.from(this.contacts.values()).filter(
+      contact => contact.accountId === accountId && !contact.deletedAt && matchesSegment(contact, rules, facts)
+    );
+  }
+
+  async countSegmentContacts(accountId: number, rules: SegmentGroup): Promise<number> {
+    return (await this.getSegmentContacts(accountId, rules)).length;
+  }
+
   // CAMPAIGN METHODS
   async getCampaigns(accountId: number, filters?: CampaignFilters): Promise<Campaign[]> {
     let campaigns = Array.from(this.campaigns.values()).filter(
-      (campaign) => campaign.accountId === accountId
+      (campaign) => campaign.accountId === accountId && !campaign.deletedAt
     );
     
     if (filters) {
@@ -831,7 +2913,8 @@ export class MemStorage implements IStorage {
   }
 
   async getCampaignById(id: number): Promise<Campaign | undefined> {
-    return this.campaigns.get(id);
+    const campaign = this.campaigns.get(id);
+    return campaign && !campaign.deletedAt ? campaign : undefined;
   }
 
   async createCampaign(insertCampaign: InsertCampaign): Promise<Campaign> {
@@ -844,10 +2927,17 @@ export class MemStorage implements IStorage {
       name: insertCampaign.name,
       template: insertCampaign.template,
       contactLabel: insertCampaign.contactLabel || null,
-      status: "draft",
+      segmentId: insertCampaign.segmentId || null,
+      includeTagIds: insertCampaign.includeTagIds || null,
+      excludeTagIds: insertCampaign.excludeTagIds || null,
+      status: insertCampaign.scheduledFor ? "scheduled" : "draft",
       scheduledFor: insertCampaign.scheduledFor || null,
+      launchedAt: null,
+      launchError: null,
+      templateVariables: insertCampaign.templateVariables || null,
       accountId: insertCampaign.accountId,
-      createdAt
+      createdAt,
+      deletedAt: null
     };
     
     this.campaigns.set(id, campaign);
@@ -864,7 +2954,12 @@ export class MemStorage implements IStorage {
       name: updateData.name ?? campaign.name,
       template: updateData.template ?? campaign.template,
       contactLabel: updateData.contactLabel !== undefined ? updateData.contactLabel || null : campaign.contactLabel,
-      scheduledFor: updateData.scheduledFor !== undefined ? updateData.scheduledFor || null : campaign.scheduledFor
+      segmentId: updateData.segmentId !== undefined ? updateData.segmentId || null : campaign.segmentId,
+      includeTagIds: updateData.includeTagIds !== undefined ? updateData.includeTagIds || null : campaign.includeTagIds,
+      excludeTagIds: updateData.excludeTagIds !== undefined ? updateData.excludeTagIds || null : campaign.excludeTagIds,
+      scheduledFor: updateData.scheduledFor !== undefined ? updateData.scheduledFor || null : campaign.scheduledFor,
+      templateVariables: updateData.templateVariables !== undefined ? updateData.templateVariables || null : campaign.templateVariables,
+      status: scheduledStatusFor(campaign, updateData)
     };
     
     this.campaigns.set(id, updatedCampaign);
@@ -872,6 +2967,20 @@ export class MemStorage implements IStorage {
   }
 
   async deleteCampaign(id: number): Promise<boolean> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign || campaign.deletedAt) return false;
+    this.campaigns.set(id, { ...campaign, deletedAt: new Date() });
+    return true;
+  }
+
+  // Remove a campaign, its messages and its analytics for good
+  private removeCampaign(id: number): boolean {
+    Array.from(this.campaignMessagesData.values())
+      .filter(message => message.campaignId === id)
+      .forEach(message => this.campaignMessagesData.delete(message.id));
+    Array.from(this.analyticsData.values())
+      .filter(row => row.campaignId === id)
+      .forEach(row => this.analyticsData.delete(row.id));
     return this.campaigns.delete(id);
   }
   
@@ -879,28 +2988,202 @@ export class MemStorage implements IStorage {
     const campaign = this.campaigns.get(id);
     if (!campaign) return false;
     
-    const updatedCampaign = { ...campaign, status: "active" };
+    const updatedCampaign = { ...campaign, status: "active", launchedAt: new Date(), launchError: null };
     this.campaigns.set(id, updatedCampaign);
     
-    // Create initial analytics entry with default zero values
-    await this.createOrUpdateAnalytics({
-      campaignId: id,
-      sent: 0,
-      delivered: 0,
-      read: 0,
-      optout: 0,
-      hold: 0,
-      failed: 0,
-      accountId: campaign.accountId
-    });
+    // Create the analytics entry from the messages recorded at launch
+    await this.refreshCampaignAnalytics(id);
     
     return true;
   }
 
+  async getDueScheduledCampaigns(now: Date): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values()).filter(
+      (campaign) => campaign.status === "scheduled" && campaign.scheduledFor && campaign.scheduledFor <= now && !campaign.deletedAt
+    );
+  }
+
+  async getCampaignsByStatus(status: string): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values()).filter((campaign) => campaign.status === status && !campaign.deletedAt);
+  }
+
+  async claimCampaignForLaunch(id: number, fromStatuses: string[]): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign || campaign.deletedAt || !fromStatuses.includes(campaign.status)) return undefined;
+    
+    const claimedCampaign = { ...campaign, status: "launching", launchError: null };
+    this.campaigns.set(id, claimedCampaign);
+    return claimedCampaign;
+  }
+
+  async markCampaignLaunchFailed(id: number, error: string): Promise<void> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign) return;
+    
+    this.campaigns.set(id, { ...campaign, status: "failed", launchError: error });
+  }
+
+  // TRASH METHODS
+  async getDeletedContacts(accountId: number): Promise<Contact[]> {
+    return Array.from(this.contacts.values())
+      .filter(contact => contact.accountId === accountId && contact.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async getDeletedCampaigns(accountId: number): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values())
+      .filter(campaign => campaign.accountId === accountId && campaign.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restoreContacts(accountId: number, ids: number[]): Promise<ContactRestoreResult> {
+    let restored = 0;
+    const conflicts: Contact[] = [];
+    for (const id of Array.from(new Set(ids)).sort((a, b) => a - b)) {
+      const contact = this.contacts.get(id);
+      if (!contact || contact.accountId !== accountId || !contact.deletedAt) continue;
+      if ((await this.findContactsByMobile(accountId, contact.mobile)).length > 0) {
+        conflicts.push(contact);
+        continue;
+      }
+      this.contacts.set(id, { ...contact, deletedAt: null });
+      restored++;
+    }
+    return { restored, conflicts };
+  }
+
+  async restoreCampaigns(accountId: number, ids: number[]): Promise<number> {
+    let restored = 0;
+    const now = new Date();
+    for (const id of ids) {
+      const campaign = this.campaigns.get(id);
+      if (!campaign || campaign.accountId !== accountId || !campaign.deletedAt) continue;
+      const overdue = campaign.status === "scheduled" && campaign.scheduledFor && campaign.scheduledFor <= now;
+      const interrupted = campaign.status === "launching";
+      this.campaigns.set(id, {
+        ...campaign,
+        deletedAt: null,
+        status: overdue ? "draft" : interrupted ? "failed" : campaign.status,
+        launchError: interrupted ? INTERRUPTED_LAUNCH_ERROR : campaign.launchError
+      });
+      restored++;
+    }
+    return restored;
+  }
+
+  async purgeContacts(accountId: number, ids: number[]): Promise<number> {
+    let purged = 0;
+    for (const id of ids) {
+      const contact = this.contacts.get(id);
+      if (!contact || contact.accountId !== accountId || !contact.deletedAt) continue;
+      if (this.removeContact(id)) purged++;
+    }
+    return purged;
+  }
+
+  async purgeCampaigns(accountId: number, ids: number[]): Promise<number> {
+    let purged = 0;
+    for (const id of ids) {
+      const campaign = this.campaigns.get(id);
+      if (!campaign || campaign.accountId !== accountId || !campaign.deletedAt) continue;
+      if (this.removeCampaign(id)) purged++;
+    }
+    return purged;
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<{ contacts: number, campaigns: number }> {
+    const expiredContacts = Array.from(this.contacts.values()).filter(contact => contact.deletedAt && contact.deletedAt < deletedBefore);
+    const expiredCampaigns = Array.from(this.campaigns.values()).filter(campaign => campaign.deletedAt && campaign.deletedAt < deletedBefore);
+    expiredContacts.forEach(contact => this.removeContact(contact.id));
+    expiredCampaigns.forEach(campaign => this.removeCampaign(campaign.id));
+    return { contacts: expiredContacts.length, campaigns: expiredCampaigns.length };
+  }
+
+  // CAMPAIGN MESSAGE METHODS
+  async replaceCampaignMessages(campaignId: number, messages: InsertCampaignMessage[]): Promise<number> {
+    // Relaunching a failed campaign starts its recipient list over
+    Array.from(this.campaignMessagesData.values())
+      .filter(message => message.campaignId === campaignId)
+      .forEach(message => this.campaignMessagesData.delete(message.id));
+    
+    const now = new Date();
+    for (const message of messages) {
+      const id = this.campaignMessageCurrentId++;
+      this.campaignMessagesData.set(id, {
+        id,
+        campaignId,
+        contactId: message.contactId,
+        accountId: message.accountId,
+        mobile: message.mobile,
+        status: message.status || "pending",
+        providerMessageId: message.providerMessageId || null,
+        errorCode: message.errorCode || null,
+        errorMessage: message.errorMessage || null,
+        sentAt: message.sentAt || null,
+        deliveredAt: null,
+        readAt: null,
+        failedAt: message.failedAt || null,
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+    
+    return messages.length;
+  }
+
+  async getCampaignMessages(campaignId: number, filters?: CampaignMessageFilters): Promise<{ messages: CampaignMessageWithContact[], total: number }> {
+    const page = filters?.page && filters.page > 0 ? filters.page : 1;
+    const limit = filters?.limit && filters.limit > 0 ? filters.limit : 50;
+    
+    const matching = Array.from(this.campaignMessagesData.values()).filter(
+      message => message.campaignId === campaignId && (!filters?.status || message.status === filters.status)
+    );
+    
+    return {
+      messages: matching.slice((page - 1) * limit, page * limit).map(message => ({
+        ...message,
+        contactName: this.contacts.get(message.contactId)?.name ?? null
+      })),
+      total: matching.length
+    };
+  }
+
+  async getCampaignMessageByProviderId(providerMessageId: string): Promise<CampaignMessage | undefined> {
+    return Array.from(this.campaignMessagesData.values()).find(
+      message => message.providerMessageId === providerMessageId
+    );
+  }
+
+  async findUnmatchedCampaignMessage(accountId: number, mobile: string): Promise<CampaignMessage | undefined> {
+    // Latest message to this number that the gateway did not give us an ID for
+    return Array.from(this.campaignMessagesData.values())
+      .filter(message =>
+        message.accountId === accountId &&
+        !message.providerMessageId &&
+        mobileDigits(message.mobile) === mobileDigits(mobile)
+      )
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async getLatestCampaignMessageForContact(contactId: number): Promise<CampaignMessage | undefined> {
+    return Array.from(this.campaignMessagesData.values())
+      .filter(message => message.contactId === contactId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async updateCampaignMessage(id: number, update: CampaignMessageUpdate): Promise<CampaignMessage | undefined> {
+    const message = this.campaignMessagesData.get(id);
+    if (!message) return undefined;
+    
+    const updated = { ...message, ...update, updatedAt: new Date() };
+    this.campaignMessagesData.set(id, updated);
+    return updated;
+  }
+
   // ANALYTICS METHODS
   async getAnalytics(accountId: number, campaignId?: number): Promise<Analytics[]> {
     let analytics = Array.from(this.analyticsData.values()).filter(
-      (analytics) => analytics.accountId === accountId
+      (analytics) => analytics.accountId === accountId && !this.campaigns.get(analytics.campaignId)?.deletedAt
     );
     
     if (campaignId) {
@@ -950,12 +3233,83 @@ export class MemStorage implements IStorage {
     return analytics;
   }
   
+  async refreshCampaignAnalytics(campaignId: number): Promise<Analytics | undefined> {
+    const campaign = this.campaigns.get(campaignId);
+    if (!campaign) return undefined;
+    
+    const counts: Record<string, number> = {};
+    Array.from(this.campaignMessagesData.values())
+      .filter(message => message.campaignId === campaignId)
+      .forEach(message => { counts[message.status] = (counts[message.status] || 0) + 1; });
+    
+    return this.createOrUpdateAnalytics({
+      campaignId,
+      accountId: campaign.accountId,
+      ...summarizeMessageStatuses(counts)
+    });
+  }
+  
+  // MESSAGE TEMPLATE METHODS
+  async getMessageTemplates(accountId: number): Promise<MessageTemplate[]> {
+    return Array.from(this.messageTemplatesData.values())
+      .filter(template => template.accountId === accountId)
+      .sort((a, b) => a.name.localeCompare(b.name) || (a.language || "").localeCompare(b.language || ""));
+  }
+
+  async getMessageTemplateByExternalId(accountId: number, externalId: string): Promise<MessageTemplate | undefined> {
+    return Array.from(this.messageTemplatesData.values()).find(
+      template => template.accountId === accountId && template.externalId === externalId
+    );
+  }
+
+  async upsertMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate> {
+    const existing = await this.getMessageTemplateByExternalId(template.accountId, template.externalId);
+    const saved: MessageTemplate = {
+      id: existing?.id ?? this.messageTemplateCurrentId++,
+      accountId: template.accountId,
+      externalId: template.externalId,
+      name: template.name,
+      category: template.category ?? null,
+      language: template.language ?? null,
+      status: template.status,
+      rejectedReason: template.rejectedReason ?? null,
+      components: template.components,
+      syncedAt: new Date()
+    };
+    this.messageTemplatesData.set(saved.id, saved);
+    return saved;
+  }
+
+  async replaceMessageTemplates(accountId: number, templates: InsertMessageTemplate[]): Promise<number> {
+    const kept = new Set<number>();
+    for (const template of templates) {
+      const saved = await this.upsertMessageTemplate({ ...template, accountId });
+      kept.add(saved.id);
+    }
+
+    // Templates that are no longer on Meta's side were deleted there
+    Array.from(this.messageTemplatesData.values())
+      .filter(template => template.accountId === accountId && !kept.has(template.id))
+      .forEach(template => this.messageTemplatesData.delete(template.id));
+
+    return templates.length;
+  }
+
+  async deleteMessageTemplate(accountId: number, externalId: string): Promise<boolean> {
+    const template = await this.getMessageTemplateByExternalId(accountId, externalId);
+    return template ? this.messageTemplatesData.delete(template.id) : false;
+  }
+
   // SETTINGS METHODS
   async getSettings(accountId: number): Promise<Settings | undefined> {
     return Array.from(this.settingsData.values()).find(
       (settings) => settings.accountId === accountId
     );
   }
+
+  async getAllSettings(): Promise<Settings[]> {
+    return Array.from(this.settingsData.values());
+  }
   
   async updateSettings(accountId: number, settingsData: Partial<InsertSettings>): Promise<Settings> {
     // Check if settings already exist for this account
@@ -983,11 +3337,23 @@ export class MemStorage implements IStorage {
       facebookAccessToken: settingsData.facebookAccessToken || null,
       partnerMobile: settingsData.partnerMobile || null,
       wabaId: settingsData.wabaId || null,
-      campaignApiKey: settingsData.campaignApiKey || null
+      campaignApiKey: settingsData.campaignApiKey || null,
+      messagingGateway: settingsData.messagingGateway || "campaign_api",
+      phoneNumberId: settingsData.phoneNumberId || null,
+      optOutKeywords: settingsData.optOutKeywords || null,
+      optInKeywords: settingsData.optInKeywords || null,
+      templatesSyncedAt: settingsData.templatesSyncedAt || null,
+      templatesSyncError: settingsData.templatesSyncError || null
     };
     this.settingsData.set(id, settings);
     return settings;
   }
+
+  async getSettingsByPhoneNumberId(phoneNumberId: string): Promise<Settings | undefined> {
+    return Array.from(this.settingsData.values()).find(
+      (settings) => settings.phoneNumberId === phoneNumberId
+    );
+  }
 }
 
 // Use database storage if DATABASE_URL is provided, otherwise use in-memory storage
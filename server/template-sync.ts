@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import { TEMPLATE_SYNC_CONFIG } from "./config";
+import { fetchTemplates, missingTemplateSettings, toCachedTemplate } from "./messaging/templates";
+import type { Settings } from "@shared/schema";
+import { log } from "./vite";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Refresh an account's cached templates from the Graph API. The outcome is
+ * recorded on the account's settings so the UI can show when the cache was
+ * last refreshed and why a refresh failed; failures are rethrown.
+ */
+export async function syncAccountTemplates(settings: Settings): Promise<number> {
+  try {
+    const templates = await fetchTemplates(settings);
+    const count = await storage.replaceMessageTemplates(
+      settings.accountId,
+      templates.map(template => toCachedTemplate(settings.accountId, template))
+    );
+    await storage.updateSettings(settings.accountId, { templatesSyncedAt: new Date(), templatesSyncError: null });
+    return count;
+  } catch (error) {
+    // Keep the previous templates so campaigns can still be created during a Graph outage
+    await storage.updateSettings(settings.accountId, { templatesSyncError: (error as Error).message });
+    throw error;
+  }
+}
+
+// Sync every account that has template access configured
+export async function syncAllTemplates(): Promise<void> {
+  const allSettings = await storage.getAllSettings();
+
+  for (const settings of allSettings) {
+    if (missingTemplateSettings(settings).length > 0) continue;
+
+    try {
+      const count = await syncAccountTemplates(settings);
+      log(`synced ${count} templates for account ${settings.accountId}`, "template-sync");
+    } catch (error) {
+      console.error(`Template sync for account ${settings.accountId} failed:`, (error as Error).message);
+    }
+  }
+}
+
+async function tick(): Promise<void> {
+  // Skip this tick if the previous sync is still running
+  if (running) return;
+  running = true;
+  try {
+    await syncAllTemplates();
+  } catch (error) {
+    console.error("Template sync tick failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startTemplateSync(): void {
+  if (!TEMPLATE_SYNC_CONFIG.enabled || timer) return;
+
+  timer = setInterval(tick, TEMPLATE_SYNC_CONFIG.intervalMs);
+  log(`template sync running every ${TEMPLATE_SYNC_CONFIG.intervalMs}ms`, "template-sync");
+
+  void tick();
+}
+
+export function stopTemplateSync(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
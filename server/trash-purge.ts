@@ -0,0 +1,44 @@
+import { storage } from "./storage";
+import { TRASH_CONFIG } from "./config";
+import { log } from "./vite";
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Permanently delete contacts and campaigns that have been in the trash longer than the retention period
+export async function purgeExpiredTrash(): Promise<void> {
+  const deletedBefore = new Date(Date.now() - TRASH_CONFIG.retentionDays * 24 * 60 * 60 * 1000);
+  const purged = await storage.purgeTrash(deletedBefore);
+  if (purged.contacts > 0 || purged.campaigns > 0) {
+    log(`purged ${purged.contacts} contacts and ${purged.campaigns} campaigns from the trash`, "trash");
+  }
+}
+
+async function tick(): Promise<void> {
+  // Skip this tick if the previous purge is still running
+  if (running) return;
+  running = true;
+  try {
+    await purgeExpiredTrash();
+  } catch (error) {
+    console.error("Trash purge tick failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startTrashPurge(): void {
+  if (!TRASH_CONFIG.purgeEnabled || timer) return;
+
+  timer = setInterval(tick, TRASH_CONFIG.purgeIntervalMs);
+  log(`trash purge running every ${TRASH_CONFIG.purgeIntervalMs}ms, keeping items for ${TRASH_CONFIG.retentionDays} days`, "trash");
+
+  void tick();
+}
+
+export function stopTrashPurge(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
@@ -1,6 +1,73 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parsePhoneNumberFromString, isSupportedCountry, type CountryCode } from "libphonenumber-js";
+
+// Roles a user can hold within their account, from most to least privileged
+export const USER_ROLES = ["owner", "admin", "campaign_manager", "viewer"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: "Owner",
+  admin: "Administrator",
+  campaign_manager: "Campaign Manager",
+  viewer: "Viewer",
+};
+
+// Actions that can be granted to a role
+export type Permission =
+  | "contacts:view"
+  | "contacts:manage"
+  | "campaigns:view"
+  | "campaigns:manage"
+  | "campaigns:launch"
+  | "templates:view"
+  | "templates:manage"
+  | "analytics:view"
+  | "settings:view"
+  | "settings:manage"
+  | "account:manage"
+  | "team:manage";
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [
+    "contacts:view", "contacts:manage",
+    "campaigns:view", "campaigns:manage", "campaigns:launch",
+    "templates:view", "templates:manage",
+    "analytics:view",
+    "settings:view", "settings:manage",
+    "account:manage", "team:manage",
+  ],
+  admin: [
+    "contacts:view", "contacts:manage",
+    "campaigns:view", "campaigns:manage", "campaigns:launch",
+    "templates:view", "templates:manage",
+    "analytics:view",
+    "settings:view", "settings:manage",
+    "account:manage", "team:manage",
+  ],
+  campaign_manager: [
+    "contacts:view", "contacts:manage",
+    "campaigns:view", "campaigns:manage", "campaigns:launch",
+    "templates:view", "templates:manage",
+    "analytics:view",
+  ],
+  viewer: [
+    "contacts:view",
+    "campaigns:view",
+    "templates:view",
+    "analytics:view",
+  ],
+};
+
+/**
+ * Check whether a role has been granted a permission.
+ * Unknown or missing roles are granted nothing.
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
 
 // User schema
 export const users = pgTable("users", {
@@ -9,7 +76,8 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   email: text("email"),
-  accountId: integer("account_id").notNull(),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  role: text("role").default("admin").notNull(),
   resetToken: text("reset_token"),
   resetTokenExpiry: timestamp("reset_token_expiry"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -21,17 +89,41 @@ export const insertUserSchema = createInsertSchema(users).pick({
   name: true,
   email: true,
   accountId: true,
+  role: true,
 });
 
 // Account schema
 export const accounts = pgTable("accounts", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
+  defaultCountry: text("default_country").default("US").notNull(), // ISO country code assumed for mobiles written without a country code
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertAccountSchema = createInsertSchema(accounts).pick({
   name: true,
+  defaultCountry: true,
+});
+
+// Invitation schema
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  email: text("email").notNull(),
+  role: text("role").default("viewer").notNull(),
+  token: text("token").notNull().unique(),
+  status: text("status").default("pending").notNull(), // pending, accepted, revoked
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations).pick({
+  accountId: true,
+  email: true,
+  role: true,
+  invitedBy: true,
 });
 
 // Contact schema
@@ -41,8 +133,12 @@ export const contacts = pgTable("contacts", {
   mobile: text("mobile").notNull(),
   location: text("location"),
   label: text("label"),
+  customFields: jsonb("custom_fields").$type<ContactCustomFields>().default({}).notNull(), // Values of the account's custom fields, keyed by field key
+  optedOut: boolean("opted_out").default(false).notNull(), // Contact asked not to receive campaigns
+  optedOutAt: timestamp("opted_out_at"),
   accountId: integer("account_id").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // Set while the contact is in the trash
 });
 
 export const insertContactSchema = createInsertSchema(contacts).pick({
@@ -51,26 +147,412 @@ export const insertContactSchema = createInsertSchema(contacts).pick({
   location: true,
   label: true,
   accountId: true,
+}).extend({
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+});
+
+// Custom field schema
+// Each account defines its own contact fields; contacts keep the values in custom_fields, keyed by field key
+export const CUSTOM_FIELD_TYPES = ["text", "number", "date", "boolean", "enum"] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes / No",
+  enum: "Choice list",
+};
+
+export type CustomFieldValue = string | number | boolean;
+export type ContactCustomFields = Record<string, CustomFieldValue>;
+
+// Keys that would clash with the built-in contact columns, in forms and CSV headers alike
+export const RESERVED_CUSTOM_FIELD_KEYS = ["id", "name", "mobile", "location", "label", "tags", "opted_out", "created_at"];
+
+export const customFields = pgTable("custom_fields", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(), // Stable identifier used in CSV headers, filters and template variables
+  name: text("name").notNull(),
+  type: text("type").notNull(), // text, number, date, boolean, enum
+  options: jsonb("options").$type<string[]>(), // Allowed values of an enum field
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  accountKeyIdx: uniqueIndex("custom_fields_account_key_idx").on(table.accountId, table.key),
+}));
+
+export const insertCustomFieldSchema = createInsertSchema(customFields).pick({
+  key: true,
+  name: true,
+  type: true,
+  accountId: true,
+}).extend({
+  options: z.array(z.string()).optional().nullable(),
+});
+
+// Derive a field key from its display name, e.g. "City code" becomes "city_code"
+export function customFieldKey(name: string): string {
+  const key = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(key) ? key : `field_${key}`;
+}
+
+/**
+ * Turn a submitted or imported value into what is stored for a field:
+ * numbers and booleans become JSON numbers and booleans, dates become
+ * YYYY-MM-DD, and enum values take the casing of the matching option.
+ * Empty input yields null, meaning the contact has no value.
+ */
+export function parseCustomFieldValue(
+  field: Pick<CustomField, "type" | "options">,
+  raw: unknown
+): { value: CustomFieldValue | null } | { error: string } {
+  if (raw === null || raw === undefined) return { value: null };
+  const text = String(raw).trim();
+  if (text === "") return { value: null };
+
+  switch (field.type as CustomFieldType) {
+    case "number": {
+      const value = typeof raw === "number" ? raw : Number(text.replace(/,/g, ""));
+      return Number.isFinite(value) ? { value } : { error: `"${text}" is not a number` };
+    }
+    case "date": {
+      const timestamp = /^\d{4}-\d{2}-\d{2}$/.test(text) ? Date.parse(`${text}T00:00:00Z`) : Date.parse(`${text} UTC`);
+      return isNaN(timestamp) ? { error: `"${text}" is not a date` } : { value: new Date(timestamp).toISOString().slice(0, 10) };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const lower = text.toLowerCase();
+      if (["true", "yes", "y", "1"].includes(lower)) return { value: true };
+      if (["false", "no", "n", "0"].includes(lower)) return { value: false };
+      return { error: `"${text}" is not yes or no` };
+    }
+    case "enum": {
+      const option = (field.options || []).find(option => option.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { error: `"${text}" is not one of ${(field.options || []).join(", ")}` };
+    }
+    default:
+      return text.length > 500 ? { error: "Text must be at most 500 characters" } : { value: text };
+  }
+}
+
+// Tag schema
+// A contact can carry any number of tags; contact_tags links the two
+export const TAG_COLORS = ["gray", "red", "orange", "yellow", "green", "blue", "purple", "pink"] as const;
+export type TagColor = typeof TAG_COLORS[number];
+
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  color: text("color").default("gray").notNull(),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  accountNameIdx: uniqueIndex("tags_account_name_idx").on(table.accountId, table.name),
+}));
+
+export const insertTagSchema = createInsertSchema(tags).pick({
+  name: true,
+  color: true,
+  accountId: true,
+});
+
+export const contactTags = pgTable("contact_tags", {
+  contactId: integer("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  contactTagIdx: uniqueIndex("contact_tags_contact_tag_idx").on(table.contactId, table.tagId),
+  tagIdx: index("contact_tags_tag_idx").on(table.tagId),
+}));
+
+// Audit trail of every opt-out and opt-in, recording when and how it happened
+export const OPT_OUT_SOURCES = ["keyword", "manual"] as const;
+export type OptOutSource = typeof OPT_OUT_SOURCES[number];
+
+export const optOutEvents = pgTable("opt_out_events", {
+  id: serial("id").primaryKey(),
+  contactId: integer("contact_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  optedOut: boolean("opted_out").notNull(), // true for an opt-out, false for an opt-in
+  source: text("source").notNull(), // keyword, manual
+  keyword: text("keyword"), // Keyword matched in the inbound message
+  message: text("message"), // Full text of the inbound message
+  providerMessageId: text("provider_message_id"), // ID of the inbound WhatsApp message
+  userId: integer("user_id").references(() => users.id), // User who changed it by hand
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  contactIdx: index("opt_out_events_contact_idx").on(table.contactId),
+}));
+
+export const insertOptOutEventSchema = createInsertSchema(optOutEvents).pick({
+  contactId: true,
+  accountId: true,
+  optedOut: true,
+  source: true,
+  keyword: true,
+  message: true,
+  providerMessageId: true,
+  userId: true,
+});
+
+// Contact import job schema
+// Imports run in the background; the job records progress and where the uploaded file and error report are
+export const IMPORT_JOB_STATUSES = ["queued", "running", "completed", "failed"] as const;
+export type ImportJobStatus = typeof IMPORT_JOB_STATUSES[number];
+
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  userId: integer("user_id").references(() => users.id), // User who started the import
+  fileName: text("file_name").notNull(), // Name of the file as uploaded
+  filePath: text("file_path").notNull(), // Uploaded file on disk, removed when the job finishes
+  sheet: text("sheet"), // Worksheet of a spreadsheet to read
+  mapping: jsonb("mapping").$type<ContactImportMapping>().notNull(),
+  deduplicate: boolean("deduplicate").default(true).notNull(),
+  status: text("status").default("queued").notNull(), // queued, running, completed, failed
+  totalRows: integer("total_rows"), // Known once the file has been counted
+  processedRows: integer("processed_rows").default(0).notNull(),
+  imported: integer("imported").default(0).notNull(),
+  duplicates: integer("duplicates").default(0).notNull(),
+  skipped: integer("skipped").default(0).notNull(), // Rows rejected by validation
+  errorReportPath: text("error_report_path"), // CSV of rejected rows, when there were any
+  error: text("error"), // Why a failed job stopped
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  accountIdx: index("import_jobs_account_idx").on(table.accountId),
+}));
+
+export const insertImportJobSchema = createInsertSchema(importJobs).pick({
+  accountId: true,
+  userId: true,
+  fileName: true,
+  filePath: true,
+  sheet: true,
+  deduplicate: true,
+}).extend({
+  mapping: z.record(z.object({ column: z.string().optional(), default: z.string().optional() })),
+});
+
+// Segment rules
+// A segment selects contacts with rules combined into AND/OR groups, evaluated when a campaign is sent
+export const SEGMENT_RULE_FIELDS = ["label", "tag", "location", "createdAt", "campaign", "optedOut", "customField"] as const;
+
+// Comparisons a custom field rule can make; which ones apply depends on the field's type
+export const CUSTOM_FIELD_OPERATORS = ["equals", "not_equals", "contains", "greater_than", "less_than", "is_set", "is_not_set"] as const;
+
+export const segmentRuleSchema = z.discriminatedUnion("field", [
+  z.object({
+    field: z.literal("label"),
+    operator: z.enum(["in", "not_in"]),
+    values: z.array(z.string()).min(1, { message: "Choose at least one label" }),
+  }),
+  z.object({
+    field: z.literal("tag"),
+    operator: z.enum(["in", "not_in"]),
+    tagIds: z.array(z.number().int().positive()).min(1, { message: "Choose at least one tag" }),
+  }),
+  z.object({
+    field: z.literal("location"),
+    operator: z.enum(["equals", "contains"]),
+    value: z.string().min(1, { message: "Enter a location" }),
+  }),
+  z.object({
+    field: z.literal("createdAt"),
+    operator: z.enum(["before", "after"]),
+    value: z.string().refine((value) => !isNaN(Date.parse(value)), { message: "Enter a valid date" }),
+  }),
+  z.object({
+    field: z.literal("campaign"),
+    operator: z.enum(["received", "not_received"]),
+    campaignId: z.number().int().positive({ message: "Choose a campaign" }),
+  }),
+  z.object({
+    field: z.literal("optedOut"),
+    operator: z.literal("is"),
+    value: z.boolean(),
+  }),
+  z.object({
+    field: z.literal("customField"),
+    key: z.string().min(1, { message: "Choose a field" }),
+    operator: z.enum(CUSTOM_FIELD_OPERATORS),
+    value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  }),
+]).superRefine((rule, ctx) => {
+  if (rule.field === "customField" && !["is_set", "is_not_set"].includes(rule.operator) &&
+      (rule.value === undefined || rule.value === "")) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a value", path: ["value"] });
+  }
 });
 
+export type SegmentRule = z.infer<typeof segmentRuleSchema>;
+
+export interface SegmentGroup {
+  combinator: "and" | "or";
+  rules: (SegmentRule | SegmentGroup)[];
+}
+
+export const segmentGroupSchema: z.ZodType<SegmentGroup> = z.lazy(() =>
+  z.object({
+    combinator: z.enum(["and", "or"]),
+    rules: z.array(z.union([segmentRuleSchema, segmentGroupSchema])),
+  })
+);
+
+export function isSegmentGroup(rule: SegmentRule | SegmentGroup): rule is SegmentGroup {
+  return "combinator" in rule;
+}
+
+// Segment schema
+export const segments = pgTable("segments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  rules: jsonb("rules").$type<SegmentGroup>().notNull(),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSegmentSchema = createInsertSchema(segments).pick({
+  name: true,
+  description: true,
+  accountId: true,
+}).extend({
+  rules: segmentGroupSchema,
+});
+
+// Template variables
+// Where the value of each {{n}} placeholder in a template comes from when a campaign is sent
+export const TEMPLATE_COMPONENT_TYPES = ["header", "body", "button"] as const;
+export const TEMPLATE_VARIABLE_SOURCES = ["field", "static"] as const;
+export const TEMPLATE_VARIABLE_FIELDS = ["name", "mobile", "location", "label"] as const;
+
+export const TEMPLATE_VARIABLE_FIELD_LABELS: Record<string, string> = {
+  name: "Contact name",
+  mobile: "Mobile number",
+  location: "Location",
+  label: "Label",
+};
+
+// Variables can also take a custom field, named "custom:<key>"
+export const CUSTOM_FIELD_VARIABLE_PREFIX = "custom:";
+
+// The value a template variable field refers to on a contact
+export function contactFieldValue(contact: Record<string, any>, field: string | undefined): unknown {
+  if (!field) return undefined;
+  if (field.startsWith(CUSTOM_FIELD_VARIABLE_PREFIX)) {
+    return contact.customFields?.[field.slice(CUSTOM_FIELD_VARIABLE_PREFIX.length)];
+  }
+  return contact[field];
+}
+
+export const templateVariableSchema = z.object({
+  component: z.enum(TEMPLATE_COMPONENT_TYPES),
+  buttonIndex: z.number().int().min(0).optional(), // Position of the button within the template, for button variables
+  index: z.number().int().min(1), // The n in {{n}}
+  source: z.enum(TEMPLATE_VARIABLE_SOURCES),
+  field: z.string().optional(), // Contact field, when source is "field"
+  value: z.string().optional(), // Static value, or fallback for contacts with an empty field
+}).refine((variable) => variable.source !== "field" || !!variable.field, {
+  message: "Choose a contact field for this variable",
+  path: ["field"],
+}).refine((variable) => variable.source !== "static" || !!variable.value?.trim(), {
+  message: "Enter a value for this variable",
+  path: ["value"],
+}).refine((variable) => variable.component !== "button" || variable.buttonIndex !== undefined, {
+  message: "Button variables need a button index",
+  path: ["buttonIndex"],
+});
+
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+
+// Message template drafts
+// What a user fills in to submit a new WhatsApp message template for approval
+export const TEMPLATE_CATEGORIES = ["MARKETING", "UTILITY", "AUTHENTICATION"] as const;
+export const TEMPLATE_BUTTON_TYPES = ["QUICK_REPLY", "URL", "PHONE_NUMBER"] as const;
+
+// Number of distinct {{n}} placeholders in a piece of template text
+export function countTemplatePlaceholders(text: string | undefined): number {
+  return new Set(Array.from((text || "").matchAll(/\{\{\s*(\d+)\s*\}\}/g)).map((match) => match[1])).size;
+}
+
+export const templateButtonDraftSchema = z.object({
+  type: z.enum(TEMPLATE_BUTTON_TYPES),
+  text: z.string().min(1, { message: "Button text is required" }).max(25, { message: "Button text can be at most 25 characters" }),
+  url: z.string().optional(),
+  phoneNumber: z.string().optional(),
+  example: z.string().optional(), // Sample URL for buttons with a {{1}} in their URL
+}).refine((button) => button.type !== "URL" || !!button.url?.match(/^https?:\/\//), {
+  message: "Enter a URL starting with http:// or https://",
+  path: ["url"],
+}).refine((button) => button.type !== "PHONE_NUMBER" || !!button.phoneNumber?.match(/^\+?\d{6,15}$/), {
+  message: "Enter a phone number in international format",
+  path: ["phoneNumber"],
+}).refine((button) => button.type !== "URL" || countTemplatePlaceholders(button.url) === 0 || !!button.example, {
+  message: "Enter a sample URL for the variable",
+  path: ["example"],
+});
+
+export const templateDraftSchema = z.object({
+  name: z.string()
+    .min(1, { message: "Template name is required" })
+    .max(512)
+    .regex(/^[a-z0-9_]+$/, { message: "Use lowercase letters, numbers and underscores only" }),
+  category: z.enum(TEMPLATE_CATEGORIES),
+  language: z.string().min(2, { message: "Language is required" }),
+  headerText: z.string().max(60, { message: "Header can be at most 60 characters" }).optional(),
+  headerExample: z.string().optional(),
+  bodyText: z.string().min(1, { message: "Body text is required" }).max(1024, { message: "Body can be at most 1024 characters" }),
+  bodyExamples: z.array(z.string()).default([]),
+  footerText: z.string().max(60, { message: "Footer can be at most 60 characters" }).optional(),
+  buttons: z.array(templateButtonDraftSchema).max(10).default([]),
+}).refine((draft) => countTemplatePlaceholders(draft.headerText) <= 1, {
+  message: "The header can have at most one variable",
+  path: ["headerText"],
+}).refine((draft) => countTemplatePlaceholders(draft.headerText) === 0 || !!draft.headerExample?.trim(), {
+  message: "Enter a sample value for the header variable",
+  path: ["headerExample"],
+}).refine((draft) => draft.bodyExamples.filter((example) => example.trim()).length >= countTemplatePlaceholders(draft.bodyText), {
+  message: "Enter a sample value for every body variable",
+  path: ["bodyExamples"],
+});
+
+export type TemplateDraft = z.infer<typeof templateDraftSchema>;
+export type TemplateButtonDraft = z.infer<typeof templateButtonDraftSchema>;
+
 // Campaign schema
 export const campaigns = pgTable("campaigns", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   template: text("template").notNull(),
   contactLabel: text("contact_label"),
-  status: text("status").default("draft").notNull(),
+  segmentId: integer("segment_id"), // Segment resolved at send time; takes precedence over contactLabel
+  includeTagIds: jsonb("include_tag_ids").$type<number[]>(), // Only send to contacts with at least one of these tags
+  excludeTagIds: jsonb("exclude_tag_ids").$type<number[]>(), // Never send to contacts with any of these tags
+  status: text("status").default("draft").notNull(), // draft, scheduled, launching, active, failed, completed
   scheduledFor: timestamp("scheduled_for"),
+  launchedAt: timestamp("launched_at"),
+  launchError: text("launch_error"),
+  templateVariables: jsonb("template_variables").$type<TemplateVariable[]>(), // Placeholder mapping used to build each recipient's parameters
   accountId: integer("account_id").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // Set while the campaign is in the trash
 });
 
 export const insertCampaignSchema = createInsertSchema(campaigns).pick({
   name: true,
   template: true,
   contactLabel: true,
+  segmentId: true,
   scheduledFor: true,
   accountId: true,
+}).extend({
+  templateVariables: z.array(templateVariableSchema).optional().nullable(),
+  includeTagIds: z.array(z.number().int().positive()).optional().nullable(),
+  excludeTagIds: z.array(z.number().int().positive()).optional().nullable(),
 });
 
 // Analytics schema
@@ -98,6 +580,73 @@ export const insertAnalyticsSchema = createInsertSchema(analytics).pick({
   accountId: true,
 });
 
+// Per-recipient delivery tracking for launched campaigns
+export const CAMPAIGN_MESSAGE_STATUSES = ["pending", "sent", "delivered", "read", "failed", "optout", "hold"] as const;
+export type CampaignMessageStatus = typeof CAMPAIGN_MESSAGE_STATUSES[number];
+
+export const campaignMessages = pgTable("campaign_messages", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").notNull(),
+  contactId: integer("contact_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  mobile: text("mobile").notNull(), // Number the message was sent to, kept even if the contact changes
+  status: text("status").default("pending").notNull(),
+  providerMessageId: text("provider_message_id"), // Message ID returned by the messaging gateway
+  errorCode: text("error_code"),
+  errorMessage: text("error_message"),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"),
+  failedAt: timestamp("failed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  campaignContactIdx: uniqueIndex("campaign_messages_campaign_contact_idx").on(table.campaignId, table.contactId),
+  providerMessageIdx: index("campaign_messages_provider_message_idx").on(table.providerMessageId),
+}));
+
+export const insertCampaignMessageSchema = createInsertSchema(campaignMessages).pick({
+  campaignId: true,
+  contactId: true,
+  accountId: true,
+  mobile: true,
+  status: true,
+  providerMessageId: true,
+  errorCode: true,
+  errorMessage: true,
+  sentAt: true,
+  failedAt: true,
+});
+
+// Message template cache schema
+// Copy of each account's WhatsApp templates, refreshed from the Graph API by the template sync job
+export const messageTemplates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  externalId: text("external_id").notNull(), // Template ID assigned by Meta
+  name: text("name").notNull(),
+  category: text("category"),
+  language: text("language"),
+  status: text("status").notNull(), // APPROVED, PENDING, REJECTED, PAUSED or DISABLED
+  rejectedReason: text("rejected_reason"),
+  components: jsonb("components").$type<any[]>().default([]).notNull(),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => ({
+  accountExternalIdx: uniqueIndex("templates_account_external_idx").on(table.accountId, table.externalId),
+}));
+
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).pick({
+  accountId: true,
+  externalId: true,
+  name: true,
+  category: true,
+  language: true,
+  status: true,
+  rejectedReason: true,
+}).extend({
+  components: z.array(z.any()),
+});
+
 // Define types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -105,15 +654,40 @@ export type User = typeof users.$inferSelect;
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
 export type Account = typeof accounts.$inferSelect;
 
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+
 export type InsertContact = z.infer<typeof insertContactSchema>;
 export type Contact = typeof contacts.$inferSelect;
 
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+export type CustomField = typeof customFields.$inferSelect;
+
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type ContactTag = typeof contactTags.$inferSelect;
+
+export type InsertOptOutEvent = z.infer<typeof insertOptOutEventSchema>;
+export type OptOutEvent = typeof optOutEvents.$inferSelect;
+
+export type InsertImportJob = z.infer<typeof insertImportJobSchema>;
+export type ImportJob = typeof importJobs.$inferSelect;
+
+export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type Segment = typeof segments.$inferSelect;
+
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
 
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
 export type Analytics = typeof analytics.$inferSelect;
 
+export type InsertCampaignMessage = z.infer<typeof insertCampaignMessageSchema>;
+export type CampaignMessage = typeof campaignMessages.$inferSelect;
+
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+
 // Settings schema
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
@@ -123,6 +697,12 @@ export const settings = pgTable("settings", {
   partnerMobile: text("partner_mobile"), // Partner mobile number for campaign API
   wabaId: text("waba_id"), // WhatsApp Business Account ID
   campaignApiKey: text("campaign_api_key"), // API key for campaign service
+  messagingGateway: text("messaging_gateway").default("campaign_api").notNull(), // Provider used to send campaigns
+  phoneNumberId: text("phone_number_id"), // WhatsApp Cloud API sender phone number ID
+  optOutKeywords: text("opt_out_keywords"), // Comma-separated; replies matching one opt the contact out
+  optInKeywords: text("opt_in_keywords"), // Comma-separated; replies matching one opt the contact back in
+  templatesSyncedAt: timestamp("templates_synced_at"), // Last successful template sync from the Graph API
+  templatesSyncError: text("templates_sync_error"), // Why the last template sync failed, cleared on success
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
@@ -133,22 +713,395 @@ export const insertSettingsSchema = createInsertSchema(settings).pick({
   partnerMobile: true,
   wabaId: true,
   campaignApiKey: true,
+  messagingGateway: true,
+  phoneNumberId: true,
+  optOutKeywords: true,
+  optInKeywords: true,
+  templatesSyncedAt: true,
+  templatesSyncError: true,
 });
 
+// Keywords used when an account has not configured its own
+export const DEFAULT_OPT_OUT_KEYWORDS = ["STOP", "UNSUBSCRIBE", "STOP ALL", "CANCEL", "END", "QUIT"];
+export const DEFAULT_OPT_IN_KEYWORDS = ["START", "UNSTOP", "SUBSCRIBE"];
+
+// Providers an account can send campaigns through
+export const MESSAGING_GATEWAYS = ["campaign_api", "whatsapp_cloud", "mock"] as const;
+export type MessagingGatewayName = typeof MESSAGING_GATEWAYS[number];
+
+export const MESSAGING_GATEWAY_LABELS: Record<MessagingGatewayName, string> = {
+  campaign_api: "Campaign API",
+  whatsapp_cloud: "WhatsApp Cloud API",
+  mock: "Mock (development only)",
+};
+
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type Settings = typeof settings.$inferSelect;
 
+// Phone numbers
+// Mobiles are stored in E.164 form ("+919840012345") so the same number is always written the same way
+export const DEFAULT_COUNTRY = "US";
+
+// Phone numbers may carry a leading +, spaces, dashes, dots and brackets around the digits
+const MOBILE_PATTERN = /^\+?[\d\s\-().]*$/;
+
+/**
+ * Normalize a mobile number to E.164. Numbers without a country code are
+ * read as numbers of `defaultCountry`; digits-only numbers that aren't
+ * valid there are retried as international numbers missing their "+".
+ * Returns an error when the number isn't plausible for its country.
+ */
+export function normalizeMobile(value: string, defaultCountry: string | null | undefined = DEFAULT_COUNTRY): { mobile: string } | { error: string } {
+  const text = value.trim();
+  if (!text) return { error: "Mobile number is required" };
+  if (!MOBILE_PATTERN.test(text)) return { error: `"${text}" is not a phone number` };
+
+  const country = (defaultCountry && isSupportedCountry(defaultCountry) ? defaultCountry : DEFAULT_COUNTRY) as CountryCode;
+  let phone = parsePhoneNumberFromString(text, { defaultCountry: country });
+  if (!phone?.isValid() && /^[1-9]\d+$/.test(text)) {
+    phone = parsePhoneNumberFromString(`+${text}`);
+  }
+  if (!phone?.isValid()) {
+    return { error: `"${text}" is not a valid phone number${text.startsWith("+") ? "" : ` for ${country}`}` };
+  }
+  return { mobile: phone.number };
+}
+
 // Zod schemas for validation
 export const contactValidationSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters" }),
-  mobile: z.string().min(10, { message: "Mobile number must be at least 10 digits" }),
+  // Checked for the account's country, and normalized, by the server
+  mobile: z.string().trim()
+    .min(1, { message: "Mobile number is required" })
+    .regex(MOBILE_PATTERN, { message: "Mobile number may only contain digits, spaces, dashes, brackets and a leading +" }),
   location: z.string().optional(),
   label: z.string().optional(),
+  tagIds: z.array(z.number().int().positive()).optional(),
+  customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+});
+
+export const customFieldValidationSchema = z.object({
+  name: z.string().trim().min(1, { message: "Field name is required" }).max(50, { message: "Field name must be at most 50 characters" }),
+  key: z.string()
+    .regex(/^[a-z][a-z0-9_]*$/, { message: "Key must start with a letter and use only lowercase letters, digits and underscores" })
+    .refine((key) => !RESERVED_CUSTOM_FIELD_KEYS.includes(key), { message: "This key is used by a built-in contact field" })
+    .optional(),
+  type: z.enum(CUSTOM_FIELD_TYPES, { errorMap: () => ({ message: "Unknown field type" }) }),
+  options: z.array(z.string().trim().min(1)).optional(),
+}).refine((field) => field.type !== "enum" || (field.options?.length ?? 0) > 0, {
+  message: "Add at least one choice",
+  path: ["options"],
+});
+
+export const tagValidationSchema = z.object({
+  name: z.string().trim().min(1, { message: "Tag name is required" }).max(50, { message: "Tag name must be at most 50 characters" }),
+  color: z.enum(TAG_COLORS, { errorMap: () => ({ message: "Unknown tag color" }) }).optional(),
+});
+
+// Bulk contact operations
+// One change made to many contacts at once; an empty label or location clears it
+const bulkTagIdsSchema = z.array(z.number().int().positive()).min(1, { message: "Choose at least one tag" });
+
+export const contactBulkOperationSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("delete") }),
+  z.object({ action: z.literal("setLabel"), label: z.string().trim() }),
+  z.object({ action: z.literal("addTags"), tagIds: bulkTagIdsSchema }),
+  z.object({ action: z.literal("removeTags"), tagIds: bulkTagIdsSchema }),
+  z.object({ action: z.literal("setLocation"), location: z.string().trim() }),
+  z.object({ action: z.literal("setOptOut"), optedOut: z.boolean() }),
+]);
+
+export type ContactBulkOperation = z.infer<typeof contactBulkOperationSchema>;
+export type ContactBulkAction = ContactBulkOperation["action"];
+
+// The contacts an operation applies to: chosen ones, or all that match contacts list query filters
+export const contactBulkTargetSchema = z.union([
+  z.object({ ids: z.array(z.number().int().positive()).min(1, { message: "No contact IDs provided" }) }),
+  z.object({ filter: z.record(z.string()) }),
+]);
+
+export type ContactBulkTarget = z.infer<typeof contactBulkTargetSchema>;
+
+// The older batch delete request, whose IDs may arrive as numeric strings
+export const contactBatchDeleteSchema = z.object({
+  ids: z.array(z.coerce.number().int().positive()).min(1, { message: "No contact IDs provided for deletion" }),
+});
+
+export const contactBulkSchema = z.object({
+  target: contactBulkTargetSchema,
+  operation: contactBulkOperationSchema,
+});
+
+// What a bulk operation did: contacts it applied to, and those it actually changed (or tag assignments, for tags)
+export interface ContactBulkResult {
+  action: ContactBulkAction;
+  matched: number;
+  changed: number;
+  notFound: number; // Chosen IDs that are not contacts of the account
+}
+
+// Trash
+// Deleted contacts and campaigns to restore or delete for good
+export const trashItemsSchema = z.object({
+  contactIds: z.array(z.number().int().positive()).default([]),
+  campaignIds: z.array(z.number().int().positive()).default([]),
+}).refine((items) => items.contactIds.length + items.campaignIds.length > 0, {
+  message: "Choose at least one item",
+});
+
+export type TrashItems = z.infer<typeof trashItemsSchema>;
+
+// What is in an account's trash, and how long items stay there
+export interface TrashContents {
+  contacts: Contact[];
+  campaigns: Campaign[];
+  retentionDays: number;
+}
+
+// What a restore did; contacts whose mobile now belongs to an active contact stay in the trash
+export interface TrashRestoreResult {
+  contacts: number;
+  campaigns: number;
+  conflicts: Pick<Contact, "id" | "name" | "mobile">[];
+}
+
+// Contact list sorting
+// Columns the contacts list can be sorted by, server-side
+export const CONTACT_SORT_COLUMNS = ["name", "mobile", "location", "label", "createdAt"] as const;
+export type ContactSortColumn = typeof CONTACT_SORT_COLUMNS[number];
+// Searches can also be ordered by how well contacts match
+export type ContactSort = ContactSortColumn | "relevance";
+
+// File formats contacts can be exported as
+export const CONTACT_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ContactExportFormat = typeof CONTACT_EXPORT_FORMATS[number];
+
+// Lower case without accents, the way contact search compares text
+export function foldSearchText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Duplicate contacts
+// Contacts are likely duplicates when they share a mobile number or have nearly the same name
+export const DUPLICATE_REASONS = ["mobile", "name"] as const;
+export type DuplicateReason = typeof DUPLICATE_REASONS[number];
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  mobile: "Same mobile",
+  name: "Similar name",
+};
+
+export type DuplicateContactGroup = {
+  reasons: DuplicateReason[];
+  contacts: (Contact & { tagIds: number[] })[]; // Oldest first
+};
+
+// Merge contacts into the one that survives, which takes the chosen values
+export const contactMergeSchema = z.object({
+  survivorId: z.number().int().positive(),
+  mergedIds: z.array(z.number().int().positive()).min(1, { message: "Choose at least one contact to merge" }),
+  values: contactValidationSchema.omit({ tagIds: true }),
+}).refine((merge) => !merge.mergedIds.includes(merge.survivorId), {
+  message: "The surviving contact can't also be merged away",
+  path: ["mergedIds"],
+});
+
+// Split an imported "tags" cell into tag names; ";", "|" and "," all separate tags
+export function parseTagList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const names = value.split(/[;|,]/).map(name => name.trim()).filter(Boolean);
+  return Array.from(new Set(names));
+}
+
+// Contact import mapping
+// Which file column fills each contact field on import, and the value used when that column is empty.
+// Custom fields are targeted as "custom:<key>", like template variables.
+export const IMPORT_CONTACT_FIELDS = ["name", "mobile", "location", "label", "tags"] as const;
+
+export const IMPORT_CONTACT_FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  mobile: "Mobile",
+  location: "Location",
+  label: "Label",
+  tags: "Tags",
+};
+
+export const importFieldMappingSchema = z.object({
+  column: z.string().optional(),
+  default: z.string().optional(),
+});
+
+export const contactImportMappingSchema = z.record(importFieldMappingSchema)
+  .refine((mapping) => !!mapping.mobile?.column, {
+    message: "Choose the column with mobile numbers",
+    path: ["mobile"],
+  })
+  .refine((mapping) => !!mapping.name?.column || !!mapping.name?.default?.trim(), {
+    message: "Choose the column with names, or a default name",
+    path: ["name"],
+  });
+
+export type ImportFieldMapping = z.infer<typeof importFieldMappingSchema>;
+export type ContactImportMapping = z.infer<typeof contactImportMappingSchema>;
+
+// A contact read from one row of an import file
+export interface ImportedContact {
+  name: string;
+  mobile: string;
+  location: string | null;
+  label: string | null;
+  tags: string[];
+  customFields: ContactCustomFields;
+}
+
+// Other headers commonly used for the built-in fields
+const IMPORT_FIELD_ALIASES: Record<string, string[]> = {
+  name: ["full name", "contact name"],
+  mobile: ["phone", "phone number", "mobile number", "whatsapp"],
+  location: ["city"],
+};
+
+// Guess a mapping from the file's headers, matching built-in fields by name and custom fields by key or name
+export function suggestImportMapping(
+  columns: string[],
+  fields: Pick<CustomField, "key" | "name">[]
+): ContactImportMapping {
+  const mapping: ContactImportMapping = {};
+  const findColumn = (...names: string[]) =>
+    columns.find(column => names.includes(column.trim().toLowerCase()));
+
+  for (const field of IMPORT_CONTACT_FIELDS) {
+    const column = findColumn(field, IMPORT_CONTACT_FIELD_LABELS[field].toLowerCase(), ...(IMPORT_FIELD_ALIASES[field] || []));
+    if (column) mapping[field] = { column };
+  }
+  for (const field of fields) {
+    const column = findColumn(field.key, field.name.toLowerCase());
+    if (column) mapping[`${CUSTOM_FIELD_VARIABLE_PREFIX}${field.key}`] = { column };
+  }
+  return mapping;
+}
+
+/**
+ * Read one import row through a mapping. Rows with errors should be left
+ * out of the import; the errors say which field was wrong and why. Mobiles
+ * are normalized, reading national numbers as numbers of `defaultCountry`.
+ */
+export function mapImportRow(
+  record: Record<string, string | undefined>,
+  mapping: ContactImportMapping,
+  fields: Pick<CustomField, "key" | "name" | "type" | "options">[],
+  defaultCountry?: string | null
+): { contact: ImportedContact | null; errors: string[] } {
+  const errors: string[] = [];
+  const valueOf = (target: string) => {
+    const fieldMapping = mapping[target];
+    if (!fieldMapping) return "";
+    const raw = fieldMapping.column ? (record[fieldMapping.column] ?? "").trim() : "";
+    return raw || (fieldMapping.default ?? "").trim();
+  };
+
+  const name = valueOf("name");
+  if (!name) errors.push("Name is required");
+
+  let mobile = valueOf("mobile");
+  if (!mobile) {
+    errors.push("Mobile is required");
+  } else {
+    const normalized = normalizeMobile(mobile, defaultCountry);
+    if ("error" in normalized) errors.push(`Mobile ${normalized.error}`);
+    else mobile = normalized.mobile;
+  }
+
+  const customFields: ContactCustomFields = {};
+  for (const target of Object.keys(mapping)) {
+    if (!target.startsWith(CUSTOM_FIELD_VARIABLE_PREFIX)) continue;
+    const key = target.slice(CUSTOM_FIELD_VARIABLE_PREFIX.length);
+    const field = fields.find(f => f.key === key);
+    if (!field) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+    const result = parseCustomFieldValue(field, valueOf(target));
+    if ("error" in result) {
+      errors.push(`${field.name}: ${result.error}`);
+    } else if (result.value !== null) {
+      customFields[key] = result.value;
+    }
+  }
+
+  if (errors.length > 0) return { contact: null, errors };
+  return {
+    contact: {
+      name,
+      mobile,
+      location: valueOf("location") || null,
+      label: valueOf("label") || null,
+      tags: parseTagList(valueOf("tags")),
+      customFields,
+    },
+    errors,
+  };
+}
+
+export const registerValidationSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters" }),
+  username: z.string().min(3, { message: "Username must be at least 3 characters" }),
+  email: z.string().email({ message: "Please enter a valid email address" }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  companyName: z.string().min(2, { message: "Company name must be at least 2 characters" }),
+});
+
+export const accountValidationSchema = z.object({
+  name: z.string().min(2, { message: "Company name must be at least 2 characters" }),
+  defaultCountry: z.string().refine((code) => isSupportedCountry(code), { message: "Unknown country" }).optional(),
+});
+
+export const roleValidationSchema = z.object({
+  role: z.enum(USER_ROLES, { errorMap: () => ({ message: "Invalid role" }) }),
+});
+
+export const invitationValidationSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address" }),
+  role: z.enum(USER_ROLES, { errorMap: () => ({ message: "Invalid role" }) }),
+});
+
+export const acceptInvitationValidationSchema = z.object({
+  token: z.string().min(1, { message: "Invitation token is required" }),
+  name: z.string().min(2, { message: "Name must be at least 2 characters" }),
+  username: z.string().min(3, { message: "Username must be at least 3 characters" }),
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
 });
 
 export const campaignValidationSchema = z.object({
   name: z.string().min(3, { message: "Campaign name must be at least 3 characters" }),
   template: z.string().min(1, { message: "You must select a template" }),
   contactLabel: z.string().optional(),
-  scheduledFor: z.string().optional(),
+  segmentId: z.number().int().positive().optional().nullable(),
+  scheduledFor: z.string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: "Scheduled time must be a valid date" })
+    .optional()
+    .nullable(),
+  templateVariables: z.array(templateVariableSchema).optional(),
+  includeTagIds: z.array(z.number().int().positive()).optional(),
+  excludeTagIds: z.array(z.number().int().positive()).optional(),
+});
+
+export const segmentValidationSchema = z.object({
+  name: z.string().min(2, { message: "Segment name must be at least 2 characters" }),
+  description: z.string().optional().nullable(),
+  rules: segmentGroupSchema,
+});
+
+export const settingsValidationSchema = z.object({
+  wabaApiUrl: z.string().optional().nullable(),
+  facebookAccessToken: z.string().optional().nullable(),
+  partnerMobile: z.string().optional().nullable(),
+  wabaId: z.string().optional().nullable(),
+  campaignApiKey: z.string().optional().nullable(),
+  messagingGateway: z.enum(MESSAGING_GATEWAYS, {
+    errorMap: () => ({ message: "Unknown messaging gateway" })
+  }).optional(),
+  phoneNumberId: z.string().optional().nullable(),
+  optOutKeywords: z.string().optional().nullable(),
+  optInKeywords: z.string().optional().nullable(),
 });